@@ -0,0 +1,33 @@
+import { notFound } from "next/navigation";
+
+import SpawnDashboard from "@/components/SpawnDashboard";
+import { fetchServers, GameServer } from "@/lib/servers";
+import { getSupabasePublicClient } from "@/lib/supabaseServer";
+
+const loadServers = async (): Promise<GameServer[] | null> => {
+  try {
+    const { servers, error } = await fetchServers(getSupabasePublicClient());
+    return error ? null : servers;
+  } catch (caughtError) {
+    console.error("Supabase servers error", caughtError);
+    return null;
+  }
+};
+
+export default async function ServerPage({
+  params,
+}: {
+  params: Promise<{ server: string }>;
+}) {
+  const { server } = await params;
+  const serverId = decodeURIComponent(server);
+  const servers = await loadServers();
+
+  // Without a server list (read error, missing configuration) the dashboard
+  // is left to report the problem rather than answering 404.
+  if (servers && !servers.some((item) => item.id === serverId)) {
+    notFound();
+  }
+
+  return <SpawnDashboard serverId={serverId} />;
+}
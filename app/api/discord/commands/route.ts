@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+
+import { SPAWN_COMMAND } from "@/lib/discordBot";
+import { translate } from "@/lib/i18n";
+import { apiError, getRequestLocale, isAuthorizedWrite } from "@/lib/timersApi";
+
+export const dynamic = "force-dynamic";
+
+const DISCORD_API_URL = "https://discord.com/api/v10";
+
+// Registers /spawn as a global command. Needs DISCORD_APPLICATION_ID and
+// DISCORD_BOT_TOKEN; call it again after changing SPAWN_COMMAND.
+export async function PUT(request: Request) {
+  const locale = getRequestLocale(request);
+
+  if (!isAuthorizedWrite(request)) {
+    return apiError(translate(locale, "api.unauthorized"), 401);
+  }
+
+  const applicationId = process.env.DISCORD_APPLICATION_ID;
+  const botToken = process.env.DISCORD_BOT_TOKEN;
+
+  if (!applicationId || !botToken) {
+    return apiError(translate(locale, "api.discordEnvMissing"), 500);
+  }
+
+  try {
+    const response = await fetch(
+      `${DISCORD_API_URL}/applications/${applicationId}/commands`,
+      {
+        method: "PUT",
+        headers: {
+          Authorization: `Bot ${botToken}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify([SPAWN_COMMAND]),
+      }
+    );
+
+    if (!response.ok) {
+      const details = await response.text().catch(() => "");
+      throw new Error(
+        `Discord responded with ${response.status}${details ? `: ${details}` : ""}`
+      );
+    }
+
+    return NextResponse.json({ commands: await response.json() });
+  } catch (caughtError) {
+    console.error("PUT /api/discord/commands error", caughtError);
+    return apiError(
+      caughtError instanceof Error
+        ? caughtError.message
+        : translate(locale, "common.unknownError"),
+      500
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import { NextResponse } from "next/server";
+
+import {
+  createSupabaseSpawnBotBackend,
+  DiscordInteraction,
+  DiscordInteractionResponse,
+  handleDiscordInteraction,
+  verifyDiscordSignature,
+} from "@/lib/discordBot";
+import { getStandInSpawnBotBackend } from "@/lib/discordBotStandIn";
+import { getServerLocale, translate } from "@/lib/i18n";
+import { DEFAULT_SERVER_ID } from "@/lib/servers";
+import { getSupabaseServiceClient } from "@/lib/supabaseServer";
+import { apiError } from "@/lib/timersApi";
+
+export const dynamic = "force-dynamic";
+
+// With DISCORD_BOT_STANDIN=1 outside production, signatures are not checked
+// and timers live in memory, e.g.:
+//   curl -X POST localhost:3000/api/discord/interactions \
+//     -d '{"type":2,"data":{"name":"spawn","options":[{"name":"status","type":1}]}}'
+const isStandInEnabled = () =>
+  process.env.DISCORD_BOT_STANDIN === "1" &&
+  process.env.NODE_ENV !== "production";
+
+// Interactions endpoint URL of the Discord application (DISCORD_PUBLIC_KEY).
+// Members need the DISCORD_BOT_WRITER_ROLE_ID role to change timers; the
+// stand-in checks it too, so add "member":{"roles":[...]} to try writes.
+export async function POST(request: Request) {
+  const body = await request.text();
+  const locale = getServerLocale();
+  const standIn = isStandInEnabled();
+
+  if (!standIn) {
+    const publicKey = process.env.DISCORD_PUBLIC_KEY;
+    const signature = request.headers.get("x-signature-ed25519");
+    const timestamp = request.headers.get("x-signature-timestamp");
+
+    if (
+      !publicKey ||
+      !signature ||
+      !timestamp ||
+      !verifyDiscordSignature(publicKey, signature, timestamp, body)
+    ) {
+      return apiError(translate(locale, "api.invalidSignature"), 401);
+    }
+  }
+
+  let interaction: DiscordInteraction;
+
+  try {
+    interaction = JSON.parse(body) as DiscordInteraction;
+  } catch {
+    return apiError(translate(locale, "api.invalidJson"), 400);
+  }
+
+  try {
+    const serverId = process.env.DISCORD_BOT_SERVER_ID ?? DEFAULT_SERVER_ID;
+    const backend = standIn
+      ? getStandInSpawnBotBackend(serverId)
+      : createSupabaseSpawnBotBackend(
+          getSupabaseServiceClient(),
+          serverId,
+          locale
+        );
+
+    return NextResponse.json<DiscordInteractionResponse>(
+      await handleDiscordInteraction(interaction, backend, {
+        fallbackLocale: locale,
+        nowMs: Date.now(),
+        writerRoleId: process.env.DISCORD_BOT_WRITER_ROLE_ID || null,
+      })
+    );
+  } catch (caughtError) {
+    console.error("POST /api/discord/interactions error", caughtError);
+    return apiError(
+      caughtError instanceof Error
+        ? caughtError.message
+        : translate(locale, "common.unknownError"),
+      500
+    );
+  }
+}
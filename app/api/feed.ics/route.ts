@@ -0,0 +1,52 @@
+import { NextRequest } from "next/server";
+
+import { translate } from "@/lib/i18n";
+import { DEFAULT_SERVER_ID } from "@/lib/servers";
+import { buildSpawnCalendar, loadSpawnFeedSources } from "@/lib/spawnFeed";
+import { getSupabaseServiceClient } from "@/lib/supabaseServer";
+import { apiError, getRequestLocale } from "@/lib/timersApi";
+
+export const dynamic = "force-dynamic";
+
+// The server id ends up in a header, so only keep slug characters.
+const toFileNameSlug = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9-]/g, "") || DEFAULT_SERVER_ID;
+
+// GET /api/feed.ics?server=<id>&projected=1&lang=en — iCalendar feed to
+// subscribe to. `projected=1` adds the projected recurring attempts.
+export async function GET(request: NextRequest) {
+  const locale = getRequestLocale(request);
+
+  try {
+    const { searchParams } = request.nextUrl;
+    const serverId = searchParams.get("server") ?? DEFAULT_SERVER_ID;
+    const nowMs = Date.now();
+    const sources = await loadSpawnFeedSources(
+      getSupabaseServiceClient(),
+      serverId,
+      nowMs
+    );
+    const calendar = buildSpawnCalendar(sources, {
+      includeProjected: ["1", "true"].includes(searchParams.get("projected") ?? ""),
+      locale,
+      siteUrl: process.env.SITE_URL ?? process.env.NEXT_PUBLIC_SITE_URL ?? null,
+      nowMs,
+    });
+
+    return new Response(calendar, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": `inline; filename="${toFileNameSlug(serverId)}-spawns.ics"`,
+        "Cache-Control": "public, max-age=60",
+      },
+    });
+  } catch (caughtError) {
+    console.error("GET /api/feed.ics error", caughtError);
+    return apiError(
+      caughtError instanceof Error
+        ? caughtError.message
+        : translate(locale, "common.unknownError"),
+      500
+    );
+  }
+}
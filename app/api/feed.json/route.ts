@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { translate } from "@/lib/i18n";
+import { DEFAULT_SERVER_ID } from "@/lib/servers";
+import { buildSpawnFeed, loadSpawnFeedSources, SpawnFeed } from "@/lib/spawnFeed";
+import { getSupabaseServiceClient } from "@/lib/supabaseServer";
+import { apiError, getRequestLocale } from "@/lib/timersApi";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/feed.json?server=<id> — public, read-only.
+export async function GET(request: NextRequest) {
+  const locale = getRequestLocale(request);
+
+  try {
+    const serverId =
+      request.nextUrl.searchParams.get("server") ?? DEFAULT_SERVER_ID;
+    const nowMs = Date.now();
+    const sources = await loadSpawnFeedSources(
+      getSupabaseServiceClient(),
+      serverId,
+      nowMs
+    );
+
+    return NextResponse.json<SpawnFeed>(buildSpawnFeed(sources, nowMs), {
+      headers: {
+        "Access-Control-Allow-Origin": "*",
+        "Cache-Control": "public, max-age=30",
+      },
+    });
+  } catch (caughtError) {
+    console.error("GET /api/feed.json error", caughtError);
+    return apiError(
+      caughtError instanceof Error
+        ? caughtError.message
+        : translate(locale, "common.unknownError"),
+      500
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextResponse } from "next/server";
+
+import { getServerLocale, translate } from "@/lib/i18n";
+import { dispatchSpawnNotifications } from "@/lib/spawnNotifications";
+import { getSupabaseServiceClient } from "@/lib/supabaseServer";
+import {
+  createWebPushSender,
+  dispatchPushNotifications,
+} from "@/lib/webPushNotifications";
+
+export const dynamic = "force-dynamic";
+
+// Called every minute by the scheduler configured in vercel.json. Vercel Cron
+// sends `Authorization: Bearer $CRON_SECRET`; any other caller must do the
+// same.
+export async function GET(request: Request) {
+  const locale = getServerLocale();
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (
+    !cronSecret ||
+    request.headers.get("authorization") !== `Bearer ${cronSecret}`
+  ) {
+    return NextResponse.json(
+      { error: translate(locale, "api.unauthorized") },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const client = getSupabaseServiceClient();
+    const nowMs = Date.now();
+    const discord = await dispatchSpawnNotifications({
+      client,
+      nowMs,
+      siteUrl:
+        process.env.SITE_URL ?? process.env.NEXT_PUBLIC_SITE_URL ?? null,
+      locale,
+    });
+    const pushSender = createWebPushSender();
+    const push = pushSender
+      ? await dispatchPushNotifications({
+          client,
+          nowMs,
+          send: pushSender,
+          locale,
+        })
+      : null;
+
+    return NextResponse.json({ discord, push });
+  } catch (caughtError) {
+    console.error("Spawn notification dispatch error", caughtError);
+    return NextResponse.json(
+      {
+        error:
+          caughtError instanceof Error
+            ? caughtError.message
+            : translate(locale, "common.unknownError"),
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,196 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { NextResponse } from "next/server";
+
+import { sanitizeAlertPreferences } from "@/lib/alertPreferences";
+import { translate } from "@/lib/i18n";
+import { getRequestUser, getSupabaseServiceClient } from "@/lib/supabaseServer";
+import { getRequestLocale } from "@/lib/timersApi";
+
+export const dynamic = "force-dynamic";
+
+// Devices per user; registering another one drops the least recently
+// updated.
+const MAX_PUSH_SUBSCRIPTIONS_PER_USER = 5;
+
+// Push services of the major browsers. The dispatcher POSTs to every stored
+// endpoint, so any other host is refused.
+const PUSH_SERVICE_HOST_SUFFIXES = [
+  ".googleapis.com",
+  ".mozilla.com",
+  ".push.apple.com",
+  ".notify.windows.com",
+];
+
+type SubscriptionBody = {
+  subscription?: {
+    endpoint?: unknown;
+    keys?: { p256dh?: unknown; auth?: unknown };
+  };
+  watchedLocationIds?: unknown;
+  leadMinutes?: unknown;
+};
+
+const isValidEndpoint = (value: unknown): value is string => {
+  if (typeof value !== "string") {
+    return false;
+  }
+
+  try {
+    const url = new URL(value);
+
+    return (
+      url.protocol === "https:" &&
+      PUSH_SERVICE_HOST_SUFFIXES.some((suffix) => url.hostname.endsWith(suffix))
+    );
+  } catch {
+    return false;
+  }
+};
+
+const pruneSurplusSubscriptions = async (
+  client: SupabaseClient,
+  userId: string
+) => {
+  const { data, error } = await client
+    .from("push_subscriptions")
+    .select("endpoint")
+    .eq("user_id", userId)
+    .order("updated_at", { ascending: false })
+    .range(MAX_PUSH_SUBSCRIPTIONS_PER_USER, MAX_PUSH_SUBSCRIPTIONS_PER_USER + 99);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const staleEndpoints = (data ?? []).map((row) => row.endpoint as string);
+
+  if (staleEndpoints.length === 0) {
+    return;
+  }
+
+  const { error: deleteError } = await client
+    .from("push_subscriptions")
+    .delete()
+    .eq("user_id", userId)
+    .in("endpoint", staleEndpoints);
+
+  if (deleteError) {
+    throw new Error(deleteError.message);
+  }
+};
+
+export async function POST(request: Request) {
+  const locale = getRequestLocale(request);
+  const user = await getRequestUser(request);
+
+  if (!user) {
+    return NextResponse.json(
+      { error: translate(locale, "api.unauthorized") },
+      { status: 401 }
+    );
+  }
+
+  const body = (await request.json().catch(() => null)) as SubscriptionBody | null;
+  const subscription = body?.subscription;
+
+  if (
+    !subscription ||
+    !isValidEndpoint(subscription.endpoint) ||
+    typeof subscription.keys?.p256dh !== "string" ||
+    typeof subscription.keys?.auth !== "string"
+  ) {
+    return NextResponse.json(
+      { error: translate(locale, "api.invalidPushSubscription") },
+      { status: 400 }
+    );
+  }
+
+  const client = getSupabaseServiceClient();
+  const { data: existing, error: existingError } = await client
+    .from("push_subscriptions")
+    .select("user_id")
+    .eq("endpoint", subscription.endpoint)
+    .maybeSingle();
+
+  if (existingError) {
+    console.error("Supabase push_subscriptions error", existingError);
+    return NextResponse.json({ error: existingError.message }, { status: 500 });
+  }
+
+  if (existing && existing.user_id !== user.id) {
+    return NextResponse.json(
+      { error: translate(locale, "api.pushSubscriptionOwned") },
+      { status: 403 }
+    );
+  }
+
+  const preferences = sanitizeAlertPreferences({
+    watchedLocationIds: body?.watchedLocationIds,
+    leadMinutes: body?.leadMinutes,
+  });
+
+  const { error } = await client.from("push_subscriptions").upsert({
+    endpoint: subscription.endpoint,
+    user_id: user.id,
+    subscription: {
+      endpoint: subscription.endpoint,
+      keys: {
+        p256dh: subscription.keys.p256dh,
+        auth: subscription.keys.auth,
+      },
+    },
+    watched_location_ids: preferences.watchedLocationIds,
+    lead_minutes: preferences.leadMinutes,
+    updated_at: new Date().toISOString(),
+  });
+
+  if (error) {
+    console.error("Supabase push_subscriptions error", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  // The registration itself went through; the cap is enforced best-effort.
+  await pruneSurplusSubscriptions(client, user.id).catch(
+    (caughtError: unknown) => {
+      console.error("Supabase push_subscriptions error", caughtError);
+    }
+  );
+
+  return NextResponse.json({ ok: true });
+}
+
+export async function DELETE(request: Request) {
+  const locale = getRequestLocale(request);
+  const user = await getRequestUser(request);
+
+  if (!user) {
+    return NextResponse.json(
+      { error: translate(locale, "api.unauthorized") },
+      { status: 401 }
+    );
+  }
+
+  const body = (await request.json().catch(() => null)) as {
+    endpoint?: unknown;
+  } | null;
+
+  if (!isValidEndpoint(body?.endpoint)) {
+    return NextResponse.json(
+      { error: translate(locale, "api.invalidPushEndpoint") },
+      { status: 400 }
+    );
+  }
+
+  const { error } = await getSupabaseServiceClient()
+    .from("push_subscriptions")
+    .delete()
+    .eq("endpoint", body.endpoint)
+    .eq("user_id", user.id);
+
+  if (error) {
+    console.error("Supabase push_subscriptions error", error);
+    return NextResponse.json({ error: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ ok: true });
+}
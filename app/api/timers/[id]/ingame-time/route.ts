@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { translate } from "@/lib/i18n";
+import { DEFAULT_SERVER_ID } from "@/lib/servers";
+import { saveInGameTime } from "@/lib/spawnTimerStore";
+import { getSupabaseServiceClient } from "@/lib/supabaseServer";
+import {
+  apiError,
+  conflictResponse,
+  findActiveLocation,
+  getRequestLocale,
+  isAuthorizedWrite,
+  readAuthorName,
+  readExpectedUpdatedAt,
+  readJsonBody,
+  TimerUpdateResponse,
+  toTimerApiEntry,
+} from "@/lib/timersApi";
+import { validateMinecraftTimeInput } from "@/lib/timerValidation";
+
+export const dynamic = "force-dynamic";
+
+// POST /api/timers/<id>/ingame-time?server=<id> (defaults to the default server)
+// Body: { "time": "18:20", "author"?: "Bot Discord",
+//         "expectedUpdatedAt"?: string | null }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const locale = getRequestLocale(request);
+
+  if (!isAuthorizedWrite(request)) {
+    return apiError(translate(locale, "api.unauthorized"), 401);
+  }
+
+  const body = await readJsonBody(request);
+
+  if (!body) {
+    return apiError(translate(locale, "api.invalidJson"), 400);
+  }
+
+  const validated = validateMinecraftTimeInput(
+    typeof body.time === "string" ? body.time : "",
+    locale
+  );
+
+  if (!validated.ok) {
+    return apiError(validated.error, 400);
+  }
+
+  try {
+    const { id } = await params;
+    const client = getSupabaseServiceClient();
+    const location = await findActiveLocation(
+      client,
+      request.nextUrl.searchParams.get("server") ?? DEFAULT_SERVER_ID,
+      id
+    );
+
+    if (!location) {
+      return apiError(translate(locale, "api.unknownResource"), 404);
+    }
+
+    const result = await saveInGameTime(
+      client,
+      location,
+      validated.value,
+      new Date(),
+      {
+        authorName: readAuthorName(body),
+        expectedUpdatedAt: readExpectedUpdatedAt(body),
+        locale,
+      }
+    );
+
+    if (result.status === "conflict") {
+      return conflictResponse(location, result.current, locale);
+    }
+
+    const timer = result.row;
+
+    return NextResponse.json<TimerUpdateResponse>({
+      timer: toTimerApiEntry(location, timer),
+    });
+  } catch (caughtError) {
+    console.error("POST /api/timers/[id]/ingame-time error", caughtError);
+    return apiError(
+      caughtError instanceof Error
+        ? caughtError.message
+        : translate(locale, "common.unknownError"),
+      500
+    );
+  }
+}
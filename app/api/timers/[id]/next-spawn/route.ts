@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { translate } from "@/lib/i18n";
+import { DEFAULT_SERVER_ID } from "@/lib/servers";
+import { deriveMinecraftClockAtDate } from "@/lib/minecraftTime";
+import { recordSpawnEvent } from "@/lib/spawnEvents";
+import { saveNextSpawn } from "@/lib/spawnTimerStore";
+import { getSupabaseServiceClient } from "@/lib/supabaseServer";
+import {
+  apiError,
+  conflictResponse,
+  findActiveLocation,
+  getRequestLocale,
+  isAuthorizedWrite,
+  readAuthorName,
+  readExpectedUpdatedAt,
+  readJsonBody,
+  TimerUpdateResponse,
+  toTimerApiEntry,
+} from "@/lib/timersApi";
+import { computeNextSpawnDate, validateSpawnOffset } from "@/lib/timerValidation";
+
+export const dynamic = "force-dynamic";
+
+// POST /api/timers/<id>/next-spawn?server=<id> (defaults to the default server)
+// Body: { "minutes": 45, "seconds": 30, "author"?: "Bot Discord",
+//         "expectedUpdatedAt"?: string | null }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const locale = getRequestLocale(request);
+
+  if (!isAuthorizedWrite(request)) {
+    return apiError(translate(locale, "api.unauthorized"), 401);
+  }
+
+  const body = await readJsonBody(request);
+
+  if (!body) {
+    return apiError(translate(locale, "api.invalidJson"), 400);
+  }
+
+  const minutes = body.minutes;
+  const seconds = body.seconds ?? 0;
+
+  if (
+    typeof minutes !== "number" ||
+    typeof seconds !== "number" ||
+    !Number.isInteger(minutes) ||
+    !Number.isInteger(seconds)
+  ) {
+    return apiError(translate(locale, "validation.invalidTime"), 400);
+  }
+
+  const offset = validateSpawnOffset(minutes, seconds, locale);
+
+  if (!offset.ok) {
+    return apiError(offset.error, 400);
+  }
+
+  try {
+    const { id } = await params;
+    const client = getSupabaseServiceClient();
+    const location = await findActiveLocation(
+      client,
+      request.nextUrl.searchParams.get("server") ?? DEFAULT_SERVER_ID,
+      id
+    );
+
+    if (!location) {
+      return apiError(translate(locale, "api.unknownResource"), 404);
+    }
+
+    const nextSpawn = computeNextSpawnDate(offset.value);
+    const result = await saveNextSpawn(
+      client,
+      location,
+      nextSpawn,
+      {
+        authorName: readAuthorName(body),
+        expectedUpdatedAt: readExpectedUpdatedAt(body),
+        locale,
+      }
+    );
+
+    if (result.status === "conflict") {
+      return conflictResponse(location, result.current, locale);
+    }
+
+    const timer = result.row;
+
+    await recordSpawnEvent(client, {
+      location_id: location.id,
+      kind: "timer_set",
+      next_spawn: timer.next_spawn,
+      phase: deriveMinecraftClockAtDate(timer, nextSpawn)?.phase ?? null,
+      ingame_time: null,
+      legendary: null,
+      caught_by: null,
+    }).catch((caughtError: unknown) => {
+      console.error("Supabase spawn_events error", caughtError);
+    });
+
+    return NextResponse.json<TimerUpdateResponse>({
+      timer: toTimerApiEntry(location, timer),
+    });
+  } catch (caughtError) {
+    console.error("POST /api/timers/[id]/next-spawn error", caughtError);
+    return apiError(
+      caughtError instanceof Error
+        ? caughtError.message
+        : translate(locale, "common.unknownError"),
+      500
+    );
+  }
+}
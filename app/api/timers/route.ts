@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { translate } from "@/lib/i18n";
+import { DEFAULT_SERVER_ID } from "@/lib/servers";
+import {
+  fetchSpawnLocations,
+  getActiveSpawnLocations,
+} from "@/lib/spawnLocations";
+import { fetchSpawnTimersForLocations } from "@/lib/spawnTimerStore";
+import { getSupabaseServiceClient } from "@/lib/supabaseServer";
+import {
+  apiError,
+  getRequestLocale,
+  TimersListResponse,
+  toTimerApiEntry,
+} from "@/lib/timersApi";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/timers?server=<id> (defaults to the default server)
+export async function GET(request: NextRequest) {
+  const locale = getRequestLocale(request);
+
+  try {
+    const serverId =
+      request.nextUrl.searchParams.get("server") ?? DEFAULT_SERVER_ID;
+    const client = getSupabaseServiceClient();
+    const { locations } = await fetchSpawnLocations(client, serverId);
+    const activeLocations = getActiveSpawnLocations(locations);
+    const timersByLocationId = await fetchSpawnTimersForLocations(
+      client,
+      activeLocations
+    );
+
+    return NextResponse.json<TimersListResponse>({
+      serverId,
+      timers: activeLocations.map((location) =>
+        toTimerApiEntry(location, timersByLocationId.get(location.id) ?? null)
+      ),
+    });
+  } catch (caughtError) {
+    console.error("GET /api/timers error", caughtError);
+    return apiError(
+      caughtError instanceof Error
+        ? caughtError.message
+        : translate(locale, "common.unknownError"),
+      500
+    );
+  }
+}
@@ -0,0 +1,22 @@
+import type { Metadata } from "next";
+
+import SpawnOverlay from "@/components/SpawnOverlay";
+import { parseOverlayOptions } from "@/lib/overlay";
+
+export const metadata: Metadata = {
+  title: "Legendary Info",
+};
+
+// Same parameters as /overlay, for <iframe> embeds on other websites.
+export default async function EmbedPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  return (
+    <SpawnOverlay
+      variant="embed"
+      options={parseOverlayOptions(await searchParams, "embed")}
+    />
+  );
+}
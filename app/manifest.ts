@@ -0,0 +1,23 @@
+import type { MetadataRoute } from "next";
+
+// Served as /manifest.webmanifest; makes the dashboard installable.
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "CobbleGems — Legendary Info",
+    short_name: "Legendary Info",
+    description: "Spawn timers of the CobbleGems legendary locations.",
+    start_url: "/",
+    display: "standalone",
+    background_color: "#09090b",
+    theme_color: "#09090b",
+    lang: "fr",
+    icons: [
+      {
+        src: "/pokeball.svg",
+        sizes: "any",
+        type: "image/svg+xml",
+        purpose: "any",
+      },
+    ],
+  };
+}
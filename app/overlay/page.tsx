@@ -0,0 +1,22 @@
+import type { Metadata } from "next";
+
+import SpawnOverlay from "@/components/SpawnOverlay";
+import { parseOverlayOptions } from "@/lib/overlay";
+
+export const metadata: Metadata = {
+  title: "Overlay — Legendary Info",
+};
+
+// e.g. /overlay?resources=ressources-01,construction-02&theme=transparent
+export default async function OverlayPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  return (
+    <SpawnOverlay
+      variant="overlay"
+      options={parseOverlayOptions(await searchParams, "overlay")}
+    />
+  );
+}
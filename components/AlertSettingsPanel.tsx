@@ -0,0 +1,131 @@
+"use client";
+
+import { useCallback, useState } from "react";
+
+import { useI18n } from "@/hooks/useI18n";
+import {
+  AlertPreferences,
+  MAX_ALERT_LEAD_MINUTES,
+} from "@/lib/alertPreferences";
+import { requestNotificationPermission } from "@/lib/browserAlerts";
+
+type AlertSettingsPanelProps = {
+  resources: Array<{ id: string; label: string }>;
+  preferences: AlertPreferences;
+  // Notifications with the tab closed (Web Push) need an account.
+  signedIn: boolean;
+  onChange: (preferences: AlertPreferences) => void;
+};
+
+export default function AlertSettingsPanel({
+  resources,
+  preferences,
+  signedIn,
+  onChange,
+}: AlertSettingsPanelProps) {
+  const { t } = useI18n();
+  const [permissionError, setPermissionError] = useState<string | null>(null);
+
+  const handleToggleWatched = useCallback(
+    (id: string) => {
+      const watched = preferences.watchedLocationIds.includes(id)
+        ? preferences.watchedLocationIds.filter((watchedId) => watchedId !== id)
+        : [...preferences.watchedLocationIds, id];
+
+      onChange({ ...preferences, watchedLocationIds: watched });
+    },
+    [onChange, preferences]
+  );
+
+  const handleToggleNotifications = useCallback(async () => {
+    if (preferences.notifications) {
+      onChange({ ...preferences, notifications: false });
+      return;
+    }
+
+    const permission = await requestNotificationPermission();
+
+    if (permission !== "granted") {
+      setPermissionError(t("alerts.permissionDenied"));
+      return;
+    }
+
+    setPermissionError(null);
+    onChange({ ...preferences, notifications: true });
+  }, [onChange, preferences, t]);
+
+  return (
+    <section className="flex flex-col gap-4 rounded-lg border border-white/10 bg-white/5 p-4 text-sm text-zinc-300">
+      <h2 className="text-lg font-semibold text-white">{t("alerts.title")}</h2>
+
+      <fieldset className="flex flex-wrap gap-x-4 gap-y-2">
+        <legend className="mb-2 text-xs text-zinc-500">
+          {t("alerts.watched")}
+        </legend>
+        {resources.map((resource) => (
+          <label key={resource.id} className="inline-flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={preferences.watchedLocationIds.includes(resource.id)}
+              onChange={() => handleToggleWatched(resource.id)}
+              className="accent-lime-400"
+            />
+            {resource.label}
+          </label>
+        ))}
+      </fieldset>
+
+      <div className="flex flex-wrap items-center gap-x-6 gap-y-3">
+        <label className="inline-flex items-center gap-2">
+          {t("alerts.leadBefore")}
+          <input
+            type="number"
+            inputMode="numeric"
+            min={1}
+            max={MAX_ALERT_LEAD_MINUTES}
+            value={preferences.leadMinutes}
+            onChange={(event) => {
+              const parsed = Number.parseInt(event.target.value, 10);
+
+              if (!Number.isNaN(parsed)) {
+                onChange({
+                  ...preferences,
+                  leadMinutes: Math.min(MAX_ALERT_LEAD_MINUTES, Math.max(1, parsed)),
+                });
+              }
+            }}
+            className="h-9 w-16 rounded-md border border-white/20 bg-black/40 px-2 text-sm text-white outline-none transition focus:border-white/60 focus:ring-2 focus:ring-white/20"
+          />
+          {t("alerts.leadAfter")}
+        </label>
+        <label className="inline-flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={preferences.sound}
+            onChange={() =>
+              onChange({ ...preferences, sound: !preferences.sound })
+            }
+            className="accent-lime-400"
+          />
+          {t("alerts.sound")}
+        </label>
+        <label className="inline-flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={preferences.notifications}
+            onChange={() => void handleToggleNotifications()}
+            className="accent-lime-400"
+          />
+          {t("alerts.notifications")}
+        </label>
+      </div>
+
+      {preferences.notifications && !signedIn ? (
+        <p className="text-xs text-zinc-500">{t("alerts.pushSignIn")}</p>
+      ) : null}
+      {permissionError ? (
+        <p className="text-xs text-red-300">{permissionError}</p>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,134 @@
+"use client";
+
+import { FormEvent, useCallback, useState } from "react";
+import { SupabaseClient, User } from "@supabase/supabase-js";
+
+import { useI18n } from "@/hooks/useI18n";
+import { getUserDisplayName, sendMagicLink, signInWithDiscord } from "@/lib/auth";
+
+type AuthControlsProps = {
+  client: SupabaseClient;
+  user: User | null;
+};
+
+const buttonClassName =
+  "inline-flex items-center rounded-md border border-white/15 px-3 py-2 text-sm font-medium text-white transition hover:border-white/40 hover:bg-white/10 cursor-pointer disabled:cursor-not-allowed disabled:opacity-60";
+
+export default function AuthControls({ client, user }: AuthControlsProps) {
+  const { locale, t } = useI18n();
+  const [email, setEmail] = useState<string>("");
+  const [showEmailForm, setShowEmailForm] = useState<boolean>(false);
+  const [busy, setBusy] = useState<boolean>(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const runAuthAction = useCallback(async (action: () => Promise<void>) => {
+    setError(null);
+    setMessage(null);
+    setBusy(true);
+
+    try {
+      await action();
+    } catch (caughtError) {
+      console.error("Supabase auth error", caughtError);
+      setError(
+        t("auth.failed", {
+          details:
+            caughtError instanceof Error
+              ? caughtError.message
+              : t("common.unknownError"),
+        })
+      );
+    } finally {
+      setBusy(false);
+    }
+  }, [t]);
+
+  const handleMagicLink = useCallback(
+    (event: FormEvent<HTMLFormElement>) => {
+      event.preventDefault();
+      const trimmed = email.trim();
+
+      if (!trimmed) {
+        setError(t("auth.emailRequired"));
+        return;
+      }
+
+      void runAuthAction(async () => {
+        await sendMagicLink(client, trimmed);
+        setMessage(t("auth.magicLinkSent"));
+        setShowEmailForm(false);
+      });
+    },
+    [client, email, runAuthAction, t]
+  );
+
+  if (user) {
+    return (
+      <div className="flex flex-wrap items-center gap-3 text-sm text-zinc-400">
+        <span>
+          {t("auth.signedInAs")}{" "}
+          <span className="font-medium text-white">{getUserDisplayName(user, locale)}</span>
+        </span>
+        <button
+          onClick={() =>
+            void runAuthAction(async () => {
+              const { error: signOutError } = await client.auth.signOut();
+
+              if (signOutError) {
+                throw new Error(signOutError.message);
+              }
+            })
+          }
+          disabled={busy}
+          className={buttonClassName}
+        >
+          {t("auth.signOut")}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-xs text-zinc-500">
+          {t("auth.readOnly")}
+        </span>
+        <button
+          onClick={() => void runAuthAction(() => signInWithDiscord(client))}
+          disabled={busy}
+          className={buttonClassName}
+        >
+          {t("auth.discord")}
+        </button>
+        <button
+          onClick={() => setShowEmailForm((prev) => !prev)}
+          disabled={busy}
+          className={buttonClassName}
+        >
+          {t("auth.magicLink")}
+        </button>
+      </div>
+
+      {showEmailForm ? (
+        <form onSubmit={handleMagicLink} className="flex flex-wrap items-center gap-2">
+          <input
+            type="email"
+            required
+            placeholder={t("auth.emailPlaceholder")}
+            value={email}
+            onChange={(event) => setEmail(event.target.value)}
+            className="h-9 w-64 rounded-md border border-white/20 bg-black/40 px-3 text-sm text-white outline-none transition focus:border-white/60 focus:ring-2 focus:ring-white/20"
+          />
+          <button type="submit" disabled={busy} className={buttonClassName}>
+            {t("auth.sendLink")}
+          </button>
+        </form>
+      ) : null}
+
+      {message ? <p className="text-xs text-lime-300">{message}</p> : null}
+      {error ? <p className="text-xs text-red-300">{error}</p> : null}
+    </div>
+  );
+}
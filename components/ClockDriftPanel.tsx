@@ -0,0 +1,72 @@
+"use client";
+
+import { useI18n } from "@/hooks/useI18n";
+import type { ClockModel, ClockObservation } from "@/lib/clockDrift";
+import { formatNumber } from "@/lib/i18n";
+
+type ClockDriftPanelProps = {
+  model: ClockModel | null;
+  observations: ClockObservation[];
+};
+
+const DATE_TIME_FORMAT: Intl.DateTimeFormatOptions = {
+  day: "2-digit",
+  month: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+};
+
+export default function ClockDriftPanel({
+  model,
+  observations,
+}: ClockDriftPanelProps) {
+  const { formatDateTime, locale, t } = useI18n();
+  const restartIds = new Set(model?.restartIds ?? []);
+
+  return (
+    <section className="flex flex-col gap-3 rounded-lg border border-white/10 bg-white/5 p-4 text-sm text-zinc-300">
+      <h2 className="text-lg font-semibold text-white">{t("clock.title")}</h2>
+
+      {model ? (
+        <p>
+          {t("clock.drift")}{" "}
+          <span className="font-medium text-white">
+            {formatNumber(locale, model.driftPercent / 100, {
+              style: "percent",
+              maximumFractionDigits: 1,
+              signDisplay: "exceptZero",
+            })}
+          </span>{" "}
+          <span className="text-xs text-zinc-500">
+            {t("clock.fitted", { count: model.fittedCount })}
+          </span>
+        </p>
+      ) : (
+        <p className="text-xs text-zinc-500">
+          {t("clock.empty")}
+        </p>
+      )}
+
+      {observations.length > 0 ? (
+        <ul className="flex flex-col gap-1 text-xs">
+          {[...observations].reverse().map((observation) => (
+            <li key={observation.id} className="flex flex-wrap items-center gap-2">
+              <span className="text-zinc-500">
+                {formatDateTime(new Date(observation.observed_at), DATE_TIME_FORMAT)}
+              </span>
+              <span className="font-medium text-white">{observation.ingame_time}</span>
+              {observation.timer_text ? (
+                <span className="text-zinc-500">{observation.timer_text}</span>
+              ) : null}
+              {restartIds.has(observation.id) ? (
+                <span className="rounded border border-amber-400/60 px-1.5 py-0.5 text-amber-200">
+                  {t("clock.probableRestart")}
+                </span>
+              ) : null}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+    </section>
+  );
+}
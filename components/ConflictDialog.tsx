@@ -0,0 +1,71 @@
+"use client";
+
+import { useI18n } from "@/hooks/useI18n";
+
+type ConflictDialogProps = {
+  resourceLabel: string;
+  fieldLabel: string;
+  attemptedValue: string;
+  currentValue: string;
+  currentAttribution: string | null;
+  busy: boolean;
+  onOverwrite: () => void;
+  onKeepCurrent: () => void;
+};
+
+const buttonClassName =
+  "inline-flex items-center rounded-md border border-white/15 px-3 py-1.5 text-sm font-medium text-white transition hover:border-white/40 hover:bg-white/10 cursor-pointer disabled:cursor-not-allowed disabled:opacity-60";
+
+export default function ConflictDialog({
+  resourceLabel,
+  fieldLabel,
+  attemptedValue,
+  currentValue,
+  currentAttribution,
+  busy,
+  onOverwrite,
+  onKeepCurrent,
+}: ConflictDialogProps) {
+  const { t } = useI18n();
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 px-6">
+      <div
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="conflict-dialog-title"
+        className="flex w-full max-w-md flex-col gap-4 rounded-lg border border-amber-400/40 bg-zinc-900 p-5 text-sm text-zinc-300 shadow-xl"
+      >
+        <h2 id="conflict-dialog-title" className="text-lg font-semibold text-white">
+          {t("conflict.title", { resource: resourceLabel })}
+        </h2>
+        <p>{t("conflict.description")}</p>
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2">
+          <dt className="text-zinc-500">{t("conflict.attempted", { field: fieldLabel })}</dt>
+          <dd className="font-medium text-white">{attemptedValue}</dd>
+          <dt className="text-zinc-500">{t("conflict.current", { field: fieldLabel })}</dt>
+          <dd className="font-medium text-white">
+            {currentValue}
+            {currentAttribution ? (
+              <span className="block text-xs font-normal text-zinc-500">
+                {currentAttribution}
+              </span>
+            ) : null}
+          </dd>
+        </dl>
+        <div className="flex flex-wrap justify-end gap-3">
+          <button onClick={onKeepCurrent} disabled={busy} className={buttonClassName}>
+            {t("conflict.keepCurrent")}
+          </button>
+          <button
+            onClick={onOverwrite}
+            disabled={busy}
+            className="inline-flex items-center rounded-md bg-lime-400 px-3 py-1.5 text-sm font-medium text-zinc-950 transition hover:bg-lime-300 cursor-pointer disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {busy ? t("common.saving") : t("conflict.overwrite")}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+"use client";
+
+import { createContext, useEffect, useMemo, useSyncExternalStore } from "react";
+
+import {
+  createTranslator,
+  DEFAULT_LOCALE,
+  formatTime,
+  getDateTimeFormatter,
+  loadLocale,
+  Locale,
+  LOCALE_STORAGE_KEY,
+  saveLocale,
+  Translator,
+} from "@/lib/i18n";
+import {
+  detectTimeZone,
+  FALLBACK_TIME_ZONE,
+  loadTimeZonePreference,
+  saveTimeZonePreference,
+  TIME_ZONE_STORAGE_KEY,
+} from "@/lib/timeZones";
+
+export type I18nContextValue = {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: Translator;
+  // Zone used for absolute times: the chosen one, else the browser's.
+  timeZone: string;
+  // Null when following the browser.
+  timeZonePreference: string | null;
+  detectedTimeZone: string;
+  setTimeZone: (timeZone: string | null) => void;
+  formatTime: (value: number | Date, showZone?: boolean) => string;
+  formatDateTime: (
+    value: number | Date,
+    options: Intl.DateTimeFormatOptions
+  ) => string;
+};
+
+const preferenceListeners = new Set<() => void>();
+const PREFERENCE_STORAGE_KEYS = [LOCALE_STORAGE_KEY, TIME_ZONE_STORAGE_KEY];
+
+// Also follows changes made in other tabs.
+const subscribeToPreferences = (listener: () => void) => {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key && PREFERENCE_STORAGE_KEYS.includes(event.key)) {
+      listener();
+    }
+  };
+
+  preferenceListeners.add(listener);
+  window.addEventListener("storage", handleStorage);
+
+  return () => {
+    preferenceListeners.delete(listener);
+    window.removeEventListener("storage", handleStorage);
+  };
+};
+
+const notifyPreferenceChange = () =>
+  preferenceListeners.forEach((listener) => listener());
+
+const setLocale = (locale: Locale) => {
+  saveLocale(locale);
+  notifyPreferenceChange();
+};
+
+const setTimeZone = (timeZone: string | null) => {
+  saveTimeZonePreference(timeZone);
+  notifyPreferenceChange();
+};
+
+const buildContextValue = (
+  locale: Locale,
+  timeZonePreference: string | null,
+  detectedTimeZone: string
+): I18nContextValue => {
+  const timeZone = timeZonePreference ?? detectedTimeZone;
+
+  return {
+    locale,
+    setLocale,
+    t: createTranslator(locale),
+    timeZone,
+    timeZonePreference,
+    detectedTimeZone,
+    setTimeZone,
+    formatTime: (value, showZone = false) =>
+      formatTime(locale, value, { timeZone, showZone }),
+    formatDateTime: (value, options) =>
+      getDateTimeFormatter(locale, { ...options, timeZone }).format(value),
+  };
+};
+
+export const I18nContext = createContext<I18nContextValue>(
+  buildContextValue(DEFAULT_LOCALE, null, FALLBACK_TIME_ZONE)
+);
+
+type I18nProviderProps = {
+  children: React.ReactNode;
+};
+
+export default function I18nProvider({ children }: I18nProviderProps) {
+  // The server renders the defaults; the stored or browser preferences take
+  // over after hydration.
+  const locale = useSyncExternalStore(
+    subscribeToPreferences,
+    loadLocale,
+    () => DEFAULT_LOCALE
+  );
+  const timeZonePreference = useSyncExternalStore(
+    subscribeToPreferences,
+    loadTimeZonePreference,
+    () => null
+  );
+  const detectedTimeZone = useSyncExternalStore(
+    subscribeToPreferences,
+    detectTimeZone,
+    () => FALLBACK_TIME_ZONE
+  );
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const value = useMemo(
+    () => buildContextValue(locale, timeZonePreference, detectedTimeZone),
+    [detectedTimeZone, locale, timeZonePreference]
+  );
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
@@ -0,0 +1,209 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { SupabaseClient } from "@supabase/supabase-js";
+
+import { useI18n } from "@/hooks/useI18n";
+import type { LegendaryCandidate } from "@/lib/legendaries";
+import { MINECRAFT_PHASES, MinecraftPhase } from "@/lib/minecraftTime";
+import { WEATHER_CONDITIONS, WeatherCondition } from "@/lib/spawnConditions";
+import type { SpawnLocation } from "@/lib/spawnLocations";
+
+type LegendaryPoolEditorProps = {
+  client: SupabaseClient;
+  location: SpawnLocation;
+  candidates: LegendaryCandidate[];
+  onChanged: () => Promise<void> | void;
+};
+
+const inputClassName =
+  "h-8 rounded-md border border-white/20 bg-black/40 px-2 text-xs text-white outline-none transition focus:border-white/60 focus:ring-2 focus:ring-white/20";
+const buttonClassName =
+  "inline-flex items-center rounded-md border border-white/15 px-2 py-1 text-xs font-medium text-white transition hover:border-white/40 hover:bg-white/10 cursor-pointer disabled:cursor-not-allowed disabled:opacity-60";
+
+const toggleValue = <T,>(values: T[], value: T) =>
+  values.includes(value)
+    ? values.filter((existing) => existing !== value)
+    : [...values, value];
+
+export default function LegendaryPoolEditor({
+  client,
+  location,
+  candidates,
+  onChanged,
+}: LegendaryPoolEditorProps) {
+  const { t } = useI18n();
+  const [newName, setNewName] = useState<string>("");
+  const [busy, setBusy] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runMutation = useCallback(
+    async (mutation: () => Promise<{ error: { message: string } | null }>) => {
+      setError(null);
+      setBusy(true);
+
+      try {
+        const { error: mutationError } = await mutation();
+
+        if (mutationError) {
+          throw new Error(mutationError.message);
+        }
+
+        await onChanged();
+        return true;
+      } catch (caughtError) {
+        console.error("Supabase legendary_candidates error", caughtError);
+        setError(
+          t("locations.updateFailed", {
+            details:
+              caughtError instanceof Error
+                ? caughtError.message
+                : t("common.unknownError"),
+          })
+        );
+        return false;
+      } finally {
+        setBusy(false);
+      }
+    },
+    [onChanged, t]
+  );
+
+  const handleAdd = useCallback(async () => {
+    const name = newName.trim();
+
+    if (!name) {
+      setError(t("legendaries.nameRequired"));
+      return;
+    }
+
+    if (
+      candidates.some(
+        (candidate) => candidate.name.toLowerCase() === name.toLowerCase()
+      )
+    ) {
+      setError(t("legendaries.duplicate"));
+      return;
+    }
+
+    const lastSortOrder = candidates.at(-1)?.sort_order ?? 0;
+    const created = await runMutation(async () =>
+      client.from("legendary_candidates").insert({
+        location_id: location.id,
+        name,
+        sort_order: lastSortOrder + 10,
+      })
+    );
+
+    if (created) {
+      setNewName("");
+    }
+  }, [candidates, client, location.id, newName, runMutation, t]);
+
+  const handleUpdate = useCallback(
+    (
+      candidate: LegendaryCandidate,
+      changes: { phases?: MinecraftPhase[]; weather?: WeatherCondition[] }
+    ) =>
+      runMutation(async () =>
+        client
+          .from("legendary_candidates")
+          .update(changes)
+          .eq("id", candidate.id)
+      ),
+    [client, runMutation]
+  );
+
+  const handleRemove = useCallback(
+    (candidate: LegendaryCandidate) =>
+      runMutation(async () =>
+        client.from("legendary_candidates").delete().eq("id", candidate.id)
+      ),
+    [client, runMutation]
+  );
+
+  return (
+    <div className="flex flex-col gap-2 rounded-md border border-white/10 bg-black/20 p-3 text-xs text-zinc-400">
+      {error ? <p className="text-red-300">{error}</p> : null}
+
+      {candidates.length === 0 ? (
+        <p className="text-zinc-500">{t("legendaries.empty")}</p>
+      ) : (
+        <ul className="flex flex-col gap-2">
+          {candidates.map((candidate) => (
+            <li
+              key={candidate.id}
+              className="flex flex-col gap-1 sm:flex-row sm:items-center sm:gap-3"
+            >
+              <span className="w-32 font-medium text-white">{candidate.name}</span>
+              <fieldset
+                aria-label={t("legendaries.phasesOf", { name: candidate.name })}
+                className="flex flex-wrap items-center gap-2"
+              >
+                {MINECRAFT_PHASES.map((phase) => (
+                  <label key={phase} className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={candidate.phases.includes(phase)}
+                      disabled={busy}
+                      onChange={() =>
+                        handleUpdate(candidate, {
+                          phases: toggleValue(candidate.phases, phase),
+                        })
+                      }
+                    />
+                    {t(`phase.${phase}`)}
+                  </label>
+                ))}
+              </fieldset>
+              <fieldset
+                aria-label={t("legendaries.weatherOf", { name: candidate.name })}
+                className="flex flex-wrap items-center gap-2"
+              >
+                {WEATHER_CONDITIONS.map((weather) => (
+                  <label key={weather} className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={candidate.weather.includes(weather)}
+                      disabled={busy}
+                      onChange={() =>
+                        handleUpdate(candidate, {
+                          weather: toggleValue(candidate.weather, weather),
+                        })
+                      }
+                    />
+                    {t(`weather.${weather}`)}
+                  </label>
+                ))}
+              </fieldset>
+              {candidate.phases.length === 0 && candidate.weather.length === 0 ? (
+                <span className="text-zinc-500">{t("legendaries.anyCondition")}</span>
+              ) : null}
+              <button
+                onClick={() => handleRemove(candidate)}
+                disabled={busy}
+                aria-label={t("legendaries.remove", { name: candidate.name })}
+                className={`${buttonClassName} sm:ml-auto`}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center gap-2">
+        <input
+          aria-label={t("legendaries.newName")}
+          placeholder={t("legendaries.newName")}
+          value={newName}
+          onChange={(event) => setNewName(event.target.value)}
+          className={`${inputClassName} w-44`}
+        />
+        <button onClick={handleAdd} disabled={busy} className={buttonClassName}>
+          {t("legendaries.add")}
+        </button>
+      </div>
+    </div>
+  );
+}
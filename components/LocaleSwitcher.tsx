@@ -0,0 +1,32 @@
+"use client";
+
+import { useI18n } from "@/hooks/useI18n";
+import { LOCALES } from "@/lib/i18n";
+
+export default function LocaleSwitcher() {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <div
+      className="inline-flex items-center gap-1"
+      role="group"
+      aria-label={t("locale.label")}
+    >
+      {LOCALES.map((option) => (
+        <button
+          key={option}
+          onClick={() => setLocale(option)}
+          aria-pressed={locale === option}
+          title={t(`locale.${option}`)}
+          className={`inline-flex items-center rounded-md border px-2 py-1 text-xs font-medium uppercase transition cursor-pointer ${
+            locale === option
+              ? "border-lime-400/60 bg-lime-400/10 text-lime-200"
+              : "border-white/15 text-zinc-300 hover:border-white/40 hover:bg-white/10"
+          }`}
+        >
+          {option}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,433 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { SupabaseClient } from "@supabase/supabase-js";
+
+import LegendaryPoolEditor from "@/components/LegendaryPoolEditor";
+import { useI18n } from "@/hooks/useI18n";
+import { getLocationCandidates, LegendaryCandidate } from "@/lib/legendaries";
+import {
+  DEFAULT_RESPAWN_MINUTES,
+  LOCATION_ICON_OPTIONS,
+  slugifyLocationLabel,
+  SpawnLocation,
+  sortSpawnLocations,
+} from "@/lib/spawnLocations";
+import { DEFAULT_SERVER_ID } from "@/lib/servers";
+
+type LocationAdminPanelProps = {
+  client: SupabaseClient;
+  serverId: string;
+  locations: SpawnLocation[];
+  candidates: LegendaryCandidate[];
+  onChanged: () => Promise<void> | void;
+  onCandidatesChanged: () => Promise<void> | void;
+};
+
+const inputClassName =
+  "h-9 rounded-md border border-white/20 bg-black/40 px-2 text-sm text-white outline-none transition focus:border-white/60 focus:ring-2 focus:ring-white/20";
+const buttonClassName =
+  "inline-flex items-center rounded-md border border-white/15 px-3 py-1.5 text-xs font-medium text-white transition hover:border-white/40 hover:bg-white/10 cursor-pointer disabled:cursor-not-allowed disabled:opacity-60";
+
+export default function LocationAdminPanel({
+  client,
+  serverId,
+  locations,
+  candidates,
+  onChanged,
+  onCandidatesChanged,
+}: LocationAdminPanelProps) {
+  const { t } = useI18n();
+  const [newLabel, setNewLabel] = useState<string>("");
+  const [newIcon, setNewIcon] = useState<string>(LOCATION_ICON_OPTIONS[0]);
+  const [newMinutes, setNewMinutes] = useState<number>(DEFAULT_RESPAWN_MINUTES);
+  const [labelDrafts, setLabelDrafts] = useState<Record<string, string>>({});
+  const [recurrenceDrafts, setRecurrenceDrafts] = useState<
+    Record<string, { interval: string; jitter: string }>
+  >({});
+  const [openPools, setOpenPools] = useState<Record<string, boolean>>({});
+  const [busy, setBusy] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const sorted = sortSpawnLocations(locations);
+
+  const runMutation = useCallback(
+    async (mutation: () => Promise<{ error: { message: string } | null }>) => {
+      setError(null);
+      setBusy(true);
+
+      try {
+        const { error: mutationError } = await mutation();
+
+        if (mutationError) {
+          throw new Error(mutationError.message);
+        }
+
+        await onChanged();
+        return true;
+      } catch (caughtError) {
+        console.error("Supabase spawn_locations error", caughtError);
+        setError(
+          t("locations.updateFailed", {
+            details:
+              caughtError instanceof Error
+                ? caughtError.message
+                : t("common.unknownError"),
+          })
+        );
+        return false;
+      } finally {
+        setBusy(false);
+      }
+    },
+    [onChanged, t]
+  );
+
+  const handleAdd = useCallback(async () => {
+    const label = newLabel.trim();
+    const slug = slugifyLocationLabel(label);
+    // Location ids are global, so other servers get a prefixed slug.
+    const id = serverId === DEFAULT_SERVER_ID ? slug : `${serverId}-${slug}`;
+
+    if (!label || !slug) {
+      setError(t("locations.nameRequired"));
+      return;
+    }
+
+    if (locations.some((location) => location.id === id || location.label === label)) {
+      setError(t("locations.duplicate"));
+      return;
+    }
+
+    if (!Number.isFinite(newMinutes) || newMinutes <= 0) {
+      setError(t("locations.respawnPositive"));
+      return;
+    }
+
+    const lastSortOrder = sorted.at(-1)?.sort_order ?? 0;
+    const created = await runMutation(async () =>
+      client.from("spawn_locations").insert({
+        id,
+        server_id: serverId,
+        label,
+        icon: newIcon,
+        default_respawn_minutes: newMinutes,
+        sort_order: lastSortOrder + 10,
+      })
+    );
+
+    if (created) {
+      setNewLabel("");
+      setNewMinutes(DEFAULT_RESPAWN_MINUTES);
+    }
+  }, [
+    client,
+    locations,
+    newIcon,
+    newLabel,
+    newMinutes,
+    runMutation,
+    serverId,
+    sorted,
+    t,
+  ]);
+
+  const handleRename = useCallback(
+    async (location: SpawnLocation) => {
+      const label = (labelDrafts[location.id] ?? "").trim();
+
+      if (!label || label === location.label) {
+        return;
+      }
+
+      const renamed = await runMutation(async () =>
+        client.from("spawn_locations").update({ label }).eq("id", location.id)
+      );
+
+      if (renamed) {
+        setLabelDrafts((prev) => {
+          const next = { ...prev };
+          delete next[location.id];
+          return next;
+        });
+      }
+    },
+    [client, labelDrafts, runMutation]
+  );
+
+  const getRecurrenceDraft = (location: SpawnLocation) =>
+    recurrenceDrafts[location.id] ?? {
+      interval: location.recurring_interval_minutes?.toString() ?? "",
+      jitter: location.recurring_jitter_minutes.toString(),
+    };
+
+  const handleSaveRecurrence = useCallback(
+    async (location: SpawnLocation) => {
+      const draft = recurrenceDrafts[location.id];
+
+      if (!draft) {
+        return;
+      }
+
+      // An empty interval disables the recurring cycle.
+      const interval = draft.interval.trim()
+        ? Number.parseInt(draft.interval, 10)
+        : null;
+      const jitter = draft.jitter.trim() ? Number.parseInt(draft.jitter, 10) : 0;
+
+      if (interval !== null && (!Number.isFinite(interval) || interval <= 0)) {
+        setError(t("locations.cyclePositive"));
+        return;
+      }
+
+      if (!Number.isFinite(jitter) || jitter < 0) {
+        setError(t("locations.jitterNotNegative"));
+        return;
+      }
+
+      const saved = await runMutation(async () =>
+        client
+          .from("spawn_locations")
+          .update({
+            recurring_interval_minutes: interval,
+            recurring_jitter_minutes: jitter,
+          })
+          .eq("id", location.id)
+      );
+
+      if (saved) {
+        setRecurrenceDrafts((prev) => {
+          const next = { ...prev };
+          delete next[location.id];
+          return next;
+        });
+      }
+    },
+    [client, recurrenceDrafts, runMutation, t]
+  );
+
+  const handleToggleArchive = useCallback(
+    (location: SpawnLocation) =>
+      runMutation(async () =>
+        client
+          .from("spawn_locations")
+          .update({
+            archived_at: location.archived_at ? null : new Date().toISOString(),
+          })
+          .eq("id", location.id)
+      ),
+    [client, runMutation]
+  );
+
+  const handleMove = useCallback(
+    (index: number, direction: -1 | 1) => {
+      const target = index + direction;
+
+      if (target < 0 || target >= sorted.length) {
+        return;
+      }
+
+      const reordered = [...sorted];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+
+      // Renumber every location in one upsert so gaps or duplicate sort
+      // orders left by earlier edits cannot swallow the move.
+      return runMutation(async () =>
+        client.from("spawn_locations").upsert(
+          reordered.map((location, position) => ({
+            ...location,
+            sort_order: (position + 1) * 10,
+          }))
+        )
+      );
+    },
+    [client, runMutation, sorted]
+  );
+
+  return (
+    <section className="flex flex-col gap-4 rounded-lg border border-amber-400/30 bg-amber-400/5 p-4">
+      <h2 className="text-lg font-semibold text-white">{t("locations.title")}</h2>
+
+      {error ? (
+        <div className="rounded-md border border-red-500/40 bg-red-500/10 p-3 text-sm text-red-200">
+          {error}
+        </div>
+      ) : null}
+
+      <ul className="flex flex-col gap-2">
+        {sorted.map((location, index) => (
+          <li
+            key={location.id}
+            className={`flex flex-col gap-2 ${location.archived_at ? "opacity-50" : ""}`}
+          >
+            <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+              <div className="flex items-center gap-2">
+                <input
+                  aria-label={t("locations.nameOf", { label: location.label })}
+                  value={labelDrafts[location.id] ?? location.label}
+                  onChange={(event) =>
+                    setLabelDrafts((prev) => ({
+                      ...prev,
+                      [location.id]: event.target.value,
+                    }))
+                  }
+                  className={`${inputClassName} w-44`}
+                />
+                <span className="text-xs text-zinc-500">
+                  {location.default_respawn_minutes} {t("common.minutesShort")}
+                </span>
+              </div>
+              <div className="flex items-center gap-2 text-xs text-zinc-400">
+                <span>{t("locations.cycle")}</span>
+                <input
+                  aria-label={t("locations.cycleOf", { label: location.label })}
+                  type="number"
+                  inputMode="numeric"
+                  min={1}
+                  placeholder="—"
+                  value={getRecurrenceDraft(location).interval}
+                  onChange={(event) =>
+                    setRecurrenceDrafts((prev) => ({
+                      ...prev,
+                      [location.id]: {
+                        ...getRecurrenceDraft(location),
+                        interval: event.target.value,
+                      },
+                    }))
+                  }
+                  className={`${inputClassName} w-16`}
+                />
+                <span>±</span>
+                <input
+                  aria-label={t("locations.jitterOf", { label: location.label })}
+                  type="number"
+                  inputMode="numeric"
+                  min={0}
+                  value={getRecurrenceDraft(location).jitter}
+                  onChange={(event) =>
+                    setRecurrenceDrafts((prev) => ({
+                      ...prev,
+                      [location.id]: {
+                        ...getRecurrenceDraft(location),
+                        jitter: event.target.value,
+                      },
+                    }))
+                  }
+                  className={`${inputClassName} w-14`}
+                />
+                <span>{t("common.minutesShort")}</span>
+                <button
+                  onClick={() => handleSaveRecurrence(location)}
+                  disabled={busy || !recurrenceDrafts[location.id]}
+                  className={buttonClassName}
+                >
+                  {t("common.save")}
+                </button>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <button
+                  onClick={() => handleRename(location)}
+                  disabled={
+                    busy ||
+                    (labelDrafts[location.id] ?? location.label).trim() ===
+                      location.label
+                  }
+                  className={buttonClassName}
+                >
+                  {t("locations.rename")}
+                </button>
+                <button
+                  onClick={() => handleMove(index, -1)}
+                  disabled={busy || index === 0}
+                  className={buttonClassName}
+                  aria-label={t("locations.moveUp", { label: location.label })}
+                >
+                  ↑
+                </button>
+                <button
+                  onClick={() => handleMove(index, 1)}
+                  disabled={busy || index === sorted.length - 1}
+                  className={buttonClassName}
+                  aria-label={t("locations.moveDown", { label: location.label })}
+                >
+                  ↓
+                </button>
+                <button
+                  onClick={() => handleToggleArchive(location)}
+                  disabled={busy}
+                  className={buttonClassName}
+                >
+                  {location.archived_at
+                    ? t("locations.restore")
+                    : t("locations.archive")}
+                </button>
+                <button
+                  onClick={() =>
+                    setOpenPools((prev) => ({
+                      ...prev,
+                      [location.id]: !prev[location.id],
+                    }))
+                  }
+                  aria-expanded={Boolean(openPools[location.id])}
+                  className={buttonClassName}
+                >
+                  {t("legendaries.toggle", {
+                    count: getLocationCandidates(candidates, location.id).length,
+                  })}
+                </button>
+              </div>
+            </div>
+            {openPools[location.id] ? (
+              <LegendaryPoolEditor
+                client={client}
+                location={location}
+                candidates={getLocationCandidates(candidates, location.id)}
+                onChanged={onCandidatesChanged}
+              />
+            ) : null}
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex flex-col gap-2 border-t border-white/10 pt-4 sm:flex-row sm:items-center">
+        <input
+          aria-label={t("locations.newName")}
+          placeholder={t("locations.newPlaceholder")}
+          value={newLabel}
+          onChange={(event) => setNewLabel(event.target.value)}
+          className={`${inputClassName} sm:flex-1`}
+        />
+        <select
+          aria-label={t("locations.newIcon")}
+          value={newIcon}
+          onChange={(event) => setNewIcon(event.target.value)}
+          className={inputClassName}
+        >
+          {LOCATION_ICON_OPTIONS.map((icon) => (
+            <option key={icon} value={icon}>
+              {icon}
+            </option>
+          ))}
+        </select>
+        <div className="flex items-center gap-2">
+          <input
+            aria-label={t("locations.defaultRespawn")}
+            type="number"
+            inputMode="numeric"
+            min={1}
+            value={newMinutes}
+            onChange={(event) => {
+              const parsed = Number.parseInt(event.target.value, 10);
+              setNewMinutes(Number.isNaN(parsed) ? 0 : parsed);
+            }}
+            className={`${inputClassName} w-20`}
+          />
+          <span className="text-sm text-zinc-400">{t("common.minutesShort")}</span>
+        </div>
+        <button onClick={handleAdd} disabled={busy} className={buttonClassName}>
+          {t("locations.add")}
+        </button>
+      </div>
+    </section>
+  );
+}
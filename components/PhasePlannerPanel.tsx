@@ -0,0 +1,175 @@
+"use client";
+
+import Image from "next/image";
+import { useEffect, useState } from "react";
+
+import { useI18n } from "@/hooks/useI18n";
+import {
+  MINECRAFT_PHASES,
+  MinecraftClockAnchor,
+  MinecraftPhase,
+  PHASE_ICON_MAP,
+} from "@/lib/minecraftTime";
+import {
+  DEFAULT_PLANNER_COUNT,
+  getAttemptIntervalMinutes,
+  planPhaseTargetedSpawns,
+} from "@/lib/spawnPlanner";
+import type { SpawnLocation } from "@/lib/spawnLocations";
+import type { TimersState } from "@/lib/spawnTimers";
+
+type PhasePlannerPanelProps = {
+  resources: SpawnLocation[];
+  timers: TimersState;
+  clockAnchor: MinecraftClockAnchor | undefined;
+};
+
+const inputClassName =
+  "h-9 rounded-md border border-white/20 bg-black/40 px-2 text-sm text-white outline-none transition focus:border-white/60 focus:ring-2 focus:ring-white/20";
+
+export default function PhasePlannerPanel({
+  resources,
+  timers,
+  clockAnchor: anchor,
+}: PhasePlannerPanelProps) {
+  const { formatTime, t } = useI18n();
+  const [resourceId, setResourceId] = useState<string>(resources[0]?.id ?? "");
+  const [phases, setPhases] = useState<Set<MinecraftPhase>>(
+    () => new Set<MinecraftPhase>(["night"])
+  );
+  const [count, setCount] = useState<number>(DEFAULT_PLANNER_COUNT);
+  const [nowMs, setNowMs] = useState<number>(() => Date.now());
+
+  useEffect(() => {
+    const intervalId = window.setInterval(() => setNowMs(Date.now()), 5_000);
+
+    return () => window.clearInterval(intervalId);
+  }, []);
+
+  const resource =
+    resources.find((item) => item.id === resourceId) ?? resources[0] ?? null;
+  const row = resource ? timers[resource.id] : undefined;
+
+  const planned = resource
+    ? planPhaseTargetedSpawns({
+        anchor,
+        row,
+        location: resource,
+        phases,
+        count,
+        nowMs,
+      })
+    : [];
+
+  const handleTogglePhase = (phase: MinecraftPhase) => {
+    setPhases((prev) => {
+      const next = new Set(prev);
+
+      if (next.has(phase)) {
+        next.delete(phase);
+      } else {
+        next.add(phase);
+      }
+
+      return next;
+    });
+  };
+
+  return (
+    <section className="flex flex-col gap-4 rounded-lg border border-white/10 bg-white/5 p-4 text-sm text-zinc-300">
+      <h2 className="text-lg font-semibold text-white">{t("planner.title")}</h2>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          aria-label={t("planner.resource")}
+          value={resource?.id ?? ""}
+          onChange={(event) => setResourceId(event.target.value)}
+          className={inputClassName}
+        >
+          {resources.map((item) => (
+            <option key={item.id} value={item.id}>
+              {item.label}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2">
+          <span className="text-zinc-400">{t("planner.attempts")}</span>
+          <input
+            type="number"
+            inputMode="numeric"
+            min={1}
+            max={20}
+            value={count}
+            onChange={(event) => {
+              const parsed = Number.parseInt(event.target.value, 10);
+              setCount(Number.isNaN(parsed) ? 1 : Math.min(20, Math.max(1, parsed)));
+            }}
+            className={`${inputClassName} w-16`}
+          />
+        </label>
+        {resource ? (
+          <span className="text-xs text-zinc-500">
+            {t("planner.interval", {
+              minutes: getAttemptIntervalMinutes(resource),
+            })}
+          </span>
+        ) : null}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2" role="group" aria-label={t("planner.phases")}>
+        {MINECRAFT_PHASES.map((phase) => (
+          <button
+            key={phase}
+            onClick={() => handleTogglePhase(phase)}
+            aria-pressed={phases.has(phase)}
+            className={`inline-flex items-center gap-2 rounded-md border px-2 py-1 text-xs font-medium transition cursor-pointer ${
+              phases.has(phase)
+                ? "border-lime-400/60 bg-lime-400/10 text-lime-200"
+                : "border-white/15 text-zinc-300 hover:border-white/40 hover:bg-white/10"
+            }`}
+          >
+            <Image src={PHASE_ICON_MAP[phase]} alt="" width={14} height={14} />
+            {t(`phase.${phase}`)}
+          </button>
+        ))}
+      </div>
+
+      {!anchor ? (
+        <p className="text-xs text-zinc-500">
+          {t("planner.noClock")}
+        </p>
+      ) : planned.length === 0 ? (
+        <p className="text-xs text-zinc-500">
+          {t("planner.empty")}
+        </p>
+      ) : (
+        <ol className="flex flex-col gap-1">
+          {planned.map((attempt) => (
+            <li key={attempt.attemptMs} className="flex flex-wrap items-center gap-2">
+              <span className="font-medium text-white">
+                {formatTime(attempt.attemptMs, true)}
+              </span>
+              {attempt.latestMs > attempt.earliestMs ? (
+                <span className="text-xs text-zinc-500">
+                  ({formatTime(attempt.earliestMs)} –{" "}
+                  {formatTime(attempt.latestMs)})
+                </span>
+              ) : null}
+              <span>
+                {t(`phase.${attempt.predicted.phase}`)}
+                {attempt.predicted.timeLabel
+                  ? ` (≈ ${attempt.predicted.timeLabel})`
+                  : ""}
+              </span>
+              <span className="text-xs text-zinc-500">
+                {t("planner.confidence", {
+                  percent: Math.round(attempt.confidence * 100),
+                })}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,188 @@
+"use client";
+
+import Image from "next/image";
+import { KeyboardEvent, useState } from "react";
+
+import { useI18n } from "@/hooks/useI18n";
+import {
+  parseQuickEntry,
+  parseSpawnOffsetInput,
+  rankResources,
+} from "@/lib/quickEntry";
+import type { SpawnLocation } from "@/lib/spawnLocations";
+
+type QuickEntryBarProps = {
+  resources: SpawnLocation[];
+  initialInput: string;
+  // Both resolve to an error message, or null once saved.
+  onSpawnOffset: (
+    resource: SpawnLocation,
+    minutes: number,
+    seconds: number
+  ) => Promise<string | null>;
+  onInGameTime: (resource: SpawnLocation, value: string) => Promise<string | null>;
+  onClose: () => void;
+};
+
+const MAX_SUGGESTIONS = 5;
+
+export default function QuickEntryBar({
+  resources,
+  initialInput,
+  onSpawnOffset,
+  onInGameTime,
+  onClose,
+}: QuickEntryBarProps) {
+  const { t } = useI18n();
+  const [input, setInput] = useState<string>(initialInput);
+  const [selectedIndex, setSelectedIndex] = useState<number>(0);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<boolean>(false);
+
+  const entry = parseQuickEntry(input);
+  const matches = rankResources(entry.query, resources).slice(0, MAX_SUGGESTIONS);
+  const selected = matches[Math.min(selectedIndex, matches.length - 1)];
+  const offset =
+    entry.kind === "spawn_offset" && entry.value !== null
+      ? parseSpawnOffsetInput(entry.value)
+      : null;
+
+  const handleSubmit = async () => {
+    if (!selected) {
+      setError(t("quickEntry.noMatch"));
+      return;
+    }
+
+    if (entry.value === null) {
+      setError(
+        entry.kind === "ingame_time"
+          ? t("validation.ingameTimeRequired")
+          : t("quickEntry.missingOffset")
+      );
+      return;
+    }
+
+    setError(null);
+    setBusy(true);
+
+    try {
+      const failure =
+        entry.kind === "ingame_time"
+          ? await onInGameTime(selected, entry.value)
+          : offset
+            ? await onSpawnOffset(selected, offset.minutes, offset.seconds)
+            : t("validation.invalidTime");
+
+      if (failure) {
+        setError(failure);
+        return;
+      }
+
+      onClose();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Escape") {
+      event.preventDefault();
+      onClose();
+    } else if (event.key === "Enter") {
+      event.preventDefault();
+      void handleSubmit();
+    } else if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      event.preventDefault();
+      const step = event.key === "ArrowDown" ? 1 : -1;
+      setSelectedIndex((prev) =>
+        matches.length === 0 ? 0 : (prev + step + matches.length) % matches.length
+      );
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center bg-black/70 px-6 pt-24"
+      onMouseDown={(event) => {
+        if (event.target === event.currentTarget) {
+          onClose();
+        }
+      }}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label={t("quickEntry.title")}
+        className="flex w-full max-w-lg flex-col gap-3 rounded-lg border border-white/15 bg-zinc-900 p-4 text-sm text-zinc-300 shadow-xl"
+      >
+        <input
+          autoFocus
+          role="combobox"
+          aria-expanded={matches.length > 0}
+          aria-controls="quick-entry-options"
+          aria-activedescendant={selected ? `quick-entry-${selected.id}` : undefined}
+          aria-label={t("quickEntry.title")}
+          placeholder="r1 45:30 · mc 18:20"
+          value={input}
+          disabled={busy}
+          onChange={(event) => {
+            setInput(event.target.value);
+            setSelectedIndex(0);
+            setError(null);
+          }}
+          onKeyDown={handleKeyDown}
+          className="h-11 w-full rounded-md border border-white/20 bg-black/40 px-3 font-mono text-base text-white outline-none transition focus:border-white/60 focus:ring-2 focus:ring-white/20"
+        />
+
+        {matches.length > 0 ? (
+          <ul id="quick-entry-options" role="listbox" className="flex flex-col gap-1">
+            {matches.map((resource) => (
+              <li
+                key={resource.id}
+                id={`quick-entry-${resource.id}`}
+                role="option"
+                aria-selected={resource.id === selected?.id}
+                onMouseDown={(event) => {
+                  event.preventDefault();
+                  setSelectedIndex(matches.indexOf(resource));
+                }}
+                className={`flex cursor-pointer items-center gap-2 rounded-md px-2 py-1.5 ${
+                  resource.id === selected?.id
+                    ? "bg-lime-400/10 text-lime-200"
+                    : "text-zinc-300 hover:bg-white/5"
+                }`}
+              >
+                <Image src={resource.icon} alt="" width={16} height={16} />
+                <span>{resource.label}</span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-zinc-500">{t("quickEntry.noMatch")}</p>
+        )}
+
+        {selected && entry.kind === "ingame_time" && entry.value !== null ? (
+          <p className="text-white">
+            {t("quickEntry.previewIngameTime", {
+              label: selected.label,
+              time: entry.value,
+            })}
+          </p>
+        ) : null}
+        {selected && offset ? (
+          <p className="text-white">
+            {t("quickEntry.previewSpawn", {
+              label: selected.label,
+              minutes: offset.minutes,
+              seconds: offset.seconds,
+            })}
+          </p>
+        ) : null}
+
+        {error ? <p className="text-red-300">{error}</p> : null}
+
+        <p className="text-xs text-zinc-500">{t("quickEntry.help")}</p>
+      </div>
+    </div>
+  );
+}
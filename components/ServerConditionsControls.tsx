@@ -0,0 +1,216 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { SupabaseClient } from "@supabase/supabase-js";
+
+import { useI18n } from "@/hooks/useI18n";
+import type { MinecraftClockAnchor } from "@/lib/minecraftTime";
+import type { GameServer } from "@/lib/servers";
+import {
+  DEFAULT_WEATHER_REPORT_MINUTES,
+  deriveSpawnConditions,
+  WEATHER_CONDITIONS,
+  WEATHER_REPORT_DURATIONS_MINUTES,
+  WeatherCondition,
+} from "@/lib/spawnConditions";
+
+type ServerConditionsControlsProps = {
+  client: SupabaseClient;
+  server: GameServer | null;
+  clockAnchor: MinecraftClockAnchor | undefined;
+  // Signed-in players may report the day count and the weather.
+  canReport: boolean;
+  onChanged: () => Promise<void> | void;
+};
+
+const inputClassName =
+  "h-9 rounded-md border border-white/20 bg-black/40 px-2 text-sm text-white outline-none transition focus:border-white/60 focus:ring-2 focus:ring-white/20";
+const buttonClassName =
+  "inline-flex items-center rounded-md border border-white/15 px-3 py-1.5 text-xs font-medium text-white transition hover:border-white/40 hover:bg-white/10 cursor-pointer disabled:cursor-not-allowed disabled:opacity-60";
+
+export default function ServerConditionsControls({
+  client,
+  server,
+  clockAnchor,
+  canReport,
+  onChanged,
+}: ServerConditionsControlsProps) {
+  const { formatTime, t } = useI18n();
+  const [showReport, setShowReport] = useState<boolean>(false);
+  const [dayDraft, setDayDraft] = useState<string>("");
+  const [weatherDraft, setWeatherDraft] = useState<WeatherCondition>("rain");
+  const [durationMinutes, setDurationMinutes] = useState<number>(
+    DEFAULT_WEATHER_REPORT_MINUTES
+  );
+  const [busy, setBusy] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runReport = useCallback(
+    async (rpc: string, params: Record<string, unknown>) => {
+      setError(null);
+      setBusy(true);
+
+      try {
+        const { error: rpcError } = await client.rpc(rpc, params);
+
+        if (rpcError) {
+          throw new Error(rpcError.message);
+        }
+
+        await onChanged();
+        return true;
+      } catch (caughtError) {
+        console.error("Supabase servers error", caughtError);
+        setError(
+          t("conditions.updateFailed", {
+            details:
+              caughtError instanceof Error
+                ? caughtError.message
+                : t("common.unknownError"),
+          })
+        );
+        return false;
+      } finally {
+        setBusy(false);
+      }
+    },
+    [client, onChanged, t]
+  );
+
+  const handleReportDay = useCallback(async () => {
+    if (!server) {
+      return;
+    }
+
+    const day = Number(dayDraft.trim());
+
+    if (!dayDraft.trim() || !Number.isInteger(day) || day < 0) {
+      setError(t("conditions.invalidDay"));
+      return;
+    }
+
+    const reported = await runReport("report_ingame_day", {
+      p_server_id: server.id,
+      p_day: day,
+      p_reported_at: new Date().toISOString(),
+    });
+
+    if (reported) {
+      setDayDraft("");
+    }
+  }, [dayDraft, runReport, server, t]);
+
+  const handleReportWeather = useCallback(() => {
+    if (!server) {
+      return;
+    }
+
+    const reportedAt = new Date();
+
+    void runReport("report_weather", {
+      p_server_id: server.id,
+      p_weather: weatherDraft,
+      p_expires_at: new Date(
+        reportedAt.getTime() + durationMinutes * 60 * 1000
+      ).toISOString(),
+      p_reported_at: reportedAt.toISOString(),
+    });
+  }, [durationMinutes, runReport, server, weatherDraft]);
+
+  if (!server) {
+    return null;
+  }
+
+  const nowMs = Date.now();
+  const current = deriveSpawnConditions(clockAnchor, server, new Date(nowMs), nowMs);
+
+  return (
+    <div className="flex flex-col gap-2 text-xs text-zinc-400">
+      <div className="flex flex-wrap items-center gap-3">
+        <span>
+          {t("conditions.moonNow")}{" "}
+          <span className="font-medium text-white">
+            {current?.moonPhase && current.day !== null
+              ? t("conditions.moonDay", {
+                  moon: t(`moon.${current.moonPhase}`),
+                  day: current.day,
+                })
+              : t("conditions.moonUnknown")}
+          </span>
+        </span>
+        <span>
+          {t("conditions.weatherNow")}{" "}
+          <span className="font-medium text-white">
+            {current?.weather && server.weather_expires_at
+              ? t("conditions.weatherUntil", {
+                  weather: t(`weather.${current.weather}`),
+                  time: formatTime(new Date(server.weather_expires_at)),
+                })
+              : t("conditions.weatherUnknown")}
+          </span>
+        </span>
+        {canReport ? (
+          <button
+            onClick={() => setShowReport((prev) => !prev)}
+            className={buttonClassName}
+          >
+            {showReport ? t("common.close") : t("conditions.report")}
+          </button>
+        ) : null}
+      </div>
+
+      {canReport && showReport ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            aria-label={t("conditions.dayLabel")}
+            placeholder={t("conditions.dayPlaceholder")}
+            type="number"
+            inputMode="numeric"
+            min={0}
+            value={dayDraft}
+            onChange={(event) => setDayDraft(event.target.value)}
+            className={`${inputClassName} w-24`}
+          />
+          <button onClick={handleReportDay} disabled={busy} className={buttonClassName}>
+            {t("conditions.reportDay")}
+          </button>
+          <select
+            aria-label={t("conditions.weatherLabel")}
+            value={weatherDraft}
+            onChange={(event) =>
+              setWeatherDraft(event.target.value as WeatherCondition)
+            }
+            className={inputClassName}
+          >
+            {WEATHER_CONDITIONS.map((weather) => (
+              <option key={weather} value={weather}>
+                {t(`weather.${weather}`)}
+              </option>
+            ))}
+          </select>
+          <select
+            aria-label={t("conditions.durationLabel")}
+            value={durationMinutes}
+            onChange={(event) => setDurationMinutes(Number(event.target.value))}
+            className={inputClassName}
+          >
+            {WEATHER_REPORT_DURATIONS_MINUTES.map((minutes) => (
+              <option key={minutes} value={minutes}>
+                {minutes} {t("common.minutesShort")}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleReportWeather}
+            disabled={busy}
+            className={buttonClassName}
+          >
+            {t("conditions.reportWeather")}
+          </button>
+        </div>
+      ) : null}
+
+      {error ? <p className="text-red-300">{error}</p> : null}
+    </div>
+  );
+}
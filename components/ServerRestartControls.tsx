@@ -0,0 +1,204 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { SupabaseClient } from "@supabase/supabase-js";
+
+import { useI18n } from "@/hooks/useI18n";
+import {
+  getLastRestartMs,
+  getNextScheduledRestartMs,
+  parseRestartSchedule,
+} from "@/lib/restartSchedule";
+import type { GameServer } from "@/lib/servers";
+import { validateMinecraftTimeInput } from "@/lib/timerValidation";
+
+type ServerRestartControlsProps = {
+  client: SupabaseClient;
+  server: GameServer | null;
+  // Signed-in players may report a restart; admins edit the schedule.
+  canReport: boolean;
+  canConfigure: boolean;
+  onChanged: () => Promise<void> | void;
+};
+
+const inputClassName =
+  "h-9 rounded-md border border-white/20 bg-black/40 px-2 text-sm text-white outline-none transition focus:border-white/60 focus:ring-2 focus:ring-white/20";
+const buttonClassName =
+  "inline-flex items-center rounded-md border border-white/15 px-3 py-1.5 text-xs font-medium text-white transition hover:border-white/40 hover:bg-white/10 cursor-pointer disabled:cursor-not-allowed disabled:opacity-60";
+
+const DATE_TIME_FORMAT: Intl.DateTimeFormatOptions = {
+  weekday: "short",
+  hour: "2-digit",
+  minute: "2-digit",
+  timeZoneName: "short",
+};
+
+export default function ServerRestartControls({
+  client,
+  server,
+  canReport,
+  canConfigure,
+  onChanged,
+}: ServerRestartControlsProps) {
+  const { formatDateTime, locale, t } = useI18n();
+  const [showSettings, setShowSettings] = useState<boolean>(false);
+  const [scheduleDraft, setScheduleDraft] = useState<string | null>(null);
+  const [ingameTimeDraft, setIngameTimeDraft] = useState<string | null>(null);
+  const [busy, setBusy] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runAction = useCallback(
+    async (action: () => Promise<void>) => {
+      setError(null);
+      setBusy(true);
+
+      try {
+        await action();
+        await onChanged();
+        return true;
+      } catch (caughtError) {
+        console.error("Supabase servers error", caughtError);
+        setError(
+          t("restart.updateFailed", {
+            details:
+              caughtError instanceof Error
+                ? caughtError.message
+                : t("common.unknownError"),
+          })
+        );
+        return false;
+      } finally {
+        setBusy(false);
+      }
+    },
+    [onChanged, t]
+  );
+
+  const handleReportRestart = useCallback(() => {
+    if (!server) {
+      return;
+    }
+
+    void runAction(async () => {
+      const { error: rpcError } = await client.rpc("mark_server_restart", {
+        p_server_id: server.id,
+        p_restarted_at: new Date().toISOString(),
+      });
+
+      if (rpcError) {
+        throw new Error(rpcError.message);
+      }
+    });
+  }, [client, runAction, server]);
+
+  const handleSaveSettings = useCallback(async () => {
+    if (!server) {
+      return;
+    }
+
+    const schedule = (scheduleDraft ?? server.restart_schedule ?? "").trim();
+    const ingameTime = (ingameTimeDraft ?? server.restart_ingame_time ?? "").trim();
+
+    if (schedule && !parseRestartSchedule(schedule)) {
+      setError(t("restart.invalidSchedule"));
+      return;
+    }
+
+    if (ingameTime) {
+      const validation = validateMinecraftTimeInput(ingameTime, locale);
+
+      if (!validation.ok) {
+        setError(validation.error);
+        return;
+      }
+    }
+
+    const saved = await runAction(async () => {
+      const { error: updateError } = await client
+        .from("servers")
+        .update({
+          restart_schedule: schedule || null,
+          restart_ingame_time: ingameTime || null,
+        })
+        .eq("id", server.id);
+
+      if (updateError) {
+        throw new Error(updateError.message);
+      }
+    });
+
+    if (saved) {
+      setScheduleDraft(null);
+      setIngameTimeDraft(null);
+      setShowSettings(false);
+    }
+  }, [client, ingameTimeDraft, locale, runAction, scheduleDraft, server, t]);
+
+  if (!server) {
+    return null;
+  }
+
+  const nowMs = Date.now();
+  const nextRestartMs = getNextScheduledRestartMs(server, nowMs);
+  const lastRestartMs = getLastRestartMs(server, nowMs);
+
+  return (
+    <div className="flex flex-col gap-2 text-xs text-zinc-400">
+      <div className="flex flex-wrap items-center gap-3">
+        <span>
+          {t("restart.next")}{" "}
+          <span className="font-medium text-white">
+            {nextRestartMs !== null
+              ? formatDateTime(nextRestartMs, DATE_TIME_FORMAT)
+              : t("restart.notScheduled")}
+          </span>
+        </span>
+        {lastRestartMs !== null ? (
+          <span>
+            {t("restart.last", {
+              time: formatDateTime(lastRestartMs, DATE_TIME_FORMAT),
+            })}
+          </span>
+        ) : null}
+        {canReport ? (
+          <button onClick={handleReportRestart} disabled={busy} className={buttonClassName}>
+            {t("restart.report")}
+          </button>
+        ) : null}
+        {canConfigure ? (
+          <button
+            onClick={() => setShowSettings((prev) => !prev)}
+            className={buttonClassName}
+          >
+            {showSettings ? t("common.close") : t("restart.schedule")}
+          </button>
+        ) : null}
+      </div>
+
+      {canConfigure && showSettings ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            aria-label={t("restart.scheduleLabel")}
+            placeholder="0 6 * * *"
+            value={scheduleDraft ?? server.restart_schedule ?? ""}
+            onChange={(event) => setScheduleDraft(event.target.value)}
+            className={`${inputClassName} w-36 font-mono`}
+          />
+          <span>({server.restart_timezone})</span>
+          <input
+            aria-label={t("restart.ingameTimeLabel")}
+            placeholder="HH:MM"
+            value={ingameTimeDraft ?? server.restart_ingame_time ?? ""}
+            onChange={(event) => setIngameTimeDraft(event.target.value)}
+            className={`${inputClassName} w-20`}
+          />
+          <button onClick={handleSaveSettings} disabled={busy} className={buttonClassName}>
+            {t("common.save")}
+          </button>
+        </div>
+      ) : null}
+
+      {error ? <p className="text-red-300">{error}</p> : null}
+    </div>
+  );
+}
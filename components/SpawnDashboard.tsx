@@ -0,0 +1,2133 @@
+"use client";
+
+import Image from "next/image";
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { SupabaseClient } from "@supabase/supabase-js";
+
+import { useI18n } from "@/hooks/useI18n";
+import {
+  MAX_CARD_HOTKEYS,
+  useQuickEntryHotkeys,
+} from "@/hooks/useQuickEntryHotkeys";
+import { useSpawnAlerts } from "@/hooks/useSpawnAlerts";
+import { useSupabaseSession } from "@/hooks/useSupabaseSession";
+import {
+  AlertPreferences,
+  loadAlertPreferences,
+  saveAlertPreferences,
+} from "@/lib/alertPreferences";
+import { registerServiceWorker } from "@/lib/browserAlerts";
+import {
+  CLOCK_OBSERVATION_WINDOW_MS,
+  ClockModel,
+  ClockObservation,
+  fetchClockObservations,
+  fitClockModel,
+} from "@/lib/clockDrift";
+import { formatDiscordTimestamp } from "@/lib/discordWebhook";
+import {
+  fetchLegendaryCandidates,
+  getLocationCandidates,
+  getPossibleCandidates,
+  LegendaryCandidate,
+} from "@/lib/legendaries";
+import {
+  deriveLiveMinecraftClock,
+  deriveMinecraftClockAtDate,
+  getMinecraftPhaseFromMinutes,
+  MinecraftClockAnchor,
+  MinecraftPhaseDetails,
+  parseMinecraftTime,
+  PHASE_ICON_MAP,
+} from "@/lib/minecraftTime";
+import {
+  applyPendingEdit,
+  applyPendingEdits,
+  isNetworkError,
+  listPendingEdits,
+  loadTimersSnapshot,
+  PendingTimerEdit,
+  queuePendingEdit,
+  removePendingEdit,
+  saveTimersSnapshot,
+  withPendingEditsLock,
+} from "@/lib/offlineStore";
+import {
+  buildRestartCalendar,
+  getNextScheduledRestartMs,
+} from "@/lib/restartSchedule";
+import { fetchServers, GameServer, getServerTitle } from "@/lib/servers";
+import {
+  deriveMinecraftData,
+  DerivedMinecraftData,
+  getDisplayValue,
+  resolveServerClockAnchor,
+} from "@/lib/spawnDisplay";
+import {
+  NewSpawnEvent,
+  recordSpawnEvent,
+} from "@/lib/spawnEvents";
+import {
+  DEFAULT_SPAWN_LOCATIONS,
+  fetchCanManageLocations,
+  fetchSpawnLocations,
+  getActiveSpawnLocations,
+  SpawnLocation,
+} from "@/lib/spawnLocations";
+import { previewSpawnPhase } from "@/lib/spawnPlanner";
+import { getEffectiveNextSpawn } from "@/lib/spawnRecurrence";
+import {
+  describeTimerAttribution,
+  indexTimersByResource,
+  mergeSpawnTimerChange,
+  SPAWN_TIMER_COLUMNS,
+  SpawnTimerRow,
+  TimersState,
+} from "@/lib/spawnTimers";
+import {
+  SpawnTimersConnectionStatus,
+  startSpawnTimersSync,
+} from "@/lib/spawnTimersRealtime";
+import { RevisionChange } from "@/lib/spawnTimerRevisions";
+import { getLatestClockAnchor } from "@/lib/spawnTimeline";
+import { getSupabaseBrowserClient } from "@/lib/supabaseClient";
+import {
+  saveInGameTime,
+  saveNextSpawn,
+  SaveSpawnTimerResult,
+} from "@/lib/spawnTimerStore";
+import {
+  computeNextSpawnDate,
+  validateMinecraftTimeInput,
+  validateSpawnOffset,
+  ValidationResult,
+} from "@/lib/timerValidation";
+import AlertSettingsPanel from "@/components/AlertSettingsPanel";
+import AuthControls from "@/components/AuthControls";
+import ClockDriftPanel from "@/components/ClockDriftPanel";
+import ConflictDialog from "@/components/ConflictDialog";
+import LocaleSwitcher from "@/components/LocaleSwitcher";
+import LocationAdminPanel from "@/components/LocationAdminPanel";
+import PhasePlannerPanel from "@/components/PhasePlannerPanel";
+import QuickEntryBar from "@/components/QuickEntryBar";
+import ServerConditionsControls from "@/components/ServerConditionsControls";
+import ServerRestartControls from "@/components/ServerRestartControls";
+import SpawnStatsPanel from "@/components/SpawnStatsPanel";
+import SpawnTimeline from "@/components/SpawnTimeline";
+import TimerHistoryPanel from "@/components/TimerHistoryPanel";
+import TimeZoneSelect from "@/components/TimeZoneSelect";
+import UndoToast from "@/components/UndoToast";
+
+type MinutesState = Record<string, number>;
+
+type TimerConflict =
+  | {
+      resource: SpawnLocation;
+      field: "next_spawn";
+      nextSpawn: Date;
+      current: SpawnTimerRow | null;
+    }
+  | {
+      resource: SpawnLocation;
+      field: "ingame_time";
+      ingameTime: string;
+      // When the time was observed, earlier than the save for offline edits.
+      ingameTimeSavedAt: Date;
+      current: SpawnTimerRow | null;
+    };
+
+// The last save made from this tab, with what it replaced, for the undo
+// toast. Saves that filled an empty field are not undoable. updatedAt is the
+// row as the save left it, so undoing a timer someone changed since goes
+// through the conflict dialog instead of silently overwriting their edit.
+type UndoableAction =
+  | {
+      resource: SpawnLocation;
+      field: "next_spawn";
+      previous: string;
+      updatedAt: string | null;
+    }
+  | {
+      resource: SpawnLocation;
+      field: "ingame_time";
+      previous: string;
+      previousSavedAt: string;
+      updatedAt: string | null;
+    };
+
+type SpawnDashboardProps = {
+  serverId: string;
+};
+
+export default function SpawnDashboard({ serverId }: SpawnDashboardProps) {
+  const { formatTime, locale, t, timeZone } = useI18n();
+  const [supabaseClient] = useState<SupabaseClient>(() =>
+    getSupabaseBrowserClient()
+  );
+  const { session, user } = useSupabaseSession(supabaseClient);
+  const canEdit = Boolean(user);
+  const [timers, setTimers] = useState<TimersState>({});
+  const [servers, setServers] = useState<GameServer[]>([]);
+  const [locations, setLocations] = useState<SpawnLocation[]>(() =>
+    DEFAULT_SPAWN_LOCATIONS.filter((location) => location.server_id === serverId)
+  );
+  const [locationsLoaded, setLocationsLoaded] = useState<boolean>(false);
+  const [canManageLocations, setCanManageLocations] = useState<boolean>(false);
+  const [showLocationAdmin, setShowLocationAdmin] = useState<boolean>(false);
+  const [minutesToAdd, setMinutesToAdd] = useState<MinutesState>({});
+  const [secondsToAdd, setSecondsToAdd] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState<boolean>(false);
+  const [updating, setUpdating] = useState<Record<string, boolean>>({});
+  const [editing, setEditing] = useState<Record<string, boolean>>({});
+  const [showInGameControls, setShowInGameControls] = useState<
+    Record<string, boolean>
+  >({});
+  const [savingInGameTime, setSavingInGameTime] = useState<Record<string, boolean>>(
+    {}
+  );
+  const [inGameTimeInputs, setInGameTimeInputs] = useState<Record<string, string>>(
+    {}
+  );
+  const [showStats, setShowStats] = useState<Record<string, boolean>>({});
+  const [showHistory, setShowHistory] = useState<Record<string, boolean>>({});
+  const [reverting, setReverting] = useState<Record<string, boolean>>({});
+  const [statsVersion, setStatsVersion] = useState<number>(0);
+  const [confirmingSpawn, setConfirmingSpawn] = useState<Record<string, boolean>>(
+    {}
+  );
+  const [recordingSpawn, setRecordingSpawn] = useState<Record<string, boolean>>(
+    {}
+  );
+  const [legendaryInputs, setLegendaryInputs] = useState<Record<string, string>>(
+    {}
+  );
+  const [caughtByInputs, setCaughtByInputs] = useState<Record<string, string>>(
+    {}
+  );
+  const [legendaryCandidates, setLegendaryCandidates] = useState<
+    LegendaryCandidate[]
+  >([]);
+  const [alertPreferences, setAlertPreferences] =
+    useState<AlertPreferences | null>(null);
+  const [showAlertSettings, setShowAlertSettings] = useState<boolean>(false);
+  const [showPlanner, setShowPlanner] = useState<boolean>(false);
+  const [showClockDrift, setShowClockDrift] = useState<boolean>(false);
+  const [clockObservations, setClockObservations] = useState<ClockObservation[]>(
+    []
+  );
+  const [clockModel, setClockModel] = useState<ClockModel | null>(null);
+  const [editBaselines, setEditBaselines] = useState<
+    Record<string, string | null>
+  >({});
+  const [copiedResourceId, setCopiedResourceId] = useState<string | null>(null);
+  const [conflict, setConflict] = useState<TimerConflict | null>(null);
+  const [resolvingConflict, setResolvingConflict] = useState<boolean>(false);
+  const [connectionStatus, setConnectionStatus] =
+    useState<SpawnTimersConnectionStatus>("connecting");
+  // When the cached timers shown while Supabase is unreachable were fetched.
+  const [offlineSince, setOfflineSince] = useState<string | null>(null);
+  const [pendingEditCount, setPendingEditCount] = useState<number>(0);
+  // Prefilled text of the open quick entry bar, null while it is closed.
+  const [quickEntryInput, setQuickEntryInput] = useState<string | null>(null);
+  const [lastAction, setLastAction] = useState<UndoableAction | null>(null);
+  const [undoing, setUndoing] = useState<boolean>(false);
+  const replayingRef = useRef<boolean>(false);
+  const [minecraftData, setMinecraftData] = useState<
+    Record<string, DerivedMinecraftData>
+  >({});
+
+  const resources = useMemo(
+    () => getActiveSpawnLocations(locations),
+    [locations]
+  );
+
+  const currentServer = useMemo(
+    () => servers.find((server) => server.id === serverId) ?? null,
+    [serverId, servers]
+  );
+  const serverTitle = currentServer
+    ? getServerTitle(currentServer)
+    : getServerTitle({ name: serverId });
+
+  const restartCalendar = useMemo(
+    () => buildRestartCalendar(currentServer, Date.now()),
+    [currentServer]
+  );
+  const latestClockAnchor = useMemo(() => getLatestClockAnchor(timers), [timers]);
+  const resolveClockAnchor = useCallback(
+    (anchor: MinecraftClockAnchor | undefined, nowMs: number = Date.now()) =>
+      resolveServerClockAnchor(
+        anchor,
+        clockModel,
+        currentServer,
+        nowMs,
+        restartCalendar
+      ),
+    [clockModel, currentServer, restartCalendar]
+  );
+  const clockAnchor = resolveClockAnchor(latestClockAnchor).anchor;
+  const nextRestartMs = getNextScheduledRestartMs(
+    currentServer,
+    Date.now(),
+    restartCalendar
+  );
+  const latestObservationAt = latestClockAnchor?.ingame_time_saved_at ?? null;
+  const lastReportedRestartAt = currentServer?.last_restart_at ?? null;
+
+  useEffect(() => {
+    void fetchClockObservations(
+      supabaseClient,
+      [serverId],
+      Date.now() - CLOCK_OBSERVATION_WINDOW_MS
+    )
+      .then((observations) => {
+        setClockObservations(observations);
+        setClockModel(fitClockModel(observations));
+      })
+      .catch((caughtError) => {
+        console.warn(
+          "clock_observations unavailable, using the saved in-game time",
+          caughtError
+        );
+      });
+  }, [lastReportedRestartAt, latestObservationAt, serverId, supabaseClient]);
+
+  const resourceTexts = useMemo(
+    () => resources.map((resource) => resource.label),
+    [resources]
+  );
+
+  const fetchServerList = useCallback(async () => {
+    const result = await fetchServers(supabaseClient);
+
+    if (result.error) {
+      console.warn("servers unavailable, using default server", result.error);
+    }
+
+    setServers(result.servers);
+  }, [supabaseClient]);
+
+  useEffect(() => {
+    void fetchServerList();
+  }, [fetchServerList]);
+
+  const fetchLocations = useCallback(async () => {
+    const { locations: fetchedLocations, error: locationsError } =
+      await fetchSpawnLocations(supabaseClient, serverId);
+
+    if (locationsError) {
+      console.warn(
+        "spawn_locations unavailable, using default locations",
+        locationsError
+      );
+    }
+
+    setLocations(fetchedLocations);
+    setLocationsLoaded(true);
+  }, [serverId, supabaseClient]);
+
+  useEffect(() => {
+    void fetchLocations();
+  }, [fetchLocations]);
+
+  const fetchCandidates = useCallback(async () => {
+    const { candidates, error: candidatesError } = await fetchLegendaryCandidates(
+      supabaseClient,
+      locations.map((location) => location.id)
+    );
+
+    if (candidatesError) {
+      console.warn("legendary_candidates unavailable", candidatesError);
+    }
+
+    setLegendaryCandidates(candidates);
+  }, [locations, supabaseClient]);
+
+  useEffect(() => {
+    void fetchCandidates();
+  }, [fetchCandidates]);
+
+  useEffect(() => {
+    if (!user) {
+      setCanManageLocations(false);
+      return;
+    }
+
+    void fetchCanManageLocations(supabaseClient).then(setCanManageLocations);
+  }, [supabaseClient, user]);
+
+  const loadPendingEdits = useCallback(async () => {
+    try {
+      const edits = await listPendingEdits(serverId);
+      setPendingEditCount(edits.length);
+      return edits;
+    } catch (caughtError) {
+      console.warn("Offline edit queue unavailable", caughtError);
+      return [];
+    }
+  }, [serverId]);
+
+  const fetchTimers = useCallback(async () => {
+    setError(null);
+    setRefreshing(true);
+
+    if (resourceTexts.length === 0) {
+      setRefreshing(false);
+      setLoading(false);
+      return;
+    }
+
+    const { data, error: supabaseError } = await supabaseClient
+      .from("spawn_timers")
+      .select(SPAWN_TIMER_COLUMNS)
+      .eq("server_id", serverId)
+      .in("text", resourceTexts);
+    // Edits still waiting for replay are shown over the fetched rows.
+    const pendingEdits = await loadPendingEdits();
+
+    const showTimers = (rows: SpawnTimerRow[]) => {
+      const displayed = applyPendingEdits(
+        indexTimersByResource(rows, resources),
+        pendingEdits
+      );
+
+      setTimers(displayed);
+      setInGameTimeInputs(() =>
+        resources.reduce<Record<string, string>>((acc, resource) => {
+          const row = displayed[resource.id];
+          acc[resource.id] = row?.ingame_time ?? "";
+          return acc;
+        }, {})
+      );
+      setSavingInGameTime({});
+
+      setRefreshing(false);
+      setLoading(false);
+    };
+
+    if (supabaseError) {
+      console.error("Supabase select error", supabaseError);
+      const snapshot = await loadTimersSnapshot(serverId).catch((caughtError) => {
+        console.warn("Offline timers unavailable", caughtError);
+        return null;
+      });
+
+      if (!snapshot) {
+        setError(t("dashboard.loadError", { details: supabaseError.message }));
+        setRefreshing(false);
+        setLoading(false);
+        return;
+      }
+
+      // Countdowns are computed locally, so the last known timers stay useful.
+      setOfflineSince(snapshot.savedAt);
+      showTimers(
+        Object.values(snapshot.timers).filter(
+          (row): row is SpawnTimerRow => row !== undefined
+        )
+      );
+      return;
+    }
+
+    const fetched = (data ?? []) as SpawnTimerRow[];
+    const savedAt = new Date().toISOString();
+
+    setOfflineSince(null);
+    showTimers(fetched);
+    void saveTimersSnapshot({
+      serverId,
+      timers: indexTimersByResource(fetched, resources),
+      savedAt,
+    }).catch((caughtError) => {
+      console.warn("Unable to cache timers for offline use", caughtError);
+    });
+  }, [loadPendingEdits, resourceTexts, resources, serverId, supabaseClient, t]);
+
+  useEffect(() => {
+    if (locationsLoaded) {
+      void fetchTimers();
+    }
+  }, [fetchTimers, locationsLoaded]);
+
+  useEffect(() => {
+    if (!locationsLoaded) {
+      return;
+    }
+
+    return startSpawnTimersSync({
+      client: supabaseClient,
+      serverId,
+      onChange: (change) =>
+        setTimers((prev) => mergeSpawnTimerChange(prev, change, resources)),
+      onStatusChange: setConnectionStatus,
+      onResync: fetchTimers,
+    });
+  }, [fetchTimers, locationsLoaded, resources, serverId, supabaseClient]);
+
+  useEffect(() => {
+    const updateMinecraftData = () => {
+      const now = Date.now();
+      const data: Record<string, DerivedMinecraftData> = {};
+
+      resources.forEach((resource) => {
+        data[resource.id] = deriveMinecraftData(
+          timers[resource.id],
+          resource,
+          clockModel,
+          currentServer,
+          now,
+          restartCalendar
+        );
+      });
+
+      setMinecraftData(data);
+    };
+
+    updateMinecraftData();
+    const intervalId = window.setInterval(updateMinecraftData, 100);
+
+    return () => window.clearInterval(intervalId);
+  }, [clockModel, currentServer, resources, restartCalendar, timers]);
+
+  useEffect(() => {
+    // Also caches the app shell, so the dashboard opens without a network.
+    void registerServiceWorker();
+  }, []);
+
+  useEffect(() => {
+    // localStorage is only readable after hydration.
+    setAlertPreferences(loadAlertPreferences());
+  }, []);
+
+  const handleAlertPreferencesChange = useCallback(
+    (preferences: AlertPreferences) => {
+      setAlertPreferences(preferences);
+      saveAlertPreferences(preferences);
+    },
+    []
+  );
+
+  useSpawnAlerts({
+    timers,
+    resources,
+    preferences: alertPreferences,
+    baseTitle: serverTitle,
+    accessToken: session?.access_token ?? null,
+  });
+
+  const handleInGameTimeChange = useCallback((id: string, value: string) => {
+    setInGameTimeInputs((prev) => ({
+      ...prev,
+      [id]: value,
+    }));
+  }, []);
+
+  const getPhasePreviewFromInGameTime = useCallback(
+    (value: string): MinecraftPhaseDetails | null => {
+      if (!value) {
+        return null;
+      }
+
+      const totalMinutes = parseMinecraftTime(value);
+
+      if (totalMinutes === null) {
+        return null;
+      }
+
+      return getMinecraftPhaseFromMinutes(totalMinutes);
+    },
+    []
+  );
+
+  const handleMinutesChange = useCallback((id: string, value: string) => {
+    const parsed = Number.parseInt(value, 10);
+    setMinutesToAdd((prev) => ({
+      ...prev,
+      [id]: Number.isNaN(parsed) ? 0 : parsed,
+    }));
+  }, []);
+
+  const handleToggleInGameControls = useCallback((id: string) => {
+    setShowInGameControls((prev) => ({
+      ...prev,
+      [id]: !prev[id],
+    }));
+  }, []);
+
+  const logSpawnEvent = useCallback(
+    async (event: NewSpawnEvent) => {
+      try {
+        await recordSpawnEvent(supabaseClient, event);
+      } catch (caughtError) {
+        // History is best effort: a failed log must not undo the timer save.
+        console.error("Supabase spawn_events error", caughtError);
+      }
+    },
+    [supabaseClient]
+  );
+
+  const getExpectedUpdatedAt = useCallback(
+    (id: string) =>
+      id in editBaselines
+        ? editBaselines[id]
+        : (timers[id]?.updated_at ?? null),
+    [editBaselines, timers]
+  );
+
+  // Keeps an edit that could not reach Supabase for replay and returns the
+  // row as it will read once replayed.
+  const queueOfflineEdit = useCallback(
+    async (edit: PendingTimerEdit) => {
+      await queuePendingEdit(edit, locale);
+      await loadPendingEdits();
+
+      return applyPendingEdit(timers[edit.locationId], edit);
+    },
+    [loadPendingEdits, locale, timers]
+  );
+
+  const commitNextSpawn = useCallback(
+    async (
+      resource: SpawnLocation,
+      nextSpawn: Date,
+      expectedUpdatedAt: string | null
+    ) => {
+      const id = resource.id;
+      const previous = timers[id]?.next_spawn ?? null;
+      let savedRow: SpawnTimerRow;
+      let queued = false;
+
+      try {
+        const result = await saveNextSpawn(supabaseClient, resource, nextSpawn, {
+          expectedUpdatedAt,
+          locale,
+        });
+
+        if (result.status === "conflict") {
+          setConflict({
+            resource,
+            field: "next_spawn",
+            nextSpawn,
+            current: result.current,
+          });
+          return false;
+        }
+
+        savedRow = result.row;
+      } catch (caughtError) {
+        if (!isNetworkError(caughtError)) {
+          throw caughtError;
+        }
+
+        savedRow = await queueOfflineEdit({
+          serverId: resource.server_id,
+          locationId: id,
+          label: resource.label,
+          expectedUpdatedAt,
+          queuedAt: new Date().toISOString(),
+          field: "next_spawn",
+          nextSpawn: nextSpawn.toISOString(),
+        });
+        queued = true;
+      }
+
+      setConflict(null);
+      setTimers((prev) => ({
+        ...prev,
+        [id]: savedRow,
+      }));
+      setEditing((prev) => ({ ...prev, [id]: false }));
+      setEditBaselines((prev) => {
+        const next = { ...prev };
+        delete next[id];
+        return next;
+      });
+      setMinutesToAdd((prev) => ({
+        ...prev,
+        [id]: resource.default_respawn_minutes,
+      }));
+      setSecondsToAdd((prev) => ({ ...prev, [id]: 0 }));
+      setInGameTimeInputs((prev) => ({
+        ...prev,
+        [id]: savedRow.ingame_time ?? "",
+      }));
+      setShowInGameControls((prev) => ({ ...prev, [id]: false }));
+      setLastAction(
+        previous && previous !== savedRow.next_spawn
+          ? {
+              resource,
+              field: "next_spawn",
+              previous,
+              updatedAt: savedRow.updated_at ?? null,
+            }
+          : null
+      );
+
+      // Queued edits are logged when they are replayed.
+      if (!queued) {
+        void logSpawnEvent({
+          location_id: id,
+          kind: "timer_set",
+          next_spawn: savedRow.next_spawn,
+          phase:
+            deriveMinecraftClockAtDate(resolveClockAnchor(savedRow).anchor, nextSpawn)
+              ?.phase ?? null,
+          ingame_time: null,
+          legendary: null,
+          caught_by: null,
+        });
+      }
+
+      return true;
+    },
+    [
+      locale,
+      logSpawnEvent,
+      queueOfflineEdit,
+      resolveClockAnchor,
+      supabaseClient,
+      timers,
+    ]
+  );
+
+  // Shared by the card form and the quick entry bar. The value tells whether
+  // the save went through (false when it opened the conflict dialog).
+  const applySpawnOffset = useCallback(
+    async (
+      resource: SpawnLocation,
+      minutes: number,
+      seconds: number
+    ): Promise<ValidationResult<boolean>> => {
+      const offset = validateSpawnOffset(minutes, seconds, locale);
+
+      if (!offset.ok) {
+        return offset;
+      }
+
+      const id = resource.id;
+      setUpdating((prev) => ({ ...prev, [id]: true }));
+
+      try {
+        return {
+          ok: true,
+          value: await commitNextSpawn(
+            resource,
+            computeNextSpawnDate(offset.value),
+            getExpectedUpdatedAt(id)
+          ),
+        };
+      } catch (caughtError) {
+        console.error("Supabase update error", caughtError);
+        return {
+          ok: false,
+          error: t("dashboard.updateFailed", {
+            details:
+              caughtError instanceof Error
+                ? caughtError.message
+                : t("common.unknownError"),
+          }),
+        };
+      } finally {
+        setUpdating((prev) => ({ ...prev, [id]: false }));
+      }
+    },
+    [commitNextSpawn, getExpectedUpdatedAt, locale, t]
+  );
+
+  const handleAddMinutes = useCallback(
+    async (id: string) => {
+      const resource = resources.find((item) => item.id === id);
+
+      if (!resource) {
+        setError(t("dashboard.unknownResource"));
+        return;
+      }
+
+      setError(null);
+      const result = await applySpawnOffset(
+        resource,
+        minutesToAdd[id] ?? resource.default_respawn_minutes,
+        secondsToAdd[id] ?? 0
+      );
+
+      if (!result.ok) {
+        setError(result.error);
+      }
+    },
+    [applySpawnOffset, minutesToAdd, resources, secondsToAdd, t]
+  );
+
+  // Turns a projected cycle into a confirmed next_spawn.
+  const handleConfirmProjection = useCallback(
+    async (resource: SpawnLocation, nextSpawnMs: number) => {
+      const id = resource.id;
+      setError(null);
+      setUpdating((prev) => ({ ...prev, [id]: true }));
+
+      try {
+        await commitNextSpawn(
+          resource,
+          new Date(nextSpawnMs),
+          timers[id]?.updated_at ?? null
+        );
+      } catch (caughtError) {
+        console.error("Supabase update error", caughtError);
+        setError(
+          t("dashboard.updateFailed", {
+            details:
+              caughtError instanceof Error
+                ? caughtError.message
+                : t("common.unknownError"),
+          })
+        );
+      } finally {
+        setUpdating((prev) => ({ ...prev, [id]: false }));
+      }
+    },
+    [commitNextSpawn, t, timers]
+  );
+
+  const handleConfirmSpawn = useCallback(
+    async (id: string) => {
+      setRecordingSpawn((prev) => ({ ...prev, [id]: true }));
+
+      try {
+        const liveClock = deriveLiveMinecraftClock(
+          resolveClockAnchor(timers[id]).anchor,
+          Date.now()
+        );
+        const legendary = (legendaryInputs[id] ?? "").trim();
+        const caughtBy = (caughtByInputs[id] ?? "").trim();
+
+        await recordSpawnEvent(supabaseClient, {
+          location_id: id,
+          kind: "spawned",
+          next_spawn: timers[id]?.next_spawn ?? null,
+          phase: liveClock?.phaseDetails.phase ?? null,
+          ingame_time: liveClock?.clock ?? null,
+          legendary: legendary || null,
+          caught_by: caughtBy || null,
+        });
+
+        setConfirmingSpawn((prev) => ({ ...prev, [id]: false }));
+        setLegendaryInputs((prev) => ({ ...prev, [id]: "" }));
+        setCaughtByInputs((prev) => ({ ...prev, [id]: "" }));
+        setStatsVersion((prev) => prev + 1);
+      } catch (caughtError) {
+        console.error("Supabase spawn_events error", caughtError);
+        setError(
+          t("dashboard.spawnFailed", {
+            details:
+              caughtError instanceof Error
+                ? caughtError.message
+                : t("common.unknownError"),
+          })
+        );
+      } finally {
+        setRecordingSpawn((prev) => ({ ...prev, [id]: false }));
+      }
+    },
+    [
+      caughtByInputs,
+      legendaryInputs,
+      resolveClockAnchor,
+      supabaseClient,
+      t,
+      timers,
+    ]
+  );
+
+  const handleToggleEdit = useCallback(
+    (id: string) => {
+      if (!editing[id]) {
+        // Saves made from this form are checked against the row as it was
+        // when the form was opened.
+        setEditBaselines((prev) => ({
+          ...prev,
+          [id]: timers[id]?.updated_at ?? null,
+        }));
+      }
+
+      setEditing((prev) => ({
+        ...prev,
+        [id]: !prev[id],
+      }));
+    },
+    [editing, timers]
+  );
+
+  // Discord renders the token in each reader's own time zone.
+  const handleCopyDiscordTimestamp = useCallback(
+    async (id: string, nextSpawnMs: number) => {
+      try {
+        await navigator.clipboard.writeText(
+          formatDiscordTimestamp(nextSpawnMs, "R")
+        );
+        setCopiedResourceId(id);
+      } catch (caughtError) {
+        console.error("Clipboard error", caughtError);
+        setError(
+          t("dashboard.copyFailed", {
+            details:
+              caughtError instanceof Error
+                ? caughtError.message
+                : t("common.unknownError"),
+          })
+        );
+      }
+    },
+    [t]
+  );
+
+  useEffect(() => {
+    if (!copiedResourceId) {
+      return;
+    }
+
+    const timeoutId = window.setTimeout(() => setCopiedResourceId(null), 2_000);
+
+    return () => window.clearTimeout(timeoutId);
+  }, [copiedResourceId]);
+
+  const handleRefresh = useCallback(async () => {
+    await fetchTimers();
+  }, [fetchTimers]);
+
+  const isRowUpdating = useCallback(
+    (id: string) => Boolean(updating[id]),
+    [updating]
+  );
+
+  const commitInGameTime = useCallback(
+    async (
+      resource: SpawnLocation,
+      value: string,
+      expectedUpdatedAt: string | null,
+      savedAt: Date = new Date()
+    ) => {
+      const id = resource.id;
+      const previous = timers[id];
+      let savedRow: SpawnTimerRow;
+
+      try {
+        const result = await saveInGameTime(
+          supabaseClient,
+          resource,
+          value,
+          savedAt,
+          { expectedUpdatedAt, locale }
+        );
+
+        if (result.status === "conflict") {
+          setConflict({
+            resource,
+            field: "ingame_time",
+            ingameTime: value,
+            ingameTimeSavedAt: savedAt,
+            current: result.current,
+          });
+          return false;
+        }
+
+        savedRow = result.row;
+      } catch (caughtError) {
+        if (!isNetworkError(caughtError)) {
+          throw caughtError;
+        }
+
+        savedRow = await queueOfflineEdit({
+          serverId: resource.server_id,
+          locationId: id,
+          label: resource.label,
+          expectedUpdatedAt,
+          queuedAt: new Date().toISOString(),
+          field: "ingame_time",
+          ingameTime: value,
+          ingameTimeSavedAt: savedAt.toISOString(),
+        });
+      }
+
+      setConflict(null);
+      setTimers((prev) => ({
+        ...prev,
+        [id]: savedRow,
+      }));
+      setEditBaselines((prev) => ({
+        ...prev,
+        [id]: savedRow.updated_at ?? null,
+      }));
+      setInGameTimeInputs((prev) => ({
+        ...prev,
+        [id]: savedRow.ingame_time ?? value,
+      }));
+      setShowInGameControls((prev) => ({ ...prev, [id]: false }));
+      setLastAction(
+        previous?.ingame_time && previous.ingame_time_saved_at
+          ? {
+              resource,
+              field: "ingame_time",
+              previous: previous.ingame_time,
+              previousSavedAt: previous.ingame_time_saved_at,
+              updatedAt: savedRow.updated_at ?? null,
+            }
+          : null
+      );
+
+      return true;
+    },
+    [locale, queueOfflineEdit, supabaseClient, timers]
+  );
+
+  // Same contract as applySpawnOffset, for the Minecraft time.
+  const applyInGameTime = useCallback(
+    async (
+      resource: SpawnLocation,
+      rawValue: string
+    ): Promise<ValidationResult<boolean>> => {
+      const validated = validateMinecraftTimeInput(rawValue, locale);
+
+      if (!validated.ok) {
+        return validated;
+      }
+
+      const id = resource.id;
+      setSavingInGameTime((prev) => ({ ...prev, [id]: true }));
+
+      try {
+        return {
+          ok: true,
+          value: await commitInGameTime(
+            resource,
+            validated.value,
+            getExpectedUpdatedAt(id)
+          ),
+        };
+      } catch (caughtError) {
+        console.error("Supabase ingame_time error", caughtError);
+        return {
+          ok: false,
+          error: t("dashboard.ingameTimeFailed", {
+            details:
+              caughtError instanceof Error
+                ? caughtError.message
+                : t("common.unknownError"),
+          }),
+        };
+      } finally {
+        setSavingInGameTime((prev) => ({ ...prev, [id]: false }));
+      }
+    },
+    [commitInGameTime, getExpectedUpdatedAt, locale, t]
+  );
+
+  const handleSaveInGameTime = useCallback(
+    async (id: string) => {
+      const resource = resources.find((item) => item.id === id);
+
+      if (!resource) {
+        setError(t("dashboard.unknownResource"));
+        return;
+      }
+
+      setError(null);
+      const result = await applyInGameTime(resource, inGameTimeInputs[id] ?? "");
+
+      if (!result.ok) {
+        setError(result.error);
+      }
+    },
+    [applyInGameTime, inGameTimeInputs, resources, t]
+  );
+
+  const handleQuickSpawnOffset = useCallback(
+    async (resource: SpawnLocation, minutes: number, seconds: number) => {
+      const result = await applySpawnOffset(resource, minutes, seconds);
+
+      return result.ok ? null : result.error;
+    },
+    [applySpawnOffset]
+  );
+
+  const handleQuickInGameTime = useCallback(
+    async (resource: SpawnLocation, value: string) => {
+      const result = await applyInGameTime(resource, value);
+
+      return result.ok ? null : result.error;
+    },
+    [applyInGameTime]
+  );
+
+  // Puts back a value replaced by a save, from the undo toast or a revision.
+  // The row must not have changed since, otherwise the conflict dialog opens.
+  // Restoring an in-game time retracts the replaced clock observation
+  // (record_clock_observation), so the fitted clock drops it too.
+  const restoreTimerValue = useCallback(
+    async (
+      resource: SpawnLocation,
+      change: UndoableAction | RevisionChange,
+      expectedUpdatedAt: string | null
+    ) => {
+      if (change.field === "next_spawn") {
+        const previous = "previous" in change ? change.previous : change.oldValue;
+
+        if (previous) {
+          await commitNextSpawn(resource, new Date(previous), expectedUpdatedAt);
+        }
+        return;
+      }
+
+      const [previous, previousSavedAt] =
+        "previous" in change
+          ? [change.previous, change.previousSavedAt]
+          : [change.oldValue, change.oldSavedAt];
+
+      if (previous && previousSavedAt) {
+        await commitInGameTime(
+          resource,
+          previous,
+          expectedUpdatedAt,
+          new Date(previousSavedAt)
+        );
+      }
+    },
+    [commitInGameTime, commitNextSpawn]
+  );
+
+  const handleUndo = useCallback(async () => {
+    if (!lastAction) {
+      return;
+    }
+
+    setUndoing(true);
+
+    try {
+      await restoreTimerValue(
+        lastAction.resource,
+        lastAction,
+        lastAction.updatedAt
+      );
+    } catch (caughtError) {
+      console.error("Supabase update error", caughtError);
+      setError(
+        t("dashboard.updateFailed", {
+          details:
+            caughtError instanceof Error
+              ? caughtError.message
+              : t("common.unknownError"),
+        })
+      );
+    } finally {
+      setUndoing(false);
+      // The restore is itself a save; it is not offered for undo.
+      setLastAction(null);
+    }
+  }, [lastAction, restoreTimerValue, t]);
+
+  const handleRevertChange = useCallback(
+    async (resource: SpawnLocation, change: RevisionChange) => {
+      const id = resource.id;
+      setError(null);
+      setReverting((prev) => ({ ...prev, [id]: true }));
+
+      try {
+        // Reverting from the drawer applies to the timer as currently shown.
+        await restoreTimerValue(resource, change, timers[id]?.updated_at ?? null);
+      } catch (caughtError) {
+        console.error("Supabase update error", caughtError);
+        setError(
+          t("dashboard.updateFailed", {
+            details:
+              caughtError instanceof Error
+                ? caughtError.message
+                : t("common.unknownError"),
+          })
+        );
+      } finally {
+        setReverting((prev) => ({ ...prev, [id]: false }));
+      }
+    },
+    [restoreTimerValue, t, timers]
+  );
+
+  const handleDismissUndo = useCallback(() => setLastAction(null), []);
+
+  const handleCloseQuickEntry = useCallback(() => setQuickEntryInput(null), []);
+
+  useQuickEntryHotkeys({
+    enabled: canEdit && quickEntryInput === null && !conflict,
+    resources,
+    onOpen: setQuickEntryInput,
+  });
+
+  const handleResolveConflict = useCallback(
+    async (overwrite: boolean) => {
+      if (!conflict) {
+        return;
+      }
+
+      const { resource, current } = conflict;
+
+      if (!overwrite) {
+        setTimers((prev) => {
+          const next = { ...prev };
+
+          if (current) {
+            next[resource.id] = current;
+          } else {
+            delete next[resource.id];
+          }
+
+          return next;
+        });
+        setEditBaselines((prev) => ({
+          ...prev,
+          [resource.id]: current?.updated_at ?? null,
+        }));
+        setConflict(null);
+        return;
+      }
+
+      setResolvingConflict(true);
+
+      try {
+        const expectedUpdatedAt = current?.updated_at ?? null;
+
+        if (conflict.field === "next_spawn") {
+          await commitNextSpawn(resource, conflict.nextSpawn, expectedUpdatedAt);
+        } else {
+          await commitInGameTime(
+            resource,
+            conflict.ingameTime,
+            expectedUpdatedAt,
+            conflict.ingameTimeSavedAt
+          );
+        }
+      } catch (caughtError) {
+        console.error("Supabase conflict resolution error", caughtError);
+        setConflict(null);
+        setError(
+          t("dashboard.conflictFailed", {
+            details:
+              caughtError instanceof Error
+                ? caughtError.message
+                : t("common.unknownError"),
+          })
+        );
+      } finally {
+        setResolvingConflict(false);
+      }
+    },
+    [commitInGameTime, commitNextSpawn, conflict, t]
+  );
+
+  /**
+   * Sends the edits queued while offline, oldest first, each checked against
+   * the row it was made on. Stops at the first network failure, or at a
+   * conflict, which goes through the conflict dialog; the replay resumes once
+   * it is resolved. The effect and the "online" listener may both call it at
+   * once: the ref keeps one replay per tab, the lock one across tabs.
+   */
+  const replayPendingEdits = useCallback(async () => {
+    if (replayingRef.current) {
+      return;
+    }
+
+    replayingRef.current = true;
+
+    try {
+      await withPendingEditsLock(async () => {
+        // Without a session the saves would be rejected and the edits lost.
+        const edits = user ? await listPendingEdits(serverId) : [];
+
+        for (const edit of edits) {
+          const id = edit.id as number;
+          const resource = resources.find((item) => item.id === edit.locationId);
+
+          if (!resource) {
+            await removePendingEdit(id);
+            continue;
+          }
+
+          let result: SaveSpawnTimerResult;
+
+          try {
+            result =
+              edit.field === "next_spawn"
+                ? await saveNextSpawn(
+                    supabaseClient,
+                    resource,
+                    new Date(edit.nextSpawn),
+                    { expectedUpdatedAt: edit.expectedUpdatedAt, locale }
+                  )
+                : await saveInGameTime(
+                    supabaseClient,
+                    resource,
+                    edit.ingameTime,
+                    new Date(edit.ingameTimeSavedAt),
+                    { expectedUpdatedAt: edit.expectedUpdatedAt, locale }
+                  );
+          } catch (caughtError) {
+            if (isNetworkError(caughtError)) {
+              return;
+            }
+
+            console.error("Supabase offline replay error", caughtError);
+            await removePendingEdit(id);
+            setError(
+              t("dashboard.offlineReplayFailed", {
+                details:
+                  caughtError instanceof Error
+                    ? caughtError.message
+                    : t("common.unknownError"),
+              })
+            );
+            continue;
+          }
+
+          await removePendingEdit(id);
+
+          if (result.status === "conflict") {
+            setConflict(
+              edit.field === "next_spawn"
+                ? {
+                    resource,
+                    field: "next_spawn",
+                    nextSpawn: new Date(edit.nextSpawn),
+                    current: result.current,
+                  }
+                : {
+                    resource,
+                    field: "ingame_time",
+                    ingameTime: edit.ingameTime,
+                    ingameTimeSavedAt: new Date(edit.ingameTimeSavedAt),
+                    current: result.current,
+                  }
+            );
+            return;
+          }
+
+          if (edit.field === "next_spawn") {
+            void logSpawnEvent({
+              location_id: resource.id,
+              kind: "timer_set",
+              next_spawn: result.row.next_spawn,
+              phase:
+                deriveMinecraftClockAtDate(
+                  resolveClockAnchor(result.row).anchor,
+                  new Date(edit.nextSpawn)
+                )?.phase ?? null,
+              ingame_time: null,
+              legendary: null,
+              caught_by: null,
+            });
+          }
+        }
+      });
+    } catch (caughtError) {
+      console.warn("Offline edit queue unavailable", caughtError);
+    } finally {
+      // Released only once the refetch is done, so a replay triggered by it
+      // does not overlap this one.
+      await fetchTimers();
+      replayingRef.current = false;
+    }
+  }, [
+    fetchTimers,
+    locale,
+    logSpawnEvent,
+    resolveClockAnchor,
+    resources,
+    serverId,
+    supabaseClient,
+    t,
+    user,
+  ]);
+
+  useEffect(() => {
+    if (
+      connectionStatus !== "live" ||
+      conflict ||
+      !user ||
+      pendingEditCount === 0
+    ) {
+      return;
+    }
+
+    void replayPendingEdits();
+  }, [conflict, connectionStatus, pendingEditCount, replayPendingEdits, user]);
+
+  useEffect(() => {
+    // The realtime channel may still look live when the network comes back.
+    const handleOnline = () => void replayPendingEdits();
+
+    window.addEventListener("online", handleOnline);
+
+    return () => window.removeEventListener("online", handleOnline);
+  }, [replayPendingEdits]);
+
+  return (
+    <div className="relative flex min-h-screen items-center justify-center bg-zinc-950 text-zinc-50">
+      <div className="pointer-events-none absolute inset-0">
+        <Image
+          src="/Background.svg"
+          alt=""
+          fill
+          priority
+          className="object-cover opacity-[0.1]"
+        />
+      </div>
+
+      <main className="relative z-10 flex w-full max-w-4xl flex-col gap-8 px-6 py-12">
+        <header className="space-y-4">
+          <h1 className="text-3xl font-semibold tracking-tight text-white">
+            {serverTitle}
+          </h1>
+          {servers.length > 1 ? (
+            <nav aria-label={t("dashboard.servers")} className="flex flex-wrap items-center gap-2">
+              {servers.map((server) => (
+                <Link
+                  key={server.id}
+                  href={`/${server.id}`}
+                  aria-current={server.id === serverId ? "page" : undefined}
+                  className={`inline-flex items-center rounded-md border px-3 py-1 text-xs font-medium transition ${
+                    server.id === serverId
+                      ? "border-lime-400/60 bg-lime-400/10 text-lime-200"
+                      : "border-white/15 text-zinc-300 hover:border-white/40 hover:bg-white/10"
+                  }`}
+                >
+                  {server.name}
+                </Link>
+              ))}
+            </nav>
+          ) : null}
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <AuthControls client={supabaseClient} user={user} />
+            <div className="flex items-center gap-2">
+              <TimeZoneSelect />
+              <LocaleSwitcher />
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              onClick={handleRefresh}
+              disabled={refreshing}
+              className="inline-flex items-center rounded-md bg-white px-4 py-2 text-sm font-medium text-zinc-950 transition hover:bg-zinc-200 disabled:cursor-not-allowed disabled:opacity-60 cursor-pointer"
+            >
+              {refreshing ? t("dashboard.refreshing") : t("dashboard.refresh")}
+            </button>
+            <button
+              onClick={() => setShowAlertSettings((prev) => !prev)}
+              className="inline-flex items-center rounded-md border border-white/15 px-3 py-2 text-sm font-medium text-white transition hover:border-white/40 hover:bg-white/10 cursor-pointer"
+            >
+              {showAlertSettings
+                ? t("dashboard.alerts.close")
+                : t("dashboard.alerts.open")}
+            </button>
+            <button
+              onClick={() => setShowPlanner((prev) => !prev)}
+              className="inline-flex items-center rounded-md border border-white/15 px-3 py-2 text-sm font-medium text-white transition hover:border-white/40 hover:bg-white/10 cursor-pointer"
+            >
+              {showPlanner
+                ? t("dashboard.planner.close")
+                : t("dashboard.planner.open")}
+            </button>
+            <button
+              onClick={() => setShowClockDrift((prev) => !prev)}
+              className="inline-flex items-center rounded-md border border-white/15 px-3 py-2 text-sm font-medium text-white transition hover:border-white/40 hover:bg-white/10 cursor-pointer"
+            >
+              {showClockDrift
+                ? t("dashboard.clock.close")
+                : t("dashboard.clock.open")}
+            </button>
+            {canEdit ? (
+              <button
+                onClick={() => setQuickEntryInput("")}
+                className="inline-flex items-center gap-2 rounded-md border border-white/15 px-3 py-2 text-sm font-medium text-white transition hover:border-white/40 hover:bg-white/10 cursor-pointer"
+              >
+                {t("quickEntry.open")}
+                <kbd className="rounded border border-white/20 px-1 font-mono text-[10px] text-zinc-400">
+                  Ctrl K
+                </kbd>
+              </button>
+            ) : null}
+            {canManageLocations ? (
+              <button
+                onClick={() => setShowLocationAdmin((prev) => !prev)}
+                className="inline-flex items-center rounded-md border border-white/15 px-3 py-2 text-sm font-medium text-white transition hover:border-white/40 hover:bg-white/10 cursor-pointer"
+              >
+                {showLocationAdmin
+                  ? t("dashboard.locations.close")
+                  : t("dashboard.locations.open")}
+              </button>
+            ) : null}
+            <span
+              className="inline-flex items-center gap-2 text-xs text-zinc-400"
+              role="status"
+            >
+              <span
+                className={`h-2 w-2 rounded-full ${
+                  connectionStatus === "live"
+                    ? "bg-lime-400"
+                    : connectionStatus === "connecting"
+                      ? "bg-amber-400"
+                      : "bg-red-500"
+                }`}
+                aria-hidden="true"
+              />
+              {connectionStatus === "live"
+                ? t("dashboard.connection.live")
+                : connectionStatus === "connecting"
+                  ? t("dashboard.connection.connecting")
+                  : t("dashboard.connection.offline")}
+            </span>
+            <span className="text-xs text-zinc-500">
+              {t("dashboard.hint")}
+            </span>
+          </div>
+          <ServerRestartControls
+            client={supabaseClient}
+            server={currentServer}
+            canReport={canEdit}
+            canConfigure={canManageLocations}
+            onChanged={fetchServerList}
+          />
+          <ServerConditionsControls
+            client={supabaseClient}
+            server={currentServer}
+            clockAnchor={clockAnchor}
+            canReport={canEdit}
+            onChanged={fetchServerList}
+          />
+        </header>
+
+        {showAlertSettings && alertPreferences ? (
+          <AlertSettingsPanel
+            resources={resources}
+            preferences={alertPreferences}
+            signedIn={Boolean(user)}
+            onChange={handleAlertPreferencesChange}
+          />
+        ) : null}
+
+        {showClockDrift ? (
+          <ClockDriftPanel model={clockModel} observations={clockObservations} />
+        ) : null}
+
+        {showPlanner && resources.length > 0 ? (
+          <PhasePlannerPanel
+            resources={resources}
+            timers={timers}
+            clockAnchor={clockAnchor}
+          />
+        ) : null}
+
+        {canManageLocations && showLocationAdmin ? (
+          <LocationAdminPanel
+            client={supabaseClient}
+            serverId={serverId}
+            locations={locations}
+            candidates={legendaryCandidates}
+            onChanged={fetchLocations}
+            onCandidatesChanged={fetchCandidates}
+          />
+        ) : null}
+
+        {error ? (
+          <div className="rounded-md border border-red-500/40 bg-red-500/10 p-4 text-sm text-red-200">
+            {error}
+          </div>
+        ) : null}
+
+        {offlineSince || pendingEditCount > 0 ? (
+          <div
+            role="status"
+            className="flex flex-col gap-1 rounded-md border border-amber-400/40 bg-amber-400/10 p-4 text-sm text-amber-100"
+          >
+            {offlineSince ? (
+              <p>
+                {t("dashboard.offlineSince", {
+                  time: formatTime(new Date(offlineSince)),
+                })}
+              </p>
+            ) : null}
+            {pendingEditCount > 0 ? (
+              <p>{t("dashboard.pendingEdits", { count: pendingEditCount })}</p>
+            ) : null}
+          </div>
+        ) : null}
+
+        {!loading && resources.length > 0 ? (
+          <SpawnTimeline
+            resources={resources}
+            timers={timers}
+            clockAnchor={clockAnchor}
+            nextRestartMs={nextRestartMs}
+          />
+        ) : null}
+
+        {loading ? (
+          <div className="flex flex-1 items-center justify-center text-zinc-400">
+            {t("dashboard.loading")}
+          </div>
+        ) : (
+          <section className="grid gap-4">
+            {resources.map((resource, index) => {
+              const row = timers[resource.id];
+              const effective = getEffectiveNextSpawn(row, resource, Date.now());
+              const displayValue = getDisplayValue(
+                row,
+                resource,
+                locale,
+                Date.now(),
+                timeZone
+              );
+              const minutesValue =
+                minutesToAdd[resource.id] ?? resource.default_respawn_minutes;
+              const isEditing = canEdit && Boolean(editing[resource.id]);
+              const attribution = describeTimerAttribution(row, Date.now(), locale);
+              const liveMinecraftClock = minecraftData[resource.id]?.liveClock;
+              const conditionsAtNextSpawn =
+                minecraftData[resource.id]?.conditionsAtSpawn ?? null;
+              const predictedPhaseAtNextSpawn = conditionsAtNextSpawn?.phase ?? null;
+              const candidatePool = getLocationCandidates(
+                legendaryCandidates,
+                resource.id
+              );
+              const possibleCandidates = getPossibleCandidates(
+                candidatePool,
+                predictedPhaseAtNextSpawn?.phase ?? null,
+                conditionsAtNextSpawn?.weather ?? null
+              );
+
+              return (
+                <article
+                  key={resource.id}
+                  className="flex flex-col gap-4 rounded-lg border border-white/10 bg-white/5 p-4 shadow-md shadow-black/20 sm:gap-3"
+                >
+                  <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+                    <div className="flex items-center gap-3">
+                      <Image
+                        src={resource.icon}
+                        alt=""
+                        width={28}
+                        height={28}
+                        className="opacity-90"
+                      />
+                      <div className="flex flex-col">
+                        <h2 className="flex items-center gap-2 text-lg font-semibold text-white">
+                          {row?.text ?? resource.label}
+                          {canEdit && index < MAX_CARD_HOTKEYS ? (
+                            <kbd
+                              title={t("quickEntry.hotkey", { key: index + 1 })}
+                              className="rounded border border-white/20 px-1 font-mono text-[10px] font-normal text-zinc-400"
+                            >
+                              {index + 1}
+                            </kbd>
+                          ) : null}
+                        </h2>
+                        <p className="text-sm text-zinc-400">
+                          {t("dashboard.nextSpawn")}{" "}
+                          <span className="font-medium text-white">
+                            {displayValue}
+                          </span>
+                          {effective ? (
+                            <span className="text-xs text-zinc-500">
+                              {" "}
+                              ({formatTime(effective.nextSpawnMs, true)}
+                              {effective.latestMs > effective.earliestMs
+                                ? t("dashboard.spawnWindow", {
+                                    earliest: formatTime(effective.earliestMs),
+                                    latest: formatTime(effective.latestMs),
+                                  })
+                                : ""}
+                              )
+                            </span>
+                          ) : null}
+                          {effective?.projected ? (
+                            <span className="ml-2 rounded border border-dashed border-amber-400/60 px-1.5 py-0.5 text-xs text-amber-200">
+                              {t("dashboard.projected")}
+                            </span>
+                          ) : null}
+                        </p>
+                        {attribution ? (
+                          <p className="text-xs text-zinc-500">{attribution}</p>
+                        ) : null}
+                        {conditionsAtNextSpawn && predictedPhaseAtNextSpawn ? (
+                          <div className="flex flex-wrap items-center gap-2 text-xs text-zinc-500">
+                            <span className="flex items-center gap-2">
+                              {t("dashboard.conditionsAtSpawn")}
+                              {(() => {
+                                const iconSrc = PHASE_ICON_MAP[predictedPhaseAtNextSpawn.phase];
+                                if (!iconSrc) {
+                                  return null;
+                                }
+
+                                return (
+                                  <Image
+                                    src={iconSrc}
+                                    alt={t("dashboard.phaseIconAlt", {
+                                      phase: t(`phase.${predictedPhaseAtNextSpawn.phase}`),
+                                    })}
+                                    width={16}
+                                    height={16}
+                                    className="opacity-80"
+                                  />
+                                );
+                              })()}
+                            </span>
+                            <span className="font-medium text-white">
+                              {t(`phase.${predictedPhaseAtNextSpawn.phase}`)}
+                            </span>
+                            {predictedPhaseAtNextSpawn.timeLabel ? (
+                              <span className="text-zinc-400">
+                                {" "}
+                                (≈ {predictedPhaseAtNextSpawn.timeLabel})
+                              </span>
+                            ) : null}
+                            <span>·</span>
+                            <span
+                              className={
+                                conditionsAtNextSpawn.moonPhase ? "text-white" : undefined
+                              }
+                            >
+                              {conditionsAtNextSpawn.moonPhase &&
+                              conditionsAtNextSpawn.day !== null
+                                ? t("conditions.moonDay", {
+                                    moon: t(`moon.${conditionsAtNextSpawn.moonPhase}`),
+                                    day: conditionsAtNextSpawn.day,
+                                  })
+                                : t("conditions.moonUnknown")}
+                            </span>
+                            <span>·</span>
+                            <span
+                              className={
+                                conditionsAtNextSpawn.weather ? "text-white" : undefined
+                              }
+                            >
+                              {conditionsAtNextSpawn.weather
+                                ? t(`weather.${conditionsAtNextSpawn.weather}`)
+                                : t("conditions.weatherUnknown")}
+                            </span>
+                          </div>
+                        ) : null}
+                        {candidatePool.length > 0 ? (
+                          <p className="text-xs text-zinc-500">
+                            {t("dashboard.possibleLegendaries")}{" "}
+                            <span className="text-white">
+                              {possibleCandidates.length > 0
+                                ? possibleCandidates
+                                    .map((candidate) =>
+                                      candidate.weather.length > 0
+                                        ? `${candidate.name} (${candidate.weather
+                                            .map((weather) => t(`weather.${weather}`))
+                                            .join(", ")})`
+                                        : candidate.name
+                                    )
+                                    .join(", ")
+                                : t("dashboard.noPossibleLegendary")}
+                            </span>
+                          </p>
+                        ) : null}
+                        {minecraftData[resource.id]?.clockStale ? (
+                          <p className="text-xs text-amber-300">
+                            {t("dashboard.clockStale")}
+                          </p>
+                        ) : null}
+                        {minecraftData[resource.id]?.pastRestart ? (
+                          <p className="text-xs text-amber-300">
+                            {t("dashboard.pastRestart")}
+                          </p>
+                        ) : null}
+                      </div>
+                    </div>
+
+                    <div className="flex items-center gap-3">
+                      {canEdit ? (
+                        <>
+                          {effective?.projected ? (
+                            <button
+                              onClick={() =>
+                                void handleConfirmProjection(
+                                  resource,
+                                  effective.nextSpawnMs
+                                )
+                              }
+                              disabled={Boolean(updating[resource.id])}
+                              className="inline-flex items-center rounded-md border border-amber-400/40 px-3 py-1.5 text-xs font-medium text-amber-100 transition hover:border-amber-400/80 hover:bg-amber-400/10 cursor-pointer disabled:cursor-not-allowed disabled:opacity-60"
+                            >
+                              {t("dashboard.confirmProjection")}
+                            </button>
+                          ) : null}
+                          <button
+                            onClick={() => handleToggleEdit(resource.id)}
+                            className="inline-flex items-center rounded-md border border-white/15 px-3 py-1.5 text-xs font-medium text-white transition hover:border-white/40 hover:bg-white/10 cursor-pointer disabled:cursor-not-allowed"
+                          >
+                            {isEditing ? t("common.close") : t("dashboard.edit")}
+                          </button>
+                          {isEditing ? (
+                            <button
+                              onClick={() => handleToggleInGameControls(resource.id)}
+                              className="inline-flex items-center rounded-md border border-white/15 px-3 py-1.5 text-xs font-medium text-white transition hover:border-white/40 hover:bg-white/10 cursor-pointer disabled:cursor-not-allowed"
+                            >
+                              {showInGameControls[resource.id]
+                                ? t("dashboard.ingameTime.hide")
+                                : t("dashboard.ingameTime.show")}
+                            </button>
+                          ) : null}
+                          <button
+                            onClick={() =>
+                              setConfirmingSpawn((prev) => ({
+                                ...prev,
+                                [resource.id]: !prev[resource.id],
+                              }))
+                            }
+                            className="inline-flex items-center rounded-md border border-white/15 px-3 py-1.5 text-xs font-medium text-white transition hover:border-white/40 hover:bg-white/10 cursor-pointer disabled:cursor-not-allowed"
+                          >
+                            {t("dashboard.spawned")}
+                          </button>
+                        </>
+                      ) : null}
+                      {effective ? (
+                        <button
+                          onClick={() =>
+                            void handleCopyDiscordTimestamp(
+                              resource.id,
+                              effective.nextSpawnMs
+                            )
+                          }
+                          title={t("dashboard.copyDiscordHint", {
+                            token: formatDiscordTimestamp(effective.nextSpawnMs, "R"),
+                          })}
+                          className="inline-flex items-center rounded-md border border-indigo-400/40 px-3 py-1.5 text-xs font-medium text-indigo-100 transition hover:border-indigo-400/80 hover:bg-indigo-400/10 cursor-pointer"
+                        >
+                          {copiedResourceId === resource.id
+                            ? t("dashboard.copied")
+                            : t("dashboard.copyDiscord")}
+                        </button>
+                      ) : null}
+                      <button
+                        onClick={() =>
+                          setShowStats((prev) => ({
+                            ...prev,
+                            [resource.id]: !prev[resource.id],
+                          }))
+                        }
+                        className="inline-flex items-center rounded-md border border-white/15 px-3 py-1.5 text-xs font-medium text-white transition hover:border-white/40 hover:bg-white/10 cursor-pointer disabled:cursor-not-allowed"
+                      >
+                        {showStats[resource.id]
+                          ? t("dashboard.stats.hide")
+                          : t("dashboard.stats.show")}
+                      </button>
+                      <button
+                        onClick={() =>
+                          setShowHistory((prev) => ({
+                            ...prev,
+                            [resource.id]: !prev[resource.id],
+                          }))
+                        }
+                        className="inline-flex items-center rounded-md border border-white/15 px-3 py-1.5 text-xs font-medium text-white transition hover:border-white/40 hover:bg-white/10 cursor-pointer disabled:cursor-not-allowed"
+                      >
+                        {showHistory[resource.id]
+                          ? t("dashboard.history.hide")
+                          : t("dashboard.history.show")}
+                      </button>
+                    </div>
+                  </div>
+
+                  {isEditing ? (
+                    <>
+                      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-end">
+                        <label
+                          htmlFor={`${resource.id}-minutes`}
+                          className="text-sm text-zinc-300"
+                        >
+                          {t("dashboard.nextAttempt")}
+                        </label>
+                        <div className="flex items-center gap-2">
+                          <input
+                            id={`${resource.id}-minutes`}
+                            type="number"
+                            inputMode="numeric"
+                            min={1}
+                            max={720}
+                            value={minutesValue}
+                            onChange={(event) =>
+                              handleMinutesChange(resource.id, event.target.value)
+                            }
+                            className="h-9 w-20 rounded-md border border-white/20 bg-black/40 px-2 text-sm text-white outline-none transition focus:border-white/60 focus:ring-2 focus:ring-white/20"
+                          />
+                          <span className="text-sm text-zinc-400">
+                            {t("common.minutesShort")}
+                          </span>
+                          <input
+                            id={`${resource.id}-seconds`}
+                            type="number"
+                            inputMode="numeric"
+                            min={0}
+                            max={59}
+                            value={secondsToAdd[resource.id] ?? 0}
+                            onChange={(event) => {
+                              const parsed = Number.parseInt(event.target.value, 10);
+                              setSecondsToAdd((prev) => ({
+                                ...prev,
+                                [resource.id]: Number.isNaN(parsed) ? 0 : parsed,
+                              }));
+                            }}
+                            className="h-9 w-16 rounded-md border border-white/20 bg-black/40 px-2 text-sm text-white outline-none transition focus:border-white/60 focus:ring-2 focus:ring-white/20"
+                          />
+                          <span className="text-sm text-zinc-400">
+                            {t("common.secondsShort")}
+                          </span>
+                          <button
+                            onClick={() => handleAddMinutes(resource.id)}
+                            disabled={isRowUpdating(resource.id)}
+                            className="inline-flex h-9 w-9 items-center justify-center rounded-full bg-lime-400 text-zinc-950 transition hover:bg-lime-300 disabled:cursor-not-allowed disabled:opacity-60 cursor-pointer"
+                            aria-label={t("dashboard.saveNextSpawn")}
+                          >
+                            <svg
+                              viewBox="0 0 24 24"
+                              fill="none"
+                              stroke="currentColor"
+                              strokeWidth="2"
+                              strokeLinecap="round"
+                              strokeLinejoin="round"
+                              className="h-4 w-4"
+                              aria-hidden="true"
+                            >
+                              <path d="M12 5v14M5 12h14" />
+                            </svg>
+                          </button>
+                        </div>
+                      </div>
+                      {(() => {
+                        const preview = previewSpawnPhase(
+                          resolveClockAnchor(
+                            row?.ingame_time ? row : latestClockAnchor
+                          ).anchor,
+                          minutesValue,
+                          secondsToAdd[resource.id] ?? 0,
+                          new Date()
+                        );
+
+                        if (!preview) {
+                          return null;
+                        }
+
+                        return (
+                          <p className="text-right text-xs text-zinc-400">
+                            {t("dashboard.wouldLandAt", {
+                              time: formatTime(preview.nextSpawn, true),
+                            })}{" "}
+                            <span className="font-medium text-white">
+                              {t(`phase.${preview.predicted.phase}`)}
+                            </span>
+                            {preview.predicted.timeLabel
+                              ? ` (≈ ${preview.predicted.timeLabel})`
+                              : ""}
+                          </p>
+                        );
+                      })()}
+
+                      {showInGameControls[resource.id] ? (
+                        <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-end">
+                          <label
+                            htmlFor={`${resource.id}-ingame`}
+                            className="text-sm text-zinc-300"
+                          >
+                            {t("dashboard.observedIngameTime")}
+                          </label>
+                          <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:gap-3">
+                            <input
+                              id={`${resource.id}-ingame`}
+                              type="time"
+                              step={60}
+                              value={inGameTimeInputs[resource.id] ?? ""}
+                              onChange={(event) =>
+                                handleInGameTimeChange(resource.id, event.target.value)
+                              }
+                              className="h-9 rounded-md border border-white/20 bg-black/40 px-3 text-sm text-white outline-none transition focus:border-white/60 focus:ring-2 focus:ring-white/20"
+                            />
+                            <span className="text-xs text-zinc-400 sm:text-sm">
+                              {(() => {
+                                const preview = getPhasePreviewFromInGameTime(
+                                  inGameTimeInputs[resource.id] ?? ""
+                                );
+
+                                if (!preview) {
+                                  return t("dashboard.phasePreviewHint");
+                                }
+
+                                const suffix = preview.timeLabel
+                                  ? ` (≈ ${preview.timeLabel})`
+                                  : "";
+
+                                return `${t("dashboard.phasePreview", {
+                                  phase: t(`phase.${preview.phase}`),
+                                })}${suffix}`;
+                              })()}
+                            </span>
+                            <button
+                              onClick={() => handleSaveInGameTime(resource.id)}
+                              disabled={savingInGameTime[resource.id]}
+                              className="inline-flex items-center rounded-md border border-white/15 px-3 py-1.5 text-xs font-medium text-white transition hover:border-white/40 hover:bg-white/10 cursor-pointer disabled:cursor-not-allowed disabled:opacity-60"
+                              type="button"
+                            >
+                              {savingInGameTime[resource.id]
+                                ? t("common.saving")
+                                : t("common.save")}
+                            </button>
+                          </div>
+                        </div>
+                      ) : null}
+                    </>
+                  ) : null}
+
+                  {canEdit && confirmingSpawn[resource.id] ? (
+                    <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-end">
+                      <label
+                        htmlFor={`${resource.id}-legendary`}
+                        className="text-sm text-zinc-300"
+                      >
+                        {t("dashboard.legendarySpawned")}
+                      </label>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <input
+                          id={`${resource.id}-legendary`}
+                          type="text"
+                          list={`${resource.id}-legendary-options`}
+                          placeholder={t("dashboard.optional")}
+                          value={legendaryInputs[resource.id] ?? ""}
+                          onChange={(event) =>
+                            setLegendaryInputs((prev) => ({
+                              ...prev,
+                              [resource.id]: event.target.value,
+                            }))
+                          }
+                          className="h-9 w-40 rounded-md border border-white/20 bg-black/40 px-2 text-sm text-white outline-none transition focus:border-white/60 focus:ring-2 focus:ring-white/20"
+                        />
+                        <datalist id={`${resource.id}-legendary-options`}>
+                          {candidatePool.map((candidate) => (
+                            <option key={candidate.id} value={candidate.name} />
+                          ))}
+                        </datalist>
+                        <input
+                          aria-label={t("dashboard.caughtBy")}
+                          type="text"
+                          placeholder={t("dashboard.caughtBy")}
+                          value={caughtByInputs[resource.id] ?? ""}
+                          onChange={(event) =>
+                            setCaughtByInputs((prev) => ({
+                              ...prev,
+                              [resource.id]: event.target.value,
+                            }))
+                          }
+                          className="h-9 w-36 rounded-md border border-white/20 bg-black/40 px-2 text-sm text-white outline-none transition focus:border-white/60 focus:ring-2 focus:ring-white/20"
+                        />
+                        <button
+                          onClick={() => handleConfirmSpawn(resource.id)}
+                          disabled={recordingSpawn[resource.id]}
+                          className="inline-flex items-center rounded-md border border-white/15 px-3 py-1.5 text-xs font-medium text-white transition hover:border-white/40 hover:bg-white/10 cursor-pointer disabled:cursor-not-allowed disabled:opacity-60"
+                          type="button"
+                        >
+                          {recordingSpawn[resource.id]
+                            ? t("common.saving")
+                            : t("dashboard.confirmSpawn")}
+                        </button>
+                      </div>
+                    </div>
+                  ) : null}
+
+                  {showStats[resource.id] ? (
+                    <SpawnStatsPanel
+                      key={`${resource.id}-${statsVersion}`}
+                      client={supabaseClient}
+                      locationId={resource.id}
+                    />
+                  ) : null}
+
+                  {showHistory[resource.id] ? (
+                    <TimerHistoryPanel
+                      // Reloaded whenever the row changes.
+                      key={`${resource.id}-${row?.updated_at ?? ""}`}
+                      client={supabaseClient}
+                      locationId={resource.id}
+                      canRevert={canEdit}
+                      busy={Boolean(reverting[resource.id])}
+                      onRevert={(change) => void handleRevertChange(resource, change)}
+                    />
+                  ) : null}
+                </article>
+              );
+            })}
+          </section>
+        )}
+      </main>
+
+      {quickEntryInput !== null ? (
+        <QuickEntryBar
+          resources={resources}
+          initialInput={quickEntryInput}
+          onSpawnOffset={handleQuickSpawnOffset}
+          onInGameTime={handleQuickInGameTime}
+          onClose={handleCloseQuickEntry}
+        />
+      ) : null}
+
+      {lastAction ? (
+        <UndoToast
+          message={
+            lastAction.field === "next_spawn"
+              ? t("undo.nextSpawn", {
+                  label: lastAction.resource.label,
+                  time: formatTime(
+                    new Date(
+                      timers[lastAction.resource.id]?.next_spawn ?? Date.now()
+                    )
+                  ),
+                })
+              : t("undo.ingameTime", {
+                  label: lastAction.resource.label,
+                  time: timers[lastAction.resource.id]?.ingame_time ?? "",
+                })
+          }
+          busy={undoing}
+          onUndo={() => void handleUndo()}
+          onDismiss={handleDismissUndo}
+        />
+      ) : null}
+
+      {conflict ? (
+        <ConflictDialog
+          resourceLabel={conflict.resource.label}
+          fieldLabel={
+            conflict.field === "next_spawn"
+              ? t("conflict.field.nextSpawn")
+              : t("conflict.field.ingameTime")
+          }
+          attemptedValue={
+            conflict.field === "next_spawn"
+              ? formatTime(conflict.nextSpawn, true)
+              : conflict.ingameTime
+          }
+          currentValue={
+            (conflict.field === "next_spawn"
+              ? conflict.current?.next_spawn &&
+                formatTime(new Date(conflict.current.next_spawn), true)
+              : conflict.current?.ingame_time) || t("conflict.noValue")
+          }
+          currentAttribution={describeTimerAttribution(
+            conflict.current ?? undefined,
+            Date.now(),
+            locale
+          )}
+          busy={resolvingConflict}
+          onOverwrite={() => void handleResolveConflict(true)}
+          onKeepCurrent={() => void handleResolveConflict(false)}
+        />
+      ) : null}
+    </div>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,256 @@
+"use client";
+
+import Image from "next/image";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { SupabaseClient } from "@supabase/supabase-js";
+
+import { useI18n } from "@/hooks/useI18n";
+import {
+  CLOCK_OBSERVATION_WINDOW_MS,
+  ClockModel,
+  fetchClockObservations,
+  fitClockModel,
+} from "@/lib/clockDrift";
+import { PHASE_ICON_MAP } from "@/lib/minecraftTime";
+import {
+  OverlayOptions,
+  OverlayVariant,
+  selectOverlayResources,
+} from "@/lib/overlay";
+import { buildRestartCalendar } from "@/lib/restartSchedule";
+import { fetchServers, GameServer, getServerTitle } from "@/lib/servers";
+import { deriveMinecraftData, getDisplayValue } from "@/lib/spawnDisplay";
+import { fetchSpawnLocations, SpawnLocation } from "@/lib/spawnLocations";
+import { getLatestClockAnchor } from "@/lib/spawnTimeline";
+import { fetchSpawnTimersForLocations } from "@/lib/spawnTimerStore";
+import { mergeSpawnTimerChange, TimersState } from "@/lib/spawnTimers";
+import {
+  SpawnTimersConnectionStatus,
+  startSpawnTimersSync,
+} from "@/lib/spawnTimersRealtime";
+import { getSupabaseBrowserClient } from "@/lib/supabaseClient";
+
+type SpawnOverlayProps = {
+  variant: OverlayVariant;
+  options: OverlayOptions;
+};
+
+// Countdowns only move by the second here, unlike the dashboard's clock.
+const TICK_MS = 1_000;
+
+/**
+ * Read-only countdowns for stream overlays and website embeds. Shares the
+ * dashboard's display and clock derivations, without any edit control.
+ */
+export default function SpawnOverlay({ variant, options }: SpawnOverlayProps) {
+  const { serverId, resourceIds, theme } = options;
+  const { locale, t, timeZone } = useI18n();
+  const [supabaseClient] = useState<SupabaseClient>(() =>
+    getSupabaseBrowserClient()
+  );
+  const [servers, setServers] = useState<GameServer[]>([]);
+  const [locations, setLocations] = useState<SpawnLocation[]>([]);
+  const [locationsLoaded, setLocationsLoaded] = useState<boolean>(false);
+  const [timers, setTimers] = useState<TimersState>({});
+  const [clockModel, setClockModel] = useState<ClockModel | null>(null);
+  const [connectionStatus, setConnectionStatus] =
+    useState<SpawnTimersConnectionStatus>("connecting");
+  const [error, setError] = useState<string | null>(null);
+  const [nowMs, setNowMs] = useState<number>(() => Date.now());
+
+  const resources = useMemo(
+    () => selectOverlayResources(locations, resourceIds),
+    [locations, resourceIds]
+  );
+  const currentServer = useMemo(
+    () => servers.find((server) => server.id === serverId) ?? null,
+    [serverId, servers]
+  );
+  // Rebuilt once a day rather than on every tick.
+  const restartCalendarFromMs =
+    Math.floor(nowMs / (24 * 60 * 60 * 1000)) * 24 * 60 * 60 * 1000;
+  const restartCalendar = useMemo(
+    () => buildRestartCalendar(currentServer, restartCalendarFromMs),
+    [currentServer, restartCalendarFromMs]
+  );
+  const latestObservationAt =
+    getLatestClockAnchor(timers)?.ingame_time_saved_at ?? null;
+  const lastReportedRestartAt = currentServer?.last_restart_at ?? null;
+
+  useEffect(() => {
+    const intervalId = window.setInterval(() => setNowMs(Date.now()), TICK_MS);
+
+    return () => window.clearInterval(intervalId);
+  }, []);
+
+  useEffect(() => {
+    void fetchServers(supabaseClient).then((result) => {
+      if (result.error) {
+        console.warn("servers unavailable, using default server", result.error);
+      }
+
+      setServers(result.servers);
+    });
+  }, [supabaseClient]);
+
+  useEffect(() => {
+    void fetchSpawnLocations(supabaseClient, serverId).then(
+      ({ locations: fetchedLocations, error: locationsError }) => {
+        if (locationsError) {
+          console.warn(
+            "spawn_locations unavailable, using default locations",
+            locationsError
+          );
+        }
+
+        setLocations(fetchedLocations);
+        setLocationsLoaded(true);
+      }
+    );
+  }, [serverId, supabaseClient]);
+
+  useEffect(() => {
+    void fetchClockObservations(
+      supabaseClient,
+      [serverId],
+      Date.now() - CLOCK_OBSERVATION_WINDOW_MS
+    )
+      .then((observations) => setClockModel(fitClockModel(observations)))
+      .catch((caughtError) => {
+        console.warn(
+          "clock_observations unavailable, using the saved in-game time",
+          caughtError
+        );
+      });
+  }, [lastReportedRestartAt, latestObservationAt, serverId, supabaseClient]);
+
+  const fetchTimers = useCallback(
+    () =>
+      fetchSpawnTimersForLocations(supabaseClient, resources)
+        .then((byLocationId) => {
+          setTimers(Object.fromEntries(byLocationId));
+          setError(null);
+        })
+        .catch((caughtError: unknown) => {
+          console.error("Supabase select error", caughtError);
+          setError(
+            t("dashboard.loadError", {
+              details:
+                caughtError instanceof Error
+                  ? caughtError.message
+                  : t("common.unknownError"),
+            })
+          );
+        }),
+    [resources, supabaseClient, t]
+  );
+
+  useEffect(() => {
+    if (locationsLoaded) {
+      void fetchTimers();
+    }
+  }, [fetchTimers, locationsLoaded]);
+
+  useEffect(() => {
+    if (!locationsLoaded) {
+      return;
+    }
+
+    return startSpawnTimersSync({
+      client: supabaseClient,
+      serverId,
+      onChange: (change) =>
+        setTimers((prev) => mergeSpawnTimerChange(prev, change, resources)),
+      onStatusChange: setConnectionStatus,
+      onResync: fetchTimers,
+    });
+  }, [fetchTimers, locationsLoaded, resources, serverId, supabaseClient]);
+
+  const transparent = theme === "transparent";
+  const cards = resources.map((resource) => ({
+    resource,
+    row: timers[resource.id],
+    data: deriveMinecraftData(
+      timers[resource.id],
+      resource,
+      clockModel,
+      currentServer,
+      nowMs,
+      restartCalendar
+    ),
+  }));
+  // Every timer extrapolates the same server clock.
+  const liveClock = cards.find((card) => card.data.liveClock)?.data.liveClock;
+
+  return (
+    <main
+      data-overlay-theme={theme}
+      className={`flex min-h-screen flex-col gap-2 p-3 text-white ${
+        transparent ? "bg-transparent" : "bg-zinc-950"
+      }`}
+    >
+      {variant === "embed" ? (
+        <header className="flex items-center justify-between gap-3 text-sm">
+          <span className="font-semibold">
+            {getServerTitle(currentServer ?? { name: serverId })}
+          </span>
+          <a
+            href={`/${encodeURIComponent(serverId)}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-xs text-lime-300 transition hover:text-lime-200"
+          >
+            {t("overlay.openDashboard")}
+          </a>
+        </header>
+      ) : null}
+
+      {liveClock ? (
+        <p className="text-xs text-zinc-300 [text-shadow:0_1px_2px_rgb(0_0_0)]">
+          {t("overlay.minecraftClock", {
+            clock: liveClock.clock,
+            phase: t(`phase.${liveClock.phaseDetails.phase}`),
+          })}
+        </p>
+      ) : null}
+
+      <ul className="flex flex-col gap-1.5">
+        {cards.map(({ resource, row, data }) => {
+          const phase = data.conditionsAtSpawn?.phase.phase;
+
+          return (
+            <li
+              key={resource.id}
+              className={`flex items-center gap-3 rounded-md px-3 py-1.5 text-sm ${
+                transparent ? "bg-black/55" : "border border-white/10 bg-white/5"
+              }`}
+            >
+              <Image src={resource.icon} alt="" width={20} height={20} />
+              <span className="font-medium">{resource.label}</span>
+              <span className="ml-auto font-mono tabular-nums">
+                {getDisplayValue(row, resource, locale, nowMs, timeZone)}
+              </span>
+              {phase ? (
+                <Image
+                  src={PHASE_ICON_MAP[phase]}
+                  alt={t("dashboard.phaseIconAlt", { phase: t(`phase.${phase}`) })}
+                  title={t(`phase.${phase}`)}
+                  width={18}
+                  height={18}
+                />
+              ) : null}
+            </li>
+          );
+        })}
+      </ul>
+
+      {locationsLoaded && resources.length === 0 ? (
+        <p className="text-xs text-zinc-400">{t("overlay.empty")}</p>
+      ) : null}
+      {connectionStatus === "disconnected" ? (
+        <p className="text-xs text-amber-300">{t("overlay.reconnecting")}</p>
+      ) : null}
+      {error ? <p className="text-xs text-red-300">{error}</p> : null}
+    </main>
+  );
+}
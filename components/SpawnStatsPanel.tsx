@@ -0,0 +1,170 @@
+"use client";
+
+import Image from "next/image";
+import { useEffect, useMemo, useState } from "react";
+import { SupabaseClient } from "@supabase/supabase-js";
+
+import { useI18n } from "@/hooks/useI18n";
+import { formatNumber } from "@/lib/i18n";
+import { MINECRAFT_PHASES, PHASE_ICON_MAP } from "@/lib/minecraftTime";
+import { fetchSpawnEvents, SpawnEvent } from "@/lib/spawnEvents";
+import { computeSpawnStats } from "@/lib/spawnStats";
+
+type SpawnStatsPanelProps = {
+  client: SupabaseClient;
+  locationId: string;
+};
+
+const STATS_PERIOD_DAYS = 30;
+const RECENT_SPAWNS_LIMIT = 5;
+
+const DATE_TIME_FORMAT: Intl.DateTimeFormatOptions = {
+  day: "2-digit",
+  month: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+};
+
+export default function SpawnStatsPanel({
+  client,
+  locationId,
+}: SpawnStatsPanelProps) {
+  const { formatDateTime, locale, t } = useI18n();
+  const [events, setEvents] = useState<SpawnEvent[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [loadedAt, setLoadedAt] = useState<number>(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    const since = new Date(Date.now() - STATS_PERIOD_DAYS * 24 * 60 * 60 * 1000);
+
+    fetchSpawnEvents(client, locationId, since)
+      .then((fetched) => {
+        if (!cancelled) {
+          setEvents(fetched);
+          setLoadedAt(Date.now());
+          setError(null);
+        }
+      })
+      .catch((caughtError: unknown) => {
+        console.error("Supabase spawn_events error", caughtError);
+        if (!cancelled) {
+          setError(
+            t("stats.loadError", {
+              details:
+                caughtError instanceof Error
+                  ? caughtError.message
+                  : t("common.unknownError"),
+            })
+          );
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [client, locationId, t]);
+
+  const stats = useMemo(
+    () => computeSpawnStats(events, loadedAt),
+    [events, loadedAt]
+  );
+
+  const recentSpawns = useMemo(
+    () =>
+      events
+        .filter((event) => event.kind === "spawned")
+        .slice(-RECENT_SPAWNS_LIMIT)
+        .reverse(),
+    [events]
+  );
+
+  if (loading) {
+    return <p className="text-xs text-zinc-500">{t("stats.loading")}</p>;
+  }
+
+  if (error) {
+    return <p className="text-xs text-red-300">{error}</p>;
+  }
+
+  return (
+    <div className="flex flex-col gap-3 rounded-md border border-white/10 bg-black/20 p-3 text-xs text-zinc-400">
+      <div className="flex flex-wrap gap-x-6 gap-y-1">
+        <span>
+          {t("stats.spawns", { days: STATS_PERIOD_DAYS })}{" "}
+          <span className="font-medium text-white">{stats.spawnCount}</span>
+        </span>
+        <span>
+          {t("stats.averageInterval")}{" "}
+          <span className="font-medium text-white">
+            {stats.averageIntervalMinutes === null
+              ? "—"
+              : `${formatNumber(locale, stats.averageIntervalMinutes)} ${t(
+                  "common.minutesShort"
+                )}`}
+          </span>
+        </span>
+        <span>
+          {t("stats.spawnsPerDay")}{" "}
+          <span className="font-medium text-white">
+            {stats.spawnsPerDay === null
+              ? "—"
+              : formatNumber(locale, stats.spawnsPerDay)}
+          </span>
+        </span>
+      </div>
+
+      <ul className="flex flex-col gap-1">
+        {MINECRAFT_PHASES.map((phase) => {
+          const count = stats.phaseDistribution[phase];
+          const share = stats.spawnCount > 0 ? count / stats.spawnCount : 0;
+
+          return (
+            <li key={phase} className="flex items-center gap-2">
+              <Image
+                src={PHASE_ICON_MAP[phase]}
+                alt=""
+                width={14}
+                height={14}
+                className="opacity-80"
+              />
+              <span className="w-20">{t(`phase.${phase}`)}</span>
+              <span className="h-1.5 flex-1 overflow-hidden rounded-full bg-white/10">
+                <span
+                  className="block h-full rounded-full bg-lime-400/70"
+                  style={{ width: `${Math.round(share * 100)}%` }}
+                />
+              </span>
+              <span className="w-8 text-right text-white">{count}</span>
+            </li>
+          );
+        })}
+      </ul>
+
+      {recentSpawns.length > 0 ? (
+        <ul className="flex flex-col gap-1 border-t border-white/10 pt-2">
+          {recentSpawns.map((event) => (
+            <li key={event.id}>
+              {formatDateTime(new Date(event.occurred_at), DATE_TIME_FORMAT)}
+              {event.phase ? ` · ${t(`phase.${event.phase}`)}` : ""}
+              {event.legendary ? (
+                <span className="text-white"> · {event.legendary}</span>
+              ) : null}
+              {event.caught_by
+                ? ` · ${t("stats.caughtBy", { name: event.caught_by })}`
+                : ""}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p>{t("stats.empty")}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+"use client";
+
+import Image from "next/image";
+import { useEffect, useState } from "react";
+
+import { useI18n } from "@/hooks/useI18n";
+import {
+  getMinecraftPhaseBands,
+  MinecraftClockAnchor,
+  MinecraftPhase,
+} from "@/lib/minecraftTime";
+import type { SpawnRecurrence } from "@/lib/spawnRecurrence";
+import {
+  DEFAULT_TIMELINE_ZOOM_HOURS,
+  getTimelineMarkers,
+  getTimelineWindow,
+  TIMELINE_ZOOM_HOURS,
+} from "@/lib/spawnTimeline";
+import type { TimersState } from "@/lib/spawnTimers";
+
+type SpawnTimelineProps = {
+  resources: Array<{ id: string; label: string; icon: string } & SpawnRecurrence>;
+  timers: TimersState;
+  // The server anchor from resolveServerClockAnchor.
+  clockAnchor: MinecraftClockAnchor | undefined;
+  // Spawns past the next scheduled restart are drawn as unreliable.
+  nextRestartMs: number | null;
+};
+
+const PHASE_BAND_CLASS_MAP: Record<MinecraftPhase, string> = {
+  dawn: "bg-orange-300/30",
+  morning: "bg-sky-300/30",
+  afternoon: "bg-yellow-200/30",
+  dusk: "bg-rose-400/30",
+  night: "bg-indigo-900/60",
+};
+
+const LANE_HEIGHT_PX = 36;
+
+const getTickStepMs = (zoomHours: number) =>
+  (zoomHours <= 3 ? 30 : zoomHours <= 6 ? 60 : 120) * 60 * 1000;
+
+export default function SpawnTimeline({
+  resources,
+  timers,
+  clockAnchor: anchor,
+  nextRestartMs,
+}: SpawnTimelineProps) {
+  const { formatTime, t, timeZone } = useI18n();
+  const [zoomHours, setZoomHours] = useState<number>(DEFAULT_TIMELINE_ZOOM_HOURS);
+  const [nowMs, setNowMs] = useState<number>(() => Date.now());
+
+  useEffect(() => {
+    const intervalId = window.setInterval(() => setNowMs(Date.now()), 1_000);
+
+    return () => window.clearInterval(intervalId);
+  }, []);
+
+  const { startMs, endMs } = getTimelineWindow(nowMs, zoomHours);
+  const spanMs = endMs - startMs;
+  const bands = getMinecraftPhaseBands(anchor, startMs, endMs);
+  const markers = getTimelineMarkers(
+    timers,
+    resources,
+    anchor,
+    startMs,
+    endMs,
+    nowMs
+  );
+  const laneCount = Math.max(1, ...markers.map((marker) => marker.lane + 1));
+  const tickStepMs = getTickStepMs(zoomHours);
+  const ticks: number[] = [];
+
+  for (
+    let tickMs = Math.ceil(startMs / tickStepMs) * tickStepMs;
+    tickMs <= endMs;
+    tickMs += tickStepMs
+  ) {
+    ticks.push(tickMs);
+  }
+
+  const toPercent = (ms: number) => `${((ms - startMs) / spanMs) * 100}%`;
+
+  return (
+    <section className="flex flex-col gap-3 rounded-lg border border-white/10 bg-white/5 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-lg font-semibold text-white">
+          {t("timeline.title")}{" "}
+          <span className="text-xs font-normal text-zinc-500">({timeZone})</span>
+        </h2>
+        <div className="flex items-center gap-2" role="group" aria-label={t("timeline.zoom")}>
+          {TIMELINE_ZOOM_HOURS.map((hours) => (
+            <button
+              key={hours}
+              onClick={() => setZoomHours(hours)}
+              aria-pressed={zoomHours === hours}
+              className={`inline-flex items-center rounded-md border px-2 py-1 text-xs font-medium transition cursor-pointer ${
+                zoomHours === hours
+                  ? "border-lime-400/60 bg-lime-400/10 text-lime-200"
+                  : "border-white/15 text-zinc-300 hover:border-white/40 hover:bg-white/10"
+              }`}
+            >
+              {t("timeline.zoomHours", { hours })}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {!anchor ? (
+        <p className="text-xs text-zinc-500">
+          {t("timeline.noClock")}
+        </p>
+      ) : null}
+
+      <div className="relative overflow-hidden rounded-md border border-white/10 bg-black/30">
+        <div
+          className="relative"
+          style={{ height: laneCount * LANE_HEIGHT_PX + 8 }}
+        >
+          {bands.map((band) => (
+            <div
+              key={band.startMs}
+              title={t(`phase.${band.phase}`)}
+              className={`absolute inset-y-0 ${PHASE_BAND_CLASS_MAP[band.phase]}`}
+              style={{
+                left: toPercent(band.startMs),
+                width: `${((band.endMs - band.startMs) / spanMs) * 100}%`,
+              }}
+            />
+          ))}
+
+          {markers.map((marker) => {
+            const unreliable =
+              nextRestartMs !== null && marker.nextSpawnMs > nextRestartMs;
+
+            return (
+              <div
+                key={marker.resource.id}
+                title={[
+                  `${marker.resource.label} — ${formatTime(marker.nextSpawnMs, true)}${
+                    marker.phase ? ` (${t(`phase.${marker.phase}`)})` : ""
+                  }`,
+                  marker.projected ? t("timeline.projected") : null,
+                  unreliable ? t("timeline.unreliable") : null,
+                ]
+                  .filter(Boolean)
+                  .join(" — ")}
+                className={`absolute flex -translate-x-1/2 items-center gap-1 rounded-full border bg-zinc-950/90 px-1.5 py-0.5 text-xs text-white ${
+                  marker.phase === "night" ? "border-indigo-300" : "border-white/30"
+                } ${marker.projected ? "border-dashed opacity-80" : ""} ${
+                  unreliable ? "text-amber-200" : ""
+                }`}
+                style={{
+                  left: toPercent(marker.nextSpawnMs),
+                  top: 4 + marker.lane * LANE_HEIGHT_PX,
+                }}
+              >
+                <Image src={marker.resource.icon} alt="" width={16} height={16} />
+                <span className="whitespace-nowrap">{marker.resource.label}</span>
+              </div>
+            );
+          })}
+
+          {nextRestartMs !== null &&
+          nextRestartMs >= startMs &&
+          nextRestartMs <= endMs ? (
+            <div
+              className="absolute inset-y-0 w-0.5 bg-red-500"
+              style={{ left: toPercent(nextRestartMs) }}
+              title={t("timeline.restartAt", {
+                time: formatTime(nextRestartMs, true),
+              })}
+            />
+          ) : null}
+
+          <div
+            className="absolute inset-y-0 w-0.5 bg-lime-400"
+            style={{ left: toPercent(nowMs) }}
+            aria-label={t("timeline.now")}
+          />
+        </div>
+
+        <div className="relative h-5 border-t border-white/10 text-[10px] text-zinc-400">
+          {ticks.map((tickMs) => (
+            <span
+              key={tickMs}
+              className="absolute -translate-x-1/2"
+              style={{ left: toPercent(tickMs) }}
+            >
+              {formatTime(tickMs)}
+            </span>
+          ))}
+        </div>
+      </div>
+    </section>
+  );
+}
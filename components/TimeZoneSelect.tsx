@@ -0,0 +1,43 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+
+import { useI18n } from "@/hooks/useI18n";
+import { listTimeZones } from "@/lib/timeZones";
+
+const NO_TIME_ZONES: string[] = [];
+
+let cachedTimeZones: string[] | null = null;
+
+// Snapshots must be stable, and the list never changes once read.
+const getTimeZones = () => (cachedTimeZones ??= listTimeZones());
+
+const subscribeToNothing = () => () => {};
+
+export default function TimeZoneSelect() {
+  const { detectedTimeZone, setTimeZone, t, timeZonePreference } = useI18n();
+  // The server runtime may know other zones than the browser, so the options
+  // are only filled after hydration, like the preferences in I18nProvider.
+  const timeZones = useSyncExternalStore(
+    subscribeToNothing,
+    getTimeZones,
+    () => NO_TIME_ZONES
+  );
+
+  return (
+    <select
+      aria-label={t("timeZone.label")}
+      title={t("timeZone.label")}
+      value={timeZonePreference ?? ""}
+      onChange={(event) => setTimeZone(event.target.value || null)}
+      className="h-7 max-w-48 rounded-md border border-white/15 bg-black/40 px-2 text-xs text-zinc-300 outline-none transition focus:border-white/60 focus:ring-2 focus:ring-white/20"
+    >
+      <option value="">{t("timeZone.auto", { zone: detectedTimeZone })}</option>
+      {timeZones.map((timeZone) => (
+        <option key={timeZone} value={timeZone}>
+          {timeZone}
+        </option>
+      ))}
+    </select>
+  );
+}
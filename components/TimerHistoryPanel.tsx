@@ -0,0 +1,141 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { SupabaseClient } from "@supabase/supabase-js";
+
+import { useI18n } from "@/hooks/useI18n";
+import {
+  canRevertChange,
+  fetchSpawnTimerRevisions,
+  getRevisionChanges,
+  RevisionChange,
+  SpawnTimerRevision,
+} from "@/lib/spawnTimerRevisions";
+
+type TimerHistoryPanelProps = {
+  client: SupabaseClient;
+  locationId: string;
+  canRevert: boolean;
+  busy: boolean;
+  onRevert: (change: RevisionChange) => void;
+};
+
+const DATE_TIME_FORMAT: Intl.DateTimeFormatOptions = {
+  day: "2-digit",
+  month: "2-digit",
+  hour: "2-digit",
+  minute: "2-digit",
+};
+
+export default function TimerHistoryPanel({
+  client,
+  locationId,
+  canRevert,
+  busy,
+  onRevert,
+}: TimerHistoryPanelProps) {
+  const { formatDateTime, formatTime, t } = useI18n();
+  const [revisions, setRevisions] = useState<SpawnTimerRevision[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchSpawnTimerRevisions(client, locationId)
+      .then((fetched) => {
+        if (!cancelled) {
+          setRevisions(fetched);
+          setError(null);
+        }
+      })
+      .catch((caughtError: unknown) => {
+        console.error("Supabase spawn_timer_revisions error", caughtError);
+        if (!cancelled) {
+          setError(
+            t("history.loadError", {
+              details:
+                caughtError instanceof Error
+                  ? caughtError.message
+                  : t("common.unknownError"),
+            })
+          );
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [client, locationId, t]);
+
+  const formatValue = (change: RevisionChange, value: string | null) => {
+    if (value === null) {
+      return t("conflict.noValue");
+    }
+
+    return change.field === "next_spawn" ? formatTime(new Date(value), true) : value;
+  };
+
+  if (loading) {
+    return <p className="text-xs text-zinc-500">{t("history.loading")}</p>;
+  }
+
+  if (error) {
+    return <p className="text-xs text-red-300">{error}</p>;
+  }
+
+  if (revisions.length === 0) {
+    return <p className="text-xs text-zinc-500">{t("history.empty")}</p>;
+  }
+
+  return (
+    <ol className="flex flex-col gap-2 rounded-md border border-white/10 bg-black/20 p-3 text-xs text-zinc-400">
+      {revisions.map((revision) => (
+        <li key={revision.id} className="flex flex-col gap-1">
+          <span>
+            {formatDateTime(new Date(revision.changed_at), DATE_TIME_FORMAT)}
+            {revision.changed_by_name
+              ? ` · ${t("history.by", { name: revision.changed_by_name })}`
+              : ""}
+          </span>
+          {getRevisionChanges(revision).map((change) => (
+            <span key={change.field} className="flex flex-wrap items-center gap-2">
+              <span>
+                {t("history.field", {
+                  field:
+                    change.field === "next_spawn"
+                      ? t("conflict.field.nextSpawn")
+                      : t("conflict.field.ingameTime"),
+                })}{" "}
+                <span className="text-zinc-500 line-through">
+                  {formatValue(change, change.oldValue)}
+                </span>
+                {" → "}
+                <span className="font-medium text-white">
+                  {formatValue(change, change.newValue)}
+                </span>
+              </span>
+              {canRevert ? (
+                <button
+                  onClick={() => onRevert(change)}
+                  disabled={busy || !canRevertChange(change)}
+                  title={
+                    canRevertChange(change) ? undefined : t("history.nothingToRestore")
+                  }
+                  className="inline-flex items-center rounded border border-white/15 px-2 py-0.5 text-[11px] font-medium text-white transition hover:border-white/40 hover:bg-white/10 cursor-pointer disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  {t("history.revert")}
+                </button>
+              ) : null}
+            </span>
+          ))}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,84 @@
+"use client";
+
+import { useEffect } from "react";
+
+import { useI18n } from "@/hooks/useI18n";
+import { isTypingTarget } from "@/hooks/useQuickEntryHotkeys";
+
+type UndoToastProps = {
+  message: string;
+  busy: boolean;
+  onUndo: () => void;
+  onDismiss: () => void;
+};
+
+// Grace period during which the last save can be undone.
+const UNDO_TOAST_MS = 10_000;
+
+export default function UndoToast({
+  message,
+  busy,
+  onUndo,
+  onDismiss,
+}: UndoToastProps) {
+  const { t } = useI18n();
+
+  useEffect(() => {
+    if (busy) {
+      return;
+    }
+
+    const timeoutId = window.setTimeout(onDismiss, UNDO_TOAST_MS);
+
+    return () => window.clearTimeout(timeoutId);
+  }, [busy, message, onDismiss]);
+
+  useEffect(() => {
+    if (busy) {
+      return;
+    }
+
+    // Ctrl+Z in a form field keeps undoing the typing instead.
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (
+        (event.ctrlKey || event.metaKey) &&
+        !event.shiftKey &&
+        event.key.toLowerCase() === "z" &&
+        !isTypingTarget(event.target)
+      ) {
+        event.preventDefault();
+        onUndo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [busy, onUndo]);
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-6 left-1/2 z-40 flex -translate-x-1/2 items-center gap-4 rounded-lg border border-white/15 bg-zinc-900 px-4 py-3 text-sm text-zinc-200 shadow-xl"
+    >
+      <span>{message}</span>
+      <button
+        onClick={onUndo}
+        disabled={busy}
+        className="font-medium text-lime-300 transition hover:text-lime-200 cursor-pointer disabled:cursor-not-allowed disabled:opacity-60"
+      >
+        {busy ? t("common.saving") : t("undo.action")}
+        <kbd className="ml-2 rounded border border-white/20 px-1 font-mono text-[10px] text-zinc-400">
+          {t("undo.shortcut")}
+        </kbd>
+      </button>
+      <button
+        onClick={onDismiss}
+        aria-label={t("common.close")}
+        className="text-zinc-500 transition hover:text-white cursor-pointer"
+      >
+        ×
+      </button>
+    </div>
+  );
+}
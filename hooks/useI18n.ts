@@ -0,0 +1,7 @@
+"use client";
+
+import { useContext } from "react";
+
+import { I18nContext } from "@/components/I18nProvider";
+
+export const useI18n = () => useContext(I18nContext);
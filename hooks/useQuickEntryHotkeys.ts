@@ -0,0 +1,65 @@
+"use client";
+
+import { useEffect } from "react";
+
+// Number keys address the first nine cards.
+export const MAX_CARD_HOTKEYS = 9;
+
+type UseQuickEntryHotkeysOptions = {
+  enabled: boolean;
+  resources: Array<{ label: string }>;
+  // Called with the text to prefill the quick entry bar with.
+  onOpen: (input: string) => void;
+};
+
+export const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+/**
+ * Ctrl+K (Cmd+K on macOS) opens the quick entry bar; 1-9 opens it on the
+ * matching card so only the time remains to be typed. Number keys are
+ * ignored while a form field has the focus.
+ */
+export const useQuickEntryHotkeys = ({
+  enabled,
+  resources,
+  onOpen,
+}: UseQuickEntryHotkeysOptions) => {
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === "k") {
+        event.preventDefault();
+        onOpen("");
+        return;
+      }
+
+      if (
+        event.ctrlKey ||
+        event.metaKey ||
+        event.altKey ||
+        isTypingTarget(event.target)
+      ) {
+        return;
+      }
+
+      const index = Number.parseInt(event.key, 10) - 1;
+      const resource =
+        index >= 0 && index < MAX_CARD_HOTKEYS ? resources[index] : undefined;
+
+      if (resource) {
+        event.preventDefault();
+        onOpen(`${resource.label} `);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [enabled, onOpen, resources]);
+};
@@ -0,0 +1,173 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+
+import { useI18n } from "@/hooks/useI18n";
+import type { AlertPreferences } from "@/lib/alertPreferences";
+import {
+  playAlertSound,
+  registerServiceWorker,
+  showSpawnNotification,
+  subscribeToWebPush,
+  unsubscribeFromWebPush,
+} from "@/lib/browserAlerts";
+import {
+  formatCountdown,
+  getSpawnAlertKey,
+  getSpawnAlertsToFire,
+  getUpcomingSpawns,
+} from "@/lib/spawnCountdown";
+import type { SpawnRecurrence } from "@/lib/spawnRecurrence";
+import type { TimersState } from "@/lib/spawnTimers";
+
+export const BASE_DOCUMENT_TITLE = "CobbleGems — Legendary Info";
+
+type UseSpawnAlertsOptions = {
+  timers: TimersState;
+  resources: Array<{ id: string; label: string } & SpawnRecurrence>;
+  // Null until the stored preferences are loaded, so the defaults never
+  // tear down an existing push subscription.
+  preferences: AlertPreferences | null;
+  // Tab title shown when no spawn is upcoming (per server).
+  baseTitle?: string;
+  // Supabase session token; push subscriptions are tied to the signed-in
+  // user, so signed-out players only get in-tab alerts.
+  accessToken: string | null;
+};
+
+const sendPushSubscriptionRequest = async (
+  method: "POST" | "DELETE",
+  accessToken: string,
+  body: unknown
+) => {
+  const response = await fetch("/api/push/subscriptions", {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${accessToken}`,
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw new Error(`/api/push/subscriptions responded with ${response.status}`);
+  }
+};
+
+const syncPushSubscription = async (
+  preferences: AlertPreferences,
+  accessToken: string | null
+) => {
+  if (!preferences.notifications) {
+    const removed = await unsubscribeFromWebPush();
+
+    // Signed out, the stored row is pruned by the dispatcher once the push
+    // service reports the endpoint as gone.
+    if (removed && accessToken) {
+      await sendPushSubscriptionRequest("DELETE", accessToken, {
+        endpoint: removed.endpoint,
+      });
+    }
+    return;
+  }
+
+  if (!accessToken) {
+    return;
+  }
+
+  const registration = await registerServiceWorker();
+  const subscription = registration
+    ? await subscribeToWebPush(registration)
+    : null;
+
+  if (!subscription) {
+    return;
+  }
+
+  await sendPushSubscriptionRequest("POST", accessToken, {
+    subscription: subscription.toJSON(),
+    watchedLocationIds: preferences.watchedLocationIds,
+    leadMinutes: preferences.leadMinutes,
+  });
+};
+
+/**
+ * Keeps the tab title on the nearest spawn countdown and fires the player's
+ * personal alerts (sound and/or notification) for watched resources. Web Push
+ * registration follows the preferences so alerts also arrive with the tab
+ * closed.
+ */
+export const useSpawnAlerts = ({
+  timers,
+  resources,
+  preferences,
+  baseTitle = BASE_DOCUMENT_TITLE,
+  accessToken,
+}: UseSpawnAlertsOptions) => {
+  const { t } = useI18n();
+  const alertedKeysRef = useRef<Set<string>>(new Set());
+
+  useEffect(() => {
+    const tick = () => {
+      const upcoming = getUpcomingSpawns(timers, resources, Date.now());
+      const [nearest] = upcoming;
+
+      document.title = nearest
+        ? `${formatCountdown(nearest.remainingMs)} · ${nearest.resource.label} — ${baseTitle}`
+        : baseTitle;
+
+      if (!preferences) {
+        return;
+      }
+
+      getSpawnAlertsToFire(
+        upcoming,
+        preferences.watchedLocationIds,
+        preferences.leadMinutes,
+        alertedKeysRef.current
+      ).forEach((spawn) => {
+        alertedKeysRef.current.add(getSpawnAlertKey(spawn));
+
+        if (preferences.sound) {
+          playAlertSound();
+        }
+
+        if (preferences.notifications) {
+          const minutesLeft = Math.max(1, Math.round(spawn.remainingMs / 60_000));
+          void showSpawnNotification(
+            t("notifications.title", {
+              label: spawn.resource.label,
+              minutes: minutesLeft,
+            }),
+            {
+              body: t("notifications.imminent"),
+              // Same tag as server-side Web Push so the two never stack.
+              tag: `spawn-${spawn.resource.id}`,
+              icon: "/pokeball.svg",
+            }
+          );
+        }
+      });
+    };
+
+    tick();
+    const intervalId = window.setInterval(tick, 1_000);
+
+    return () => {
+      window.clearInterval(intervalId);
+      document.title = baseTitle;
+    };
+  }, [baseTitle, preferences, resources, t, timers]);
+
+  useEffect(() => {
+    if (!preferences) {
+      return;
+    }
+
+    syncPushSubscription(preferences, accessToken).catch(
+      (caughtError: unknown) => {
+        console.warn("Web Push subscription sync failed", caughtError);
+      }
+    );
+  }, [accessToken, preferences]);
+};
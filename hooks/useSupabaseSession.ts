@@ -0,0 +1,32 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Session, SupabaseClient } from "@supabase/supabase-js";
+
+export const useSupabaseSession = (client: SupabaseClient) => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [ready, setReady] = useState<boolean>(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    void client.auth.getSession().then(({ data }) => {
+      if (!cancelled) {
+        setSession(data.session);
+        setReady(true);
+      }
+    });
+
+    const { data } = client.auth.onAuthStateChange((_event, nextSession) => {
+      setSession(nextSession);
+      setReady(true);
+    });
+
+    return () => {
+      cancelled = true;
+      data.subscription.unsubscribe();
+    };
+  }, [client]);
+
+  return { session, user: session?.user ?? null, ready };
+};
@@ -0,0 +1,63 @@
+export type AlertPreferences = {
+  watchedLocationIds: string[];
+  leadMinutes: number;
+  sound: boolean;
+  notifications: boolean;
+};
+
+export const ALERT_PREFERENCES_STORAGE_KEY = "legs-info:alert-preferences";
+
+export const DEFAULT_ALERT_PREFERENCES: AlertPreferences = {
+  watchedLocationIds: [],
+  leadMinutes: 5,
+  sound: false,
+  notifications: false,
+};
+
+export const MAX_ALERT_LEAD_MINUTES = 120;
+
+export const sanitizeAlertPreferences = (value: unknown): AlertPreferences => {
+  if (!value || typeof value !== "object") {
+    return DEFAULT_ALERT_PREFERENCES;
+  }
+
+  const candidate = value as Partial<Record<keyof AlertPreferences, unknown>>;
+  const leadMinutes =
+    typeof candidate.leadMinutes === "number" &&
+    Number.isFinite(candidate.leadMinutes)
+      ? Math.min(MAX_ALERT_LEAD_MINUTES, Math.max(1, Math.round(candidate.leadMinutes)))
+      : DEFAULT_ALERT_PREFERENCES.leadMinutes;
+
+  return {
+    watchedLocationIds: Array.isArray(candidate.watchedLocationIds)
+      ? candidate.watchedLocationIds.filter(
+          (id): id is string => typeof id === "string"
+        )
+      : DEFAULT_ALERT_PREFERENCES.watchedLocationIds,
+    leadMinutes,
+    sound: candidate.sound === true,
+    notifications: candidate.notifications === true,
+  };
+};
+
+export const loadAlertPreferences = (): AlertPreferences => {
+  try {
+    const stored = window.localStorage.getItem(ALERT_PREFERENCES_STORAGE_KEY);
+    return stored
+      ? sanitizeAlertPreferences(JSON.parse(stored))
+      : DEFAULT_ALERT_PREFERENCES;
+  } catch {
+    return DEFAULT_ALERT_PREFERENCES;
+  }
+};
+
+export const saveAlertPreferences = (preferences: AlertPreferences) => {
+  try {
+    window.localStorage.setItem(
+      ALERT_PREFERENCES_STORAGE_KEY,
+      JSON.stringify(preferences)
+    );
+  } catch (caughtError) {
+    console.warn("Unable to persist alert preferences", caughtError);
+  }
+};
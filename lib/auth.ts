@@ -0,0 +1,45 @@
+import type { SupabaseClient, User } from "@supabase/supabase-js";
+
+import { DEFAULT_LOCALE, Locale, translate } from "@/lib/i18n";
+
+const getRedirectUrl = () =>
+  typeof window === "undefined" ? undefined : window.location.href;
+
+export const signInWithDiscord = async (client: SupabaseClient) => {
+  const { error } = await client.auth.signInWithOAuth({
+    provider: "discord",
+    options: { redirectTo: getRedirectUrl() },
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+};
+
+export const sendMagicLink = async (client: SupabaseClient, email: string) => {
+  const { error } = await client.auth.signInWithOtp({
+    email,
+    options: { emailRedirectTo: getRedirectUrl() },
+  });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+};
+
+// Mirrors the fallback order of the stamp_spawn_timer_author trigger so the
+// header shows the name that will appear on cards.
+export const getUserDisplayName = (
+  user: User,
+  locale: Locale = DEFAULT_LOCALE
+) => {
+  const metadata = user.user_metadata ?? {};
+
+  return (
+    (metadata.full_name as string | undefined) ??
+    (metadata.name as string | undefined) ??
+    (metadata.user_name as string | undefined) ??
+    user.email?.split("@")[0] ??
+    translate(locale, "auth.unnamedUser")
+  );
+};
@@ -0,0 +1,130 @@
+// Browser-only helpers for personal spawn alerts. Every function checks for
+// the API it needs so callers can use them without feature detection.
+
+export const SERVICE_WORKER_URL = "/sw.js";
+
+export const registerServiceWorker = async () => {
+  if (typeof navigator === "undefined" || !("serviceWorker" in navigator)) {
+    return null;
+  }
+
+  try {
+    return await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  } catch (caughtError) {
+    console.warn("Service worker registration failed", caughtError);
+    return null;
+  }
+};
+
+export const requestNotificationPermission = async () => {
+  if (typeof Notification === "undefined") {
+    return "denied" as NotificationPermission;
+  }
+
+  if (Notification.permission !== "default") {
+    return Notification.permission;
+  }
+
+  return Notification.requestPermission();
+};
+
+export const showSpawnNotification = async (
+  title: string,
+  options: NotificationOptions
+) => {
+  if (typeof Notification === "undefined" || Notification.permission !== "granted") {
+    return;
+  }
+
+  const registration =
+    "serviceWorker" in navigator
+      ? await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL)
+      : undefined;
+
+  if (registration) {
+    await registration.showNotification(title, options);
+    return;
+  }
+
+  new Notification(title, options);
+};
+
+const urlBase64ToUint8Array = (base64: string) => {
+  const padding = "=".repeat((4 - (base64.length % 4)) % 4);
+  const raw = window.atob(
+    (base64 + padding).replace(/-/g, "+").replace(/_/g, "/")
+  );
+
+  return Uint8Array.from(raw, (char) => char.charCodeAt(0));
+};
+
+/**
+ * Subscribes this browser to Web Push when a VAPID public key is configured.
+ * Returns null when push is unsupported or not configured; in-tab
+ * notifications still work in that case.
+ */
+export const subscribeToWebPush = async (
+  registration: ServiceWorkerRegistration
+) => {
+  const vapidPublicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+
+  if (!vapidPublicKey || !("pushManager" in registration)) {
+    return null;
+  }
+
+  const existing = await registration.pushManager.getSubscription();
+
+  if (existing) {
+    return existing;
+  }
+
+  return registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: urlBase64ToUint8Array(vapidPublicKey),
+  });
+};
+
+export const unsubscribeFromWebPush = async () => {
+  if (typeof navigator === "undefined" || !("serviceWorker" in navigator)) {
+    return null;
+  }
+
+  const registration =
+    await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  const subscription = await registration?.pushManager.getSubscription();
+
+  if (!subscription) {
+    return null;
+  }
+
+  await subscription.unsubscribe();
+  return subscription;
+};
+
+let audioContext: AudioContext | null = null;
+
+// Short two-tone chime generated with Web Audio, so no audio asset is needed.
+export const playAlertSound = () => {
+  if (typeof window === "undefined" || typeof AudioContext === "undefined") {
+    return;
+  }
+
+  audioContext ??= new AudioContext();
+  const startAt = audioContext.currentTime;
+
+  [880, 1_320].forEach((frequency, index) => {
+    const context = audioContext as AudioContext;
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    const toneStart = startAt + index * 0.18;
+
+    oscillator.type = "sine";
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.0001, toneStart);
+    gain.gain.exponentialRampToValueAtTime(0.2, toneStart + 0.02);
+    gain.gain.exponentialRampToValueAtTime(0.0001, toneStart + 0.16);
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start(toneStart);
+    oscillator.stop(toneStart + 0.17);
+  });
+};
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+
+import { ClockObservation, fitClockModel } from "@/lib/clockDrift";
+import { deriveLiveMinecraftClock } from "@/lib/minecraftTime";
+
+const T0_MS = Date.parse("2026-10-19T12:00:00Z");
+
+let nextId = 1;
+
+const observe = (
+  ingameTime: string,
+  realMinutesAfterT0: number,
+  retracted = false
+): ClockObservation => ({
+  id: nextId++,
+  server_id: "cobblegems",
+  timer_text: "Ressources-01",
+  ingame_time: ingameTime,
+  observed_at: new Date(T0_MS + realMinutesAfterT0 * 60_000).toISOString(),
+  retracted_at: retracted ? new Date(T0_MS + 6 * 60_000).toISOString() : null,
+});
+
+const liveClockAt = (observations: ClockObservation[], realMinutesAfterT0: number) =>
+  deriveLiveMinecraftClock(
+    fitClockModel(observations)?.anchor,
+    T0_MS + realMinutesAfterT0 * 60_000
+  )?.clock;
+
+describe("fitClockModel", () => {
+  it("fits the rate of a server running slow", () => {
+    // 2 % slow: 70.56 in-game minutes per real minute, read to the minute.
+    const observations = [
+      observe("06:00", 0),
+      observe("11:52", 5),
+      observe("17:45", 10),
+      observe("23:38", 15),
+    ];
+    const model = fitClockModel(observations);
+
+    expect(model?.driftPercent).toBeCloseTo(-2, 1);
+    expect(model?.fittedCount).toBe(4);
+    expect(model?.restartIds).toEqual([]);
+    expect(liveClockAt(observations, 20)).toBe("05:30");
+  });
+
+  it("unwraps readings across midnight", () => {
+    const observations = [
+      observe("22:00", 0),
+      observe("04:00", 5),
+      observe("10:00", 10),
+      // 18 in-game hours later, past another midnight.
+      observe("04:00", 25),
+    ];
+    const model = fitClockModel(observations);
+
+    expect(model?.driftPercent).toBeCloseTo(0, 5);
+    expect(model?.fittedCount).toBe(4);
+    expect(model?.restartIds).toEqual([]);
+    expect(liveClockAt(observations, 30)).toBe("10:00");
+  });
+
+  it("starts over after a jump of more than 30 in-game minutes", () => {
+    // 00:00 was due at 10 minutes; the server restarted on 00:45.
+    const observations = [
+      observe("12:00", 0),
+      observe("18:00", 5),
+      observe("00:45", 10),
+      observe("06:45", 15),
+    ];
+    const model = fitClockModel(observations);
+
+    expect(model?.restartIds).toEqual([observations[2].id]);
+    expect(model?.fittedCount).toBe(2);
+    expect(liveClockAt(observations, 16)).toBe("07:57");
+  });
+
+  it("takes a reading off by less than 30 in-game minutes for an error", () => {
+    const observations = [
+      observe("12:00", 0),
+      observe("18:00", 5),
+      observe("00:20", 10),
+    ];
+
+    expect(fitClockModel(observations)?.restartIds).toEqual([]);
+    expect(fitClockModel(observations)?.fittedCount).toBe(3);
+  });
+
+  it("ignores a reading retracted by an undo", () => {
+    // 12:00, then a mistyped 02:00 five minutes later, then undone.
+    const observations = [observe("12:00", 0), observe("02:00", 5, true)];
+    const model = fitClockModel(observations);
+
+    expect(model?.restartIds).toEqual([]);
+    expect(model?.fittedCount).toBe(1);
+    // A real minute lasts 72 in-game minutes at the nominal rate.
+    expect(liveClockAt(observations, 6)).toBe("19:12");
+  });
+
+  it("would take the mistyped reading for a restart if kept", () => {
+    const observations = [observe("12:00", 0), observe("02:00", 5)];
+
+    expect(fitClockModel(observations)?.restartIds).toEqual([observations[1].id]);
+    expect(liveClockAt(observations, 6)).toBe("03:12");
+  });
+});
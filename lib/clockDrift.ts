@@ -0,0 +1,250 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import {
+  MINECRAFT_MINUTES_PER_DAY,
+  MINECRAFT_SECONDS_PER_REAL_SECOND,
+  MinecraftClockAnchor,
+  parseMinecraftTime,
+} from "@/lib/minecraftTime";
+
+export type ClockObservation = {
+  id: number;
+  server_id: string;
+  timer_text: string | null;
+  ingame_time: string;
+  observed_at: string;
+  // Set when an undo or revert replaced the reading (it was a mistake).
+  retracted_at: string | null;
+};
+
+export const CLOCK_OBSERVATION_COLUMNS =
+  "id, server_id, timer_text, ingame_time, observed_at, retracted_at";
+
+export type ClockModel = {
+  // Drop-in anchor carrying the fitted rate for the minecraftTime helpers.
+  anchor: MinecraftClockAnchor;
+  // Relative to the nominal rate, e.g. -2 when the server runs 2 % slow.
+  driftPercent: number;
+  // Observations used for the fit (those since the last detected restart).
+  fittedCount: number;
+  // Observations where the clock jumped, most likely a server restart.
+  restartIds: number[];
+};
+
+export const CLOCK_OBSERVATION_WINDOW_MS = 12 * 60 * 60 * 1000;
+
+const NOMINAL_MINUTES_PER_REAL_SECOND = MINECRAFT_SECONDS_PER_REAL_SECOND / 60;
+
+// Reading errors of a few in-game minutes are expected; beyond this (or 2 %
+// of the elapsed in-game time, for TPS changes) the clock is considered reset.
+const MIN_JUMP_TOLERANCE_MINUTES = 30;
+const JUMP_TOLERANCE_RATIO = 0.02;
+
+// Below this real-time span the slope is too noisy to trust.
+const MIN_FIT_SPAN_MS = 5 * 60 * 1000;
+
+// Fitted rates outside these bounds are ignored as bad readings.
+const MIN_RATE_RATIO = 0.5;
+const MAX_RATE_RATIO = 1.1;
+
+const formatTwoDigits = (value: number) => value.toString().padStart(2, "0");
+
+type UnwrappedObservation = {
+  observation: ClockObservation;
+  observedMs: number;
+  // Continuous in-game minutes (days unwrapped) within the current segment.
+  minutes: number;
+};
+
+// Least-squares rate (in-game minutes per real second) of a segment, or null
+// when the segment is too short or the result is implausible.
+const fitSegmentRate = (segment: UnwrappedObservation[]) => {
+  const first = segment[0];
+  const latest = segment.at(-1);
+
+  if (
+    !first ||
+    !latest ||
+    segment.length < 2 ||
+    latest.observedMs - first.observedMs < MIN_FIT_SPAN_MS
+  ) {
+    return null;
+  }
+
+  const xs = segment.map((item) => (item.observedMs - first.observedMs) / 1000);
+  const ys = segment.map((item) => item.minutes);
+  const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+  const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+  const covariance = xs.reduce(
+    (sum, x, index) => sum + (x - meanX) * (ys[index] - meanY),
+    0
+  );
+  const variance = xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0);
+  const rate = variance > 0 ? covariance / variance : Number.NaN;
+
+  if (
+    !(rate >= NOMINAL_MINUTES_PER_REAL_SECOND * MIN_RATE_RATIO) ||
+    !(rate <= NOMINAL_MINUTES_PER_REAL_SECOND * MAX_RATE_RATIO)
+  ) {
+    return null;
+  }
+
+  return { rate, meanX, meanY };
+};
+
+/**
+ * Splits observations into segments separated by clock jumps, unwrapping the
+ * day count with the segment's fitted rate (nominal until it can be fitted).
+ * Returns the last segment and the ids of
+ * observations that started a new segment because of a jump.
+ */
+const unwrapObservations = (observations: ClockObservation[]) => {
+  const restartIds: number[] = [];
+  let segment: UnwrappedObservation[] = [];
+
+  observations
+    .filter((observation) => !observation.retracted_at)
+    .map((observation) => ({
+      observation,
+      observedMs: new Date(observation.observed_at).getTime(),
+      minutes: parseMinecraftTime(observation.ingame_time),
+    }))
+    .filter(
+      (item): item is UnwrappedObservation =>
+        item.minutes !== null && !Number.isNaN(item.observedMs)
+    )
+    .sort((a, b) => a.observedMs - b.observedMs)
+    .forEach((item) => {
+      const previous = segment.at(-1);
+
+      if (!previous) {
+        segment = [item];
+        return;
+      }
+
+      const rate =
+        fitSegmentRate(segment)?.rate ?? NOMINAL_MINUTES_PER_REAL_SECOND;
+      const expected =
+        previous.minutes + ((item.observedMs - previous.observedMs) / 1000) * rate;
+      const tolerance = Math.max(
+        MIN_JUMP_TOLERANCE_MINUTES,
+        (expected - previous.minutes) * JUMP_TOLERANCE_RATIO
+      );
+
+      // Past half a day of uncertainty the day count cannot be recovered:
+      // start over without calling it a restart.
+      if (tolerance >= MINECRAFT_MINUTES_PER_DAY / 2) {
+        segment = [item];
+        return;
+      }
+
+      const days = Math.round((expected - item.minutes) / MINECRAFT_MINUTES_PER_DAY);
+      const unwrapped = item.minutes + days * MINECRAFT_MINUTES_PER_DAY;
+
+      if (Math.abs(unwrapped - expected) > tolerance) {
+        restartIds.push(item.observation.id);
+        segment = [item];
+        return;
+      }
+
+      segment.push({ ...item, minutes: unwrapped });
+    });
+
+  return { segment, restartIds };
+};
+
+/**
+ * Least-squares fit of in-game minutes against real time over the
+ * observations since the last clock jump. Falls back to the nominal rate
+ * anchored on the latest observation when there is too little data.
+ */
+export const fitClockModel = (
+  observations: ClockObservation[]
+): ClockModel | null => {
+  const { segment, restartIds } = unwrapObservations(observations);
+  const latest = segment.at(-1);
+
+  if (!latest) {
+    return null;
+  }
+
+  const originMs = segment[0].observedMs;
+  const fit = fitSegmentRate(segment);
+  const rate = fit?.rate ?? NOMINAL_MINUTES_PER_REAL_SECOND;
+  const intercept = fit
+    ? fit.meanY - rate * fit.meanX
+    : latest.minutes - ((latest.observedMs - originMs) / 1000) * rate;
+
+  // Anchor on a whole in-game minute so the "HH:MM" anchor loses nothing.
+  const latestFitted =
+    intercept + ((latest.observedMs - originMs) / 1000) * rate;
+  const anchorMinutes = Math.floor(latestFitted);
+  const anchorMs =
+    latest.observedMs - ((latestFitted - anchorMinutes) / rate) * 1000;
+  const dayMinutes =
+    ((anchorMinutes % MINECRAFT_MINUTES_PER_DAY) + MINECRAFT_MINUTES_PER_DAY) %
+    MINECRAFT_MINUTES_PER_DAY;
+
+  return {
+    anchor: {
+      ingame_time: `${formatTwoDigits(Math.floor(dayMinutes / 60))}:${formatTwoDigits(
+        dayMinutes % 60
+      )}`,
+      ingame_time_saved_at: new Date(anchorMs).toISOString(),
+      seconds_per_real_second: rate * 60,
+    },
+    driftPercent: (rate / NOMINAL_MINUTES_PER_REAL_SECOND - 1) * 100,
+    fittedCount: segment.length,
+    restartIds,
+  };
+};
+
+export const fetchClockObservations = async (
+  client: SupabaseClient,
+  serverIds: string[],
+  sinceMs: number
+) => {
+  if (serverIds.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await client
+    .from("clock_observations")
+    .select(CLOCK_OBSERVATION_COLUMNS)
+    .in("server_id", serverIds)
+    .is("retracted_at", null)
+    .gte("observed_at", new Date(sinceMs).toISOString())
+    .order("observed_at", { ascending: true });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return (data ?? []) as ClockObservation[];
+};
+
+// Fitted clock per server; servers without observations are absent.
+export const fetchClockModels = async (
+  client: SupabaseClient,
+  serverIds: string[],
+  nowMs: number
+) => {
+  const observations = await fetchClockObservations(
+    client,
+    serverIds,
+    nowMs - CLOCK_OBSERVATION_WINDOW_MS
+  );
+  const models = new Map<string, ClockModel>();
+
+  new Set(serverIds).forEach((serverId) => {
+    const model = fitClockModel(
+      observations.filter((observation) => observation.server_id === serverId)
+    );
+
+    if (model) {
+      models.set(serverId, model);
+    }
+  });
+
+  return models;
+};
@@ -0,0 +1,163 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  DiscordInteraction,
+  handleDiscordInteraction,
+  SpawnBotBackend,
+} from "@/lib/discordBot";
+import { createStandInSpawnBotBackend } from "@/lib/discordBotStandIn";
+import { DEFAULT_SERVER_ID } from "@/lib/servers";
+
+const NOW_MS = Date.parse("2026-10-19T12:00:00Z");
+const NOW_SECONDS = NOW_MS / 1000;
+const WRITER_ROLE_ID = "writer";
+const EPHEMERAL_FLAG = 64;
+
+const spawnCommand = (
+  subcommand: string,
+  options: Record<string, string> = {},
+  roles: string[] = [WRITER_ROLE_ID]
+): DiscordInteraction => ({
+  type: 2,
+  locale: "en-US",
+  data: {
+    name: "spawn",
+    options: [
+      {
+        name: subcommand,
+        type: 1,
+        options: Object.entries(options).map(([name, value]) => ({
+          name,
+          type: 3,
+          value,
+        })),
+      },
+    ],
+  },
+  member: {
+    user: { id: "1", username: "steve", global_name: "Steve" },
+    nick: null,
+    roles,
+  },
+});
+
+let backend: SpawnBotBackend;
+
+const run = (interaction: DiscordInteraction) =>
+  handleDiscordInteraction(interaction, backend, {
+    fallbackLocale: "fr",
+    nowMs: NOW_MS,
+    writerRoleId: WRITER_ROLE_ID,
+  });
+
+const timerOf = async (locationId: string) =>
+  (await backend.loadSources(NOW_MS)).timersByLocationId.get(locationId);
+
+beforeEach(() => {
+  backend = createStandInSpawnBotBackend(DEFAULT_SERVER_ID);
+});
+
+describe("handleDiscordInteraction", () => {
+  it("answers Discord's PING", async () => {
+    expect(await run({ type: 1 })).toEqual({ type: 1 });
+  });
+
+  it("sets the next spawn of the resource an abbreviation designates", async () => {
+    const response = await run(
+      spawnCommand("set", { resource: "r1", duration: "45m30s" })
+    );
+
+    expect(response).toEqual({
+      type: 4,
+      data: {
+        content: `**Ressources-01**: next spawn <t:${NOW_SECONDS + 2730}:R> (<t:${
+          NOW_SECONDS + 2730
+        }:t>).`,
+        allowed_mentions: { parse: [] },
+      },
+    });
+    expect(await timerOf("ressources-01")).toMatchObject({
+      next_spawn: new Date(NOW_MS + 2_730_000).toISOString(),
+      updated_by_name: "Steve (Discord)",
+    });
+  });
+
+  it("records the Minecraft time on every resource by default", async () => {
+    const response = await run(spawnCommand("mctime", { time: "18:20" }));
+
+    expect(response.type === 4 && response.data.content).toBe(
+      "Minecraft time 18:20 recorded for 4 resources."
+    );
+    expect(await timerOf("construction-02")).toMatchObject({
+      ingame_time: "18:20",
+      ingame_time_saved_at: new Date(NOW_MS).toISOString(),
+    });
+  });
+
+  it("lists every resource in the status", async () => {
+    await run(spawnCommand("set", { resource: "construction-02", duration: "10" }));
+
+    const response = await run(spawnCommand("status", {}, []));
+    const content = response.type === 4 ? response.data.content : "";
+
+    expect(content.split("\n")).toHaveLength(5);
+    expect(content).toContain(`**Construction-02** — <t:${NOW_SECONDS + 600}:R>`);
+    expect(content).toContain("**Ressources-01** — to be reset");
+  });
+
+  it("lists the candidates of an ambiguous resource without saving", async () => {
+    const response = await run(
+      spawnCommand("set", { resource: "ress", duration: "45" })
+    );
+
+    expect(response).toMatchObject({
+      data: {
+        content:
+          '"ress" matches several resources: `ressources-01`, `ressources-02`. Please pick one.',
+        flags: EPHEMERAL_FLAG,
+      },
+    });
+    expect(await timerOf("ressources-01")).toBeUndefined();
+  });
+
+  it("suggests close matches for an unknown resource", async () => {
+    const fuzzy = await run(spawnCommand("mctime", { resource: "rsc", time: "06:00" }));
+    const unknown = await run(spawnCommand("set", { resource: "zzz", duration: "5" }));
+
+    expect(fuzzy.type === 4 && fuzzy.data.content).toBe(
+      "Unknown resource: rsc. Close matches: `ressources-01`, `ressources-02`."
+    );
+    expect(unknown.type === 4 && unknown.data.content).toBe("Unknown resource: zzz.");
+    expect((await backend.loadSources(NOW_MS)).timersByLocationId.size).toBe(0);
+  });
+
+  it("refuses writes from a member without the writer role", async () => {
+    const saveNextSpawn = vi.spyOn(backend, "saveNextSpawn");
+    const saveInGameTime = vi.spyOn(backend, "saveInGameTime");
+
+    for (const interaction of [
+      spawnCommand("set", { resource: "r1", duration: "45" }, ["other"]),
+      spawnCommand("mctime", { time: "18:20" }, []),
+    ]) {
+      expect(await run(interaction)).toMatchObject({
+        data: {
+          content: "You do not have the role required to change timers.",
+          flags: EPHEMERAL_FLAG,
+        },
+      });
+    }
+    expect(saveNextSpawn).not.toHaveBeenCalled();
+    expect(saveInGameTime).not.toHaveBeenCalled();
+  });
+
+  it("keeps writes closed when no writer role is configured", async () => {
+    const response = await handleDiscordInteraction(
+      spawnCommand("set", { resource: "r1", duration: "45" }),
+      backend,
+      { fallbackLocale: "fr", nowMs: NOW_MS, writerRoleId: null }
+    );
+
+    expect(response.type === 4 && response.data.flags).toBe(EPHEMERAL_FLAG);
+    expect(await timerOf("ressources-01")).toBeUndefined();
+  });
+});
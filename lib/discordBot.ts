@@ -0,0 +1,477 @@
+import { createPublicKey, verify } from "node:crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { formatDiscordTimestamp } from "@/lib/discordWebhook";
+import { Locale, MessageKey, parseLocale, translate } from "@/lib/i18n";
+import { deriveMinecraftClockAtDate } from "@/lib/minecraftTime";
+import {
+  isAbbreviationOf,
+  parseSpawnOffsetInput,
+  rankResources,
+} from "@/lib/quickEntry";
+import { buildSpawnFeed, loadSpawnFeedSources, SpawnFeedSources } from "@/lib/spawnFeed";
+import { recordSpawnEvent } from "@/lib/spawnEvents";
+import type { SpawnLocation } from "@/lib/spawnLocations";
+import { formatPredictedPhase } from "@/lib/spawnNotifications";
+import type { SpawnTimerRow } from "@/lib/spawnTimers";
+import {
+  SaveSpawnTimerResult,
+  saveInGameTime,
+  saveNextSpawn,
+} from "@/lib/spawnTimerStore";
+import {
+  computeNextSpawnDate,
+  validateMinecraftTimeInput,
+  validateSpawnOffset,
+} from "@/lib/timerValidation";
+
+// Subset of the Discord interactions API used by /spawn.
+const INTERACTION_PING = 1;
+const INTERACTION_APPLICATION_COMMAND = 2;
+const RESPONSE_PONG = 1;
+const RESPONSE_CHANNEL_MESSAGE = 4;
+const OPTION_SUB_COMMAND = 1;
+const OPTION_STRING = 3;
+// Errors are only shown to the member who ran the command.
+const EPHEMERAL_FLAG = 64;
+const MAX_MESSAGE_LENGTH = 2000;
+const MAX_LISTED_CANDIDATES = 5;
+
+type DiscordUser = { id: string; username: string; global_name?: string | null };
+
+export type DiscordCommandOption = {
+  name: string;
+  type: number;
+  value?: string | number | boolean;
+  options?: DiscordCommandOption[];
+};
+
+export type DiscordInteraction = {
+  type: number;
+  locale?: string;
+  data?: { name: string; options?: DiscordCommandOption[] };
+  // `member` in guilds, `user` in direct messages.
+  member?: { user: DiscordUser; nick?: string | null; roles?: string[] };
+  user?: DiscordUser;
+};
+
+export type DiscordInteractionResponse =
+  | { type: typeof RESPONSE_PONG }
+  | {
+      type: typeof RESPONSE_CHANNEL_MESSAGE;
+      data: {
+        content: string;
+        flags?: number;
+        allowed_mentions: { parse: string[] };
+      };
+    };
+
+/**
+ * Where the bot reads and writes timers: Supabase in production, an
+ * in-memory stand-in (see discordBotStandIn.ts) for local testing.
+ */
+export type SpawnBotBackend = {
+  loadSources: (nowMs: number) => Promise<SpawnFeedSources>;
+  saveNextSpawn: (
+    location: SpawnLocation,
+    nextSpawn: Date,
+    authorName: string
+  ) => Promise<SpawnTimerRow>;
+  saveInGameTime: (
+    location: SpawnLocation,
+    ingameTime: string,
+    savedAt: Date,
+    authorName: string
+  ) => Promise<SpawnTimerRow>;
+};
+
+// Bot writes never send expectedUpdatedAt, so a conflict cannot happen.
+const unwrapSaved = (result: SaveSpawnTimerResult, locale: Locale) => {
+  if (result.status === "conflict") {
+    throw new Error(translate(locale, "api.timerConflict"));
+  }
+
+  return result.row;
+};
+
+export const createSupabaseSpawnBotBackend = (
+  client: SupabaseClient,
+  serverId: string,
+  // Language of the errors raised by the saves.
+  locale: Locale
+): SpawnBotBackend => ({
+  loadSources: (nowMs) => loadSpawnFeedSources(client, serverId, nowMs),
+  saveNextSpawn: async (location, nextSpawn, authorName) => {
+    const timer = unwrapSaved(
+      await saveNextSpawn(client, location, nextSpawn, { authorName, locale }),
+      locale
+    );
+
+    // Same history entry as POST /api/timers/[id]/next-spawn.
+    await recordSpawnEvent(client, {
+      location_id: location.id,
+      kind: "timer_set",
+      next_spawn: timer.next_spawn,
+      phase: deriveMinecraftClockAtDate(timer, nextSpawn)?.phase ?? null,
+      ingame_time: null,
+      legendary: null,
+      caught_by: null,
+    }).catch((caughtError: unknown) => {
+      console.error("Supabase spawn_events error", caughtError);
+    });
+
+    return timer;
+  },
+  saveInGameTime: async (location, ingameTime, savedAt, authorName) =>
+    unwrapSaved(
+      await saveInGameTime(client, location, ingameTime, savedAt, {
+        authorName,
+        locale,
+      }),
+      locale
+    ),
+});
+
+const describeInBothLocales = (key: MessageKey) => ({
+  description: translate("en", key),
+  description_localizations: { fr: translate("fr", key) },
+});
+
+const stringOption = (
+  name: string,
+  frenchName: string,
+  key: MessageKey,
+  required: boolean
+) => ({
+  type: OPTION_STRING,
+  name,
+  name_localizations: { fr: frenchName },
+  ...describeInBothLocales(key),
+  required,
+});
+
+// Registered with PUT /applications/{id}/commands, see
+// app/api/discord/commands/route.ts.
+export const SPAWN_COMMAND = {
+  name: "spawn",
+  ...describeInBothLocales("bot.command.description"),
+  options: [
+    {
+      type: OPTION_SUB_COMMAND,
+      name: "status",
+      ...describeInBothLocales("bot.status.description"),
+    },
+    {
+      type: OPTION_SUB_COMMAND,
+      name: "set",
+      ...describeInBothLocales("bot.set.description"),
+      options: [
+        stringOption("resource", "ressource", "bot.option.resource", true),
+        stringOption("duration", "duree", "bot.option.duration", true),
+      ],
+    },
+    {
+      type: OPTION_SUB_COMMAND,
+      name: "mctime",
+      ...describeInBothLocales("bot.mctime.description"),
+      options: [
+        stringOption("time", "heure", "bot.option.time", true),
+        stringOption("resource", "ressource", "bot.option.allResources", false),
+      ],
+    },
+  ],
+};
+
+// Discord signs `timestamp + body` with the application's Ed25519 key, which
+// it hands out as 32 raw bytes in hex; node:crypto wants it wrapped in SPKI.
+const ED25519_SPKI_PREFIX = Buffer.from("302a300506032b6570032100", "hex");
+
+export const verifyDiscordSignature = (
+  publicKeyHex: string,
+  signatureHex: string,
+  timestamp: string,
+  body: string
+) => {
+  try {
+    const key = createPublicKey({
+      key: Buffer.concat([ED25519_SPKI_PREFIX, Buffer.from(publicKeyHex, "hex")]),
+      format: "der",
+      type: "spki",
+    });
+
+    return verify(
+      null,
+      Buffer.from(timestamp + body),
+      key,
+      Buffer.from(signatureHex, "hex")
+    );
+  } catch {
+    return false;
+  }
+};
+
+const reply = (content: string, ephemeral = false): DiscordInteractionResponse => ({
+  type: RESPONSE_CHANNEL_MESSAGE,
+  data: {
+    content:
+      content.length > MAX_MESSAGE_LENGTH
+        ? `${content.slice(0, MAX_MESSAGE_LENGTH - 1)}…`
+        : content,
+    ...(ephemeral ? { flags: EPHEMERAL_FLAG } : {}),
+    // Resource labels and nicknames must never ping anyone.
+    allowed_mentions: { parse: [] },
+  },
+});
+
+const readStringOption = (options: DiscordCommandOption[], name: string) => {
+  const value = options.find((option) => option.name === name)?.value;
+  return typeof value === "string" ? value.trim() : "";
+};
+
+const readAuthorName = (interaction: DiscordInteraction) => {
+  const user = interaction.member?.user ?? interaction.user;
+  const name =
+    interaction.member?.nick || user?.global_name || user?.username || "Discord";
+
+  return `${name} (Discord)`.slice(0, 64);
+};
+
+type BotLocationMatch =
+  | { location: SpawnLocation }
+  // Several abbreviation matches, or fuzzy suggestions when none matched.
+  | { location: null; ambiguous: boolean; candidates: SpawnLocation[] };
+
+// Writes land without a preview, so only an exact id or label
+// ("ressources-01") or an abbreviation designating a single resource ("r1")
+// is accepted.
+const findBotLocation = (
+  locations: SpawnLocation[],
+  query: string
+): BotLocationMatch => {
+  const exact = locations.find(
+    (location) =>
+      location.id === query.toLowerCase() ||
+      location.label.toLowerCase() === query.toLowerCase()
+  );
+
+  if (exact) {
+    return { location: exact };
+  }
+
+  const abbreviated = locations.filter((location) =>
+    isAbbreviationOf(query, location.label)
+  );
+
+  if (abbreviated.length === 1) {
+    return { location: abbreviated[0] };
+  }
+
+  return abbreviated.length > 1
+    ? { location: null, ambiguous: true, candidates: abbreviated }
+    : { location: null, ambiguous: false, candidates: rankResources(query, locations) };
+};
+
+const describeLocationMiss = (
+  match: Extract<BotLocationMatch, { location: null }>,
+  query: string,
+  locale: Locale
+) => {
+  const candidates = match.candidates
+    .slice(0, MAX_LISTED_CANDIDATES)
+    .map((location) => `\`${location.id}\``)
+    .join(", ");
+
+  if (match.ambiguous) {
+    return translate(locale, "bot.ambiguousResource", { query, candidates });
+  }
+
+  const unknown = translate(locale, "bot.unknownResource", { query });
+
+  return candidates
+    ? `${unknown} ${translate(locale, "bot.resourceSuggestions", { candidates })}`
+    : unknown;
+};
+
+// Writes need the role set in DISCORD_BOT_WRITER_ROLE_ID; without one the
+// bot stays read-only.
+const canWrite = (interaction: DiscordInteraction, writerRoleId: string | null) =>
+  writerRoleId !== null && (interaction.member?.roles ?? []).includes(writerRoleId);
+
+const formatStatus = (
+  sources: SpawnFeedSources,
+  locale: Locale,
+  nowMs: number
+) => {
+  const { spawns } = buildSpawnFeed(sources, nowMs);
+  const title = translate(locale, "bot.statusTitle", {
+    server: sources.server?.name ?? sources.serverId,
+  });
+
+  if (spawns.length === 0) {
+    return `${title}\n${translate(locale, "bot.statusEmpty")}`;
+  }
+
+  const lines = spawns.map((spawn) => {
+    const nextSpawnMs = spawn.effectiveNextSpawn
+      ? Date.parse(spawn.effectiveNextSpawn)
+      : null;
+    const countdown =
+      nextSpawnMs !== null && nextSpawnMs > nowMs
+        ? `${formatDiscordTimestamp(nextSpawnMs, "R")} (${formatDiscordTimestamp(
+            nextSpawnMs,
+            "t"
+          )})${spawn.projected ? translate(locale, "notifications.projectedSuffix") : ""}`
+        : translate(locale, "bot.toReset");
+
+    return `**${spawn.label}** — ${countdown} · ${formatPredictedPhase(
+      locale,
+      nextSpawnMs !== null && nextSpawnMs > nowMs
+        ? spawn.predictedPhase && {
+            phase: spawn.predictedPhase.phase,
+            timeLabel: spawn.predictedPhase.ingameTime,
+          }
+        : null
+    )}`;
+  });
+
+  return [title, ...lines].join("\n");
+};
+
+const handleSpawnCommand = async (
+  interaction: DiscordInteraction,
+  backend: SpawnBotBackend,
+  locale: Locale,
+  { nowMs, writerRoleId }: { nowMs: number; writerRoleId: string | null }
+): Promise<DiscordInteractionResponse> => {
+  const subcommand = interaction.data?.options?.[0];
+  const options = subcommand?.options ?? [];
+
+  if (subcommand?.name === "status") {
+    return reply(formatStatus(await backend.loadSources(nowMs), locale, nowMs));
+  }
+
+  if (
+    (subcommand?.name === "set" || subcommand?.name === "mctime") &&
+    !canWrite(interaction, writerRoleId)
+  ) {
+    return reply(translate(locale, "bot.forbidden"), true);
+  }
+
+  if (subcommand?.name === "set") {
+    const query = readStringOption(options, "resource");
+    const parsed = parseSpawnOffsetInput(readStringOption(options, "duration"));
+
+    if (!parsed) {
+      return reply(translate(locale, "bot.invalidDuration"), true);
+    }
+
+    const offset = validateSpawnOffset(parsed.minutes, parsed.seconds, locale);
+
+    if (!offset.ok) {
+      return reply(offset.error, true);
+    }
+
+    const { locations } = await backend.loadSources(nowMs);
+    const match = findBotLocation(locations, query);
+
+    if (!match.location) {
+      return reply(describeLocationMiss(match, query, locale), true);
+    }
+
+    const { location } = match;
+
+    const nextSpawn = computeNextSpawnDate(offset.value, new Date(nowMs));
+    await backend.saveNextSpawn(location, nextSpawn, readAuthorName(interaction));
+
+    return reply(
+      translate(locale, "bot.spawnSet", {
+        label: location.label,
+        relative: formatDiscordTimestamp(nextSpawn.getTime(), "R"),
+        time: formatDiscordTimestamp(nextSpawn.getTime(), "t"),
+      })
+    );
+  }
+
+  if (subcommand?.name === "mctime") {
+    const validated = validateMinecraftTimeInput(
+      readStringOption(options, "time"),
+      locale
+    );
+
+    if (!validated.ok) {
+      return reply(validated.error, true);
+    }
+
+    const query = readStringOption(options, "resource");
+    const { locations } = await backend.loadSources(nowMs);
+    // Every location shares the server clock, so no resource means all.
+    const match = query ? findBotLocation(locations, query) : null;
+
+    if (match && !match.location) {
+      return reply(describeLocationMiss(match, query, locale), true);
+    }
+
+    const targets = match?.location ? [match.location] : locations;
+    const savedAt = new Date(nowMs);
+    const authorName = readAuthorName(interaction);
+
+    for (const target of targets) {
+      await backend.saveInGameTime(target, validated.value, savedAt, authorName);
+    }
+
+    return reply(
+      translate(locale, "bot.ingameTimeSet", {
+        time: validated.value,
+        count: targets.length,
+      })
+    );
+  }
+
+  return reply(translate(locale, "bot.unknownCommand"), true);
+};
+
+/**
+ * Answers one interaction. Replies follow the invoking member's Discord
+ * language when it is supported, `fallbackLocale` otherwise. `set` and
+ * `mctime` are reserved to members holding `writerRoleId`.
+ */
+export const handleDiscordInteraction = async (
+  interaction: DiscordInteraction,
+  backend: SpawnBotBackend,
+  {
+    fallbackLocale,
+    nowMs,
+    writerRoleId,
+  }: { fallbackLocale: Locale; nowMs: number; writerRoleId: string | null }
+): Promise<DiscordInteractionResponse> => {
+  if (interaction.type === INTERACTION_PING) {
+    return { type: RESPONSE_PONG };
+  }
+
+  const locale = parseLocale(interaction.locale) ?? fallbackLocale;
+
+  if (
+    interaction.type !== INTERACTION_APPLICATION_COMMAND ||
+    interaction.data?.name !== SPAWN_COMMAND.name
+  ) {
+    return reply(translate(locale, "bot.unknownCommand"), true);
+  }
+
+  try {
+    return await handleSpawnCommand(interaction, backend, locale, {
+      nowMs,
+      writerRoleId,
+    });
+  } catch (caughtError) {
+    console.error("Discord interaction error", caughtError);
+    return reply(
+      translate(locale, "bot.failed", {
+        details:
+          caughtError instanceof Error
+            ? caughtError.message
+            : translate(locale, "common.unknownError"),
+      }),
+      true
+    );
+  }
+};
@@ -0,0 +1,79 @@
+import type { SpawnBotBackend } from "@/lib/discordBot";
+import { DEFAULT_SERVERS } from "@/lib/servers";
+import {
+  DEFAULT_SPAWN_LOCATIONS,
+  getActiveSpawnLocations,
+  SpawnLocation,
+} from "@/lib/spawnLocations";
+import type { SpawnTimerRow } from "@/lib/spawnTimers";
+
+let nextRowId = 1;
+
+/**
+ * In-memory stand-in for Supabase, so the bot can be exercised locally with
+ * curl and no database. Saves follow save_spawn_timer: one row per location,
+ * each save only overwrites the fields it carries.
+ */
+export const createStandInSpawnBotBackend = (
+  serverId: string,
+  locations: SpawnLocation[] = DEFAULT_SPAWN_LOCATIONS
+): SpawnBotBackend => {
+  const timersByLocationId = new Map<string, SpawnTimerRow>();
+  const activeLocations = getActiveSpawnLocations(
+    locations.filter((location) => location.server_id === serverId)
+  );
+
+  const save = (location: SpawnLocation, values: Partial<SpawnTimerRow>) => {
+    const previous = timersByLocationId.get(location.id);
+    const row: SpawnTimerRow = {
+      id: previous?.id ?? nextRowId++,
+      server_id: location.server_id,
+      text: location.label,
+      next_spawn: previous?.next_spawn ?? null,
+      ingame_time: previous?.ingame_time ?? null,
+      ingame_time_saved_at: previous?.ingame_time_saved_at ?? null,
+      ...values,
+      updated_by: null,
+      updated_at: new Date().toISOString(),
+    };
+
+    timersByLocationId.set(location.id, row);
+    return row;
+  };
+
+  return {
+    loadSources: async () => ({
+      serverId,
+      server: DEFAULT_SERVERS.find((server) => server.id === serverId) ?? null,
+      locations: activeLocations,
+      timersByLocationId: new Map(timersByLocationId),
+      clockModel: null,
+    }),
+    saveNextSpawn: async (location, nextSpawn, authorName) =>
+      save(location, {
+        next_spawn: nextSpawn.toISOString(),
+        updated_by_name: authorName,
+      }),
+    saveInGameTime: async (location, ingameTime, savedAt, authorName) =>
+      save(location, {
+        ingame_time: ingameTime,
+        ingame_time_saved_at: savedAt.toISOString(),
+        updated_by_name: authorName,
+      }),
+  };
+};
+
+const standInBackends = new Map<string, SpawnBotBackend>();
+
+// Kept for the lifetime of the server process, so successive commands see
+// each other's writes.
+export const getStandInSpawnBotBackend = (serverId: string) => {
+  let backend = standInBackends.get(serverId);
+
+  if (!backend) {
+    backend = createStandInSpawnBotBackend(serverId);
+    standInBackends.set(serverId, backend);
+  }
+
+  return backend;
+};
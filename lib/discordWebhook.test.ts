@@ -0,0 +1,81 @@
+import { createServer, IncomingMessage, Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+
+import { formatDiscordTimestamp, sendDiscordWebhook } from "@/lib/discordWebhook";
+
+type ReceivedRequest = {
+  method: string | undefined;
+  contentType: string | undefined;
+  body: unknown;
+};
+
+// Local stand-in for a Discord webhook: records what it receives and answers
+// with the status the test sets.
+let server: Server;
+let webhookUrl: string;
+let received: ReceivedRequest[] = [];
+let reply = { status: 204, body: "" };
+
+const readBody = async (request: IncomingMessage) => {
+  const chunks: Buffer[] = [];
+
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+
+  return Buffer.concat(chunks).toString("utf8");
+};
+
+beforeAll(async () => {
+  server = createServer(async (request, response) => {
+    received.push({
+      method: request.method,
+      contentType: request.headers["content-type"],
+      body: JSON.parse(await readBody(request)),
+    });
+    response.writeHead(reply.status).end(reply.body);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  webhookUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/webhooks/1/token`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  received = [];
+  reply = { status: 204, body: "" };
+});
+
+describe("sendDiscordWebhook", () => {
+  it("POSTs the payload as JSON", async () => {
+    const payload = {
+      content: "**Ressources-01** : prochaine tentative d'apparition <t:0:R>.",
+      embeds: [{ title: "Ressources-01 — spawn dans 5 min", color: 0xa3e635 }],
+    };
+
+    await sendDiscordWebhook(webhookUrl, payload);
+
+    expect(received).toEqual([
+      { method: "POST", contentType: "application/json", body: payload },
+    ]);
+  });
+
+  it("rejects with the status and body of a non-2xx response", async () => {
+    reply = { status: 429, body: '{"message":"You are being rate limited."}' };
+
+    await expect(sendDiscordWebhook(webhookUrl, { content: "test" })).rejects.toThrow(
+      'Discord webhook responded with 429: {"message":"You are being rate limited."}'
+    );
+    expect(received).toHaveLength(1);
+  });
+});
+
+describe("formatDiscordTimestamp", () => {
+  it("renders whole seconds in the requested style", () => {
+    expect(formatDiscordTimestamp(1_792_386_690_999)).toBe("<t:1792386690:R>");
+    expect(formatDiscordTimestamp(1_792_386_690_000, "t")).toBe("<t:1792386690:t>");
+  });
+});
@@ -0,0 +1,49 @@
+export type DiscordEmbed = {
+  title?: string;
+  description?: string;
+  color?: number;
+  timestamp?: string;
+  thumbnail?: { url: string };
+  fields?: Array<{ name: string; value: string; inline?: boolean }>;
+};
+
+export type DiscordWebhookPayload = {
+  content?: string;
+  username?: string;
+  embeds?: DiscordEmbed[];
+};
+
+// Discord renders `<t:unix:style>` in each reader's own time zone: "R" is
+// relative ("in 5 minutes"), "t" a short time.
+export type DiscordTimestampStyle = "R" | "t" | "T" | "d" | "D" | "f" | "F";
+
+export const formatDiscordTimestamp = (
+  timeMs: number,
+  style: DiscordTimestampStyle = "R"
+) => `<t:${Math.floor(timeMs / 1000)}:${style}>`;
+
+export type FetchLike = (
+  input: string,
+  init: { method: string; headers: Record<string, string>; body: string }
+) => Promise<{ ok: boolean; status: number; text: () => Promise<string> }>;
+
+export const sendDiscordWebhook = async (
+  webhookUrl: string,
+  payload: DiscordWebhookPayload,
+  fetchImpl: FetchLike = fetch
+) => {
+  const response = await fetchImpl(webhookUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(payload),
+  });
+
+  if (!response.ok) {
+    const details = await response.text().catch(() => "");
+    throw new Error(
+      `Discord webhook responded with ${response.status}${
+        details ? `: ${details}` : ""
+      }`
+    );
+  }
+};
@@ -0,0 +1,213 @@
+import { en } from "@/lib/messages/en";
+import { fr } from "@/lib/messages/fr";
+
+export const LOCALES = ["fr", "en"] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "fr";
+
+export const LOCALE_STORAGE_KEY = "legs-info:locale";
+
+// Plural messages pick a form from Intl.PluralRules: French treats 0 and 1
+// as singular, English only 1.
+export type PluralMessage = { one: string; other: string };
+
+export type Message = string | PluralMessage;
+
+export type MessageKey = keyof typeof fr;
+
+export type Messages = Record<MessageKey, Message>;
+
+export type MessageParams = Record<string, string | number>;
+
+const CATALOGUES: Record<Locale, Messages> = { fr, en };
+
+const INTL_LOCALES: Record<Locale, string> = {
+  fr: "fr-FR",
+  en: "en-US",
+};
+
+export const getIntlLocale = (locale: Locale) => INTL_LOCALES[locale];
+
+export const isLocale = (value: unknown): value is Locale =>
+  (LOCALES as readonly unknown[]).includes(value);
+
+// Accepts "en", "en-GB", "EN_us"...; null for unsupported languages.
+export const parseLocale = (value: string | null | undefined): Locale | null => {
+  const language = value?.trim().toLowerCase().split(/[-_]/)[0];
+
+  return isLocale(language) ? language : null;
+};
+
+// Locale for server-side messages (Discord, Web Push), which have no reader
+// preference to follow.
+export const getServerLocale = (): Locale =>
+  parseLocale(process.env.NOTIFICATIONS_LOCALE) ?? DEFAULT_LOCALE;
+
+const pluralRules = new Map<Locale, Intl.PluralRules>();
+
+const selectPluralForm = (locale: Locale, message: PluralMessage, count: number) => {
+  let rules = pluralRules.get(locale);
+
+  if (!rules) {
+    rules = new Intl.PluralRules(getIntlLocale(locale));
+    pluralRules.set(locale, rules);
+  }
+
+  return rules.select(count) === "one" ? message.one : message.other;
+};
+
+/**
+ * Looks up `key` in the locale's catalogue and fills `{name}` placeholders.
+ * Plural messages are chosen from `params.count`.
+ */
+export const translate = (
+  locale: Locale,
+  key: MessageKey,
+  params: MessageParams = {}
+) => {
+  const message = CATALOGUES[locale][key];
+  const template =
+    typeof message === "string"
+      ? message
+      : selectPluralForm(locale, message, Number(params.count ?? 0));
+
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+};
+
+export type Translator = (key: MessageKey, params?: MessageParams) => string;
+
+export const createTranslator =
+  (locale: Locale): Translator =>
+  (key, params) =>
+    translate(locale, key, params);
+
+const dateTimeFormatters = new Map<string, Intl.DateTimeFormat>();
+
+export const getDateTimeFormatter = (
+  locale: Locale,
+  options: Intl.DateTimeFormatOptions
+) => {
+  const cacheKey = `${locale}:${JSON.stringify(options)}`;
+  let formatter = dateTimeFormatters.get(cacheKey);
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat(getIntlLocale(locale), options);
+    dateTimeFormatters.set(cacheKey, formatter);
+  }
+
+  return formatter;
+};
+
+export type TimeFormatOptions = {
+  // IANA zone; the runtime's zone when omitted.
+  timeZone?: string;
+  // Appends the zone abbreviation ("15:05 UTC+2") for times meant to be
+  // shared with players elsewhere.
+  showZone?: boolean;
+};
+
+export const formatTime = (
+  locale: Locale,
+  value: number | Date,
+  { timeZone, showZone = false }: TimeFormatOptions = {}
+) =>
+  getDateTimeFormatter(locale, {
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone,
+    ...(showZone ? { timeZoneName: "short" } : {}),
+  }).format(value);
+
+export const formatNumber = (
+  locale: Locale,
+  value: number,
+  options: Intl.NumberFormatOptions = { maximumFractionDigits: 1 }
+) => new Intl.NumberFormat(getIntlLocale(locale), options).format(value);
+
+/**
+ * "Dans 5 minutes" up to two hours ahead, then the wall-clock time in
+ * `timeZone` with its label. Spawns already due read as "À redéfinir".
+ */
+export const formatSpawnCountdown = (
+  locale: Locale,
+  nextSpawnMs: number | null,
+  nowMs: number,
+  timeZone?: string
+) => {
+  if (nextSpawnMs === null) {
+    return translate(locale, "countdown.toReset");
+  }
+
+  const diffMs = nextSpawnMs - nowMs;
+  const diffSeconds = Math.floor(diffMs / 1000);
+
+  if (diffSeconds <= 0) {
+    return diffMs > 0
+      ? translate(locale, "countdown.seconds", { count: 1 })
+      : translate(locale, "countdown.toReset");
+  }
+
+  if (diffSeconds <= 60) {
+    return translate(locale, "countdown.seconds", { count: diffSeconds });
+  }
+
+  const diffMinutes = Math.floor(diffSeconds / 60);
+
+  if (diffMinutes <= 120) {
+    return translate(locale, "countdown.minutes", { count: diffMinutes });
+  }
+
+  return formatTime(locale, nextSpawnMs, { timeZone, showZone: true });
+};
+
+// "il y a 5 min" / "5 minutes ago", coarsened to hours then days.
+export const formatElapsed = (locale: Locale, elapsedMs: number) => {
+  const elapsedMinutes = Math.max(0, Math.floor(elapsedMs / 60_000));
+
+  if (elapsedMinutes < 1) {
+    return translate(locale, "elapsed.justNow");
+  }
+
+  if (elapsedMinutes < 60) {
+    return translate(locale, "elapsed.minutes", { count: elapsedMinutes });
+  }
+
+  if (elapsedMinutes < 24 * 60) {
+    return translate(locale, "elapsed.hours", {
+      count: Math.floor(elapsedMinutes / 60),
+    });
+  }
+
+  return translate(locale, "elapsed.days", {
+    count: Math.floor(elapsedMinutes / (24 * 60)),
+  });
+};
+
+const detectBrowserLocale = () =>
+  navigator.languages
+    .map((language) => parseLocale(language))
+    .find((locale): locale is Locale => locale !== null) ?? DEFAULT_LOCALE;
+
+// The stored choice wins over the browser languages.
+export const loadLocale = (): Locale => {
+  try {
+    return (
+      parseLocale(window.localStorage.getItem(LOCALE_STORAGE_KEY)) ??
+      detectBrowserLocale()
+    );
+  } catch {
+    return DEFAULT_LOCALE;
+  }
+};
+
+export const saveLocale = (locale: Locale) => {
+  try {
+    window.localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+  } catch (caughtError) {
+    console.warn("Unable to persist locale", caughtError);
+  }
+};
@@ -0,0 +1,66 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { MinecraftPhase } from "@/lib/minecraftTime";
+import type { WeatherCondition } from "@/lib/spawnConditions";
+
+// A legendary a spawn point can produce. Empty phases or weather mean the
+// candidate is not restricted on that axis.
+export type LegendaryCandidate = {
+  id: number;
+  location_id: string;
+  name: string;
+  phases: MinecraftPhase[];
+  weather: WeatherCondition[];
+  sort_order: number;
+};
+
+export const LEGENDARY_CANDIDATE_COLUMNS =
+  "id, location_id, name, phases, weather, sort_order";
+
+// Deployments without the legendary_candidates table get an empty pool.
+export const fetchLegendaryCandidates = async (
+  client: SupabaseClient,
+  locationIds: string[]
+): Promise<{ candidates: LegendaryCandidate[]; error: string | null }> => {
+  if (locationIds.length === 0) {
+    return { candidates: [], error: null };
+  }
+
+  const { data, error } = await client
+    .from("legendary_candidates")
+    .select(LEGENDARY_CANDIDATE_COLUMNS)
+    .in("location_id", locationIds)
+    .order("sort_order", { ascending: true })
+    .order("name", { ascending: true });
+
+  if (error) {
+    return { candidates: [], error: error.message };
+  }
+
+  return { candidates: (data ?? []) as LegendaryCandidate[], error: null };
+};
+
+export const getLocationCandidates = (
+  candidates: LegendaryCandidate[],
+  locationId: string
+) => candidates.filter((candidate) => candidate.location_id === locationId);
+
+/**
+ * Candidates a spawn could produce at `phase` under `weather`. An unknown
+ * phase or weather rules nothing out, so the pool is only narrowed by what
+ * is actually known.
+ */
+export const getPossibleCandidates = (
+  candidates: LegendaryCandidate[],
+  phase: MinecraftPhase | null,
+  weather: WeatherCondition | null = null
+) =>
+  candidates.filter(
+    (candidate) =>
+      (phase === null ||
+        candidate.phases.length === 0 ||
+        candidate.phases.includes(phase)) &&
+      (weather === null ||
+        candidate.weather.length === 0 ||
+        candidate.weather.includes(weather))
+  );
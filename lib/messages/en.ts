@@ -0,0 +1,329 @@
+import type { Messages } from "@/lib/i18n";
+
+export const en: Messages = {
+  "common.unknownError": "Unknown error",
+  "common.close": "Close",
+  "common.save": "Save",
+  "common.saving": "Saving...",
+  "common.minutesShort": "min",
+  "common.secondsShort": "sec",
+
+  "locale.label": "Language",
+  "locale.fr": "Français",
+  "locale.en": "English",
+
+  "timeZone.label": "Time zone",
+  "timeZone.auto": "Automatic ({zone})",
+
+  "phase.dawn": "Dawn",
+  "phase.morning": "Morning",
+  "phase.afternoon": "Afternoon",
+  "phase.dusk": "Dusk",
+  "phase.night": "Night",
+
+  "weather.clear": "clear",
+  "weather.rain": "rain",
+  "weather.thunder": "thunderstorm",
+
+  "moon.full": "Full moon",
+  "moon.waning_gibbous": "Waning gibbous",
+  "moon.last_quarter": "Last quarter",
+  "moon.waning_crescent": "Waning crescent",
+  "moon.new": "New moon",
+  "moon.waxing_crescent": "Waxing crescent",
+  "moon.first_quarter": "First quarter",
+  "moon.waxing_gibbous": "Waxing gibbous",
+
+  "countdown.toReset": "Needs resetting",
+  "countdown.seconds": { one: "In {count} second", other: "In {count} seconds" },
+  "countdown.minutes": { one: "In {count} minute", other: "In {count} minutes" },
+
+  "elapsed.justNow": "just now",
+  "elapsed.minutes": { one: "{count} minute ago", other: "{count} minutes ago" },
+  "elapsed.hours": { one: "{count} hour ago", other: "{count} hours ago" },
+  "elapsed.days": { one: "{count} day ago", other: "{count} days ago" },
+
+  "attribution.by": "edited by {name} {elapsed}",
+  "attribution.anonymous": "edited {elapsed}",
+
+  "validation.invalidTime": "Please enter a valid time.",
+  "validation.secondsRange": "Seconds must be between 0 and 59.",
+  "validation.positiveTime": "Please enter a time greater than zero.",
+  "validation.ingameTimeRequired": "Please enter a Minecraft time as HH:MM.",
+  "validation.ingameTimeFormat": "Invalid Minecraft time. Use HH:MM.",
+
+  "dashboard.servers": "Servers",
+  "dashboard.refresh": "Refresh timers",
+  "dashboard.refreshing": "Refreshing...",
+  "dashboard.alerts.open": "My alerts",
+  "dashboard.alerts.close": "Close alerts",
+  "dashboard.planner.open": "Planner",
+  "dashboard.planner.close": "Close planner",
+  "dashboard.clock.open": "Clock",
+  "dashboard.clock.close": "Close clock",
+  "dashboard.locations.open": "Manage locations",
+  "dashboard.locations.close": "Close management",
+  "dashboard.connection.live": "Live",
+  "dashboard.connection.connecting": "Connecting...",
+  "dashboard.connection.offline": "Disconnected (periodic refresh)",
+  "dashboard.hint":
+    "Entered times apply immediately. Only set the Minecraft time when it changes (e.g. after a restart).",
+  "dashboard.loading": "Loading timers...",
+  "dashboard.loadError":
+    "Unable to load the timers. Check your connection or the Supabase configuration. Details: {details}",
+  "dashboard.unknownResource": "Unknown resource.",
+  "dashboard.updateFailed":
+    "The update failed. Please retry or check Supabase. Details: {details}",
+  "dashboard.conflictFailed": "The update failed. Details: {details}",
+  "dashboard.spawnFailed": "Recording the spawn failed. Details: {details}",
+  "dashboard.ingameTimeFailed":
+    "Updating the Minecraft time failed. Details: {details}",
+  "dashboard.nextSpawn": "Estimated next spawn:",
+  "dashboard.spawnWindow": ", between {earliest} and {latest}",
+  "dashboard.projected": "projected",
+  "dashboard.conditionsAtSpawn": "Conditions at spawn:",
+  "dashboard.phaseIconAlt": "{phase} phase",
+  "dashboard.clockStale": "Server restarted since the last Minecraft time: enter it again.",
+  "dashboard.pastRestart": "After the next scheduled restart: unreliable prediction.",
+  "dashboard.confirmProjection": "Confirm",
+  "dashboard.edit": "Edit",
+  "dashboard.ingameTime.show": "Minecraft time",
+  "dashboard.ingameTime.hide": "Hide Minecraft time",
+  "dashboard.spawned": "Spawned",
+  "dashboard.stats.show": "Stats",
+  "dashboard.stats.hide": "Hide stats",
+  "dashboard.history.show": "History",
+  "dashboard.history.hide": "Hide history",
+  "dashboard.nextAttempt": "Next spawn attempt:",
+  "dashboard.saveNextSpawn": "Save the next spawn",
+  "dashboard.wouldLandAt": "Would land at {time}:",
+  "dashboard.observedIngameTime": "Observed Minecraft time:",
+  "dashboard.phasePreviewHint": "Enter HH:MM to get the estimated phase",
+  "dashboard.phasePreview": "Estimated phase: {phase}",
+  "dashboard.legendarySpawned": "Legendary spawned:",
+  "dashboard.optional": "Optional",
+  "dashboard.confirmSpawn": "Confirm spawn",
+  "dashboard.caughtBy": "Caught by",
+  "dashboard.possibleLegendaries": "Possible legendaries:",
+  "dashboard.noPossibleLegendary": "none at this phase",
+  "dashboard.copyDiscord": "Copy for Discord",
+  "dashboard.copyDiscordHint":
+    "Copies {token}: every player sees the time in their own time zone.",
+  "dashboard.copied": "Copied!",
+  "dashboard.copyFailed": "Copying failed. Details: {details}",
+  "dashboard.offlineSince":
+    "Offline data since {time}: countdowns are still computed on this device.",
+  "dashboard.pendingEdits": {
+    one: "{count} edit waiting to be synced.",
+    other: "{count} edits waiting to be synced.",
+  },
+  "dashboard.offlineReplayFailed":
+    "An edit made offline could not be sent. Details: {details}",
+  "dashboard.offlineStorageUnavailable":
+    "Offline storage is not available in this browser: the edit could not be queued.",
+
+  "conflict.title": "{resource} was changed in the meantime",
+  "conflict.description":
+    "Someone saved a different value while you were typing. Choose which one to keep.",
+  "conflict.attempted": "{field} (yours)",
+  "conflict.current": "{field} (current)",
+  "conflict.noValue": "No value",
+  "conflict.field.nextSpawn": "Next spawn",
+  "conflict.field.ingameTime": "Minecraft time",
+  "conflict.keepCurrent": "Keep the current value",
+  "conflict.overwrite": "Overwrite with mine",
+
+  "quickEntry.open": "Quick entry",
+  "quickEntry.title": "Quick entry",
+  "quickEntry.noMatch": "No location matches.",
+  "quickEntry.missingOffset": "Add the remaining time, e.g. “r1 45:30”.",
+  "quickEntry.previewSpawn": "{label}: next spawn in {minutes} min {seconds} s",
+  "quickEntry.previewIngameTime": "{label}: Minecraft time {time}",
+  "quickEntry.help":
+    "“r1 45:30” sets the next spawn, “mc r1 18:20” the Minecraft time. ↑↓ to choose, Enter to confirm, Esc to close.",
+  "quickEntry.hotkey": "Shortcut: {key}",
+
+  "undo.nextSpawn": "{label}: next spawn at {time}.",
+  "undo.ingameTime": "{label}: Minecraft time {time}.",
+  "undo.action": "Undo",
+  "undo.shortcut": "Ctrl+Z",
+
+  "history.loading": "Loading history...",
+  "history.loadError": "Unable to load the history. Details: {details}",
+  "history.empty": "No recorded change.",
+  "history.by": "by {name}",
+  "history.field": "{field}:",
+  "history.revert": "Revert",
+  "history.nothingToRestore": "No previous value to restore.",
+
+  "auth.failed": "Sign-in failed. Details: {details}",
+  "auth.emailRequired": "Please enter an email address.",
+  "auth.magicLinkSent": "Sign-in link sent. Check your inbox.",
+  "auth.signedInAs": "Signed in as",
+  "auth.unnamedUser": "User",
+  "auth.signOut": "Sign out",
+  "auth.readOnly": "Read only — sign in to edit the timers.",
+  "auth.discord": "Sign in with Discord",
+  "auth.magicLink": "Magic link",
+  "auth.emailPlaceholder": "you@example.com",
+  "auth.sendLink": "Send the link",
+
+  "alerts.title": "My alerts",
+  "alerts.permissionDenied": "Notifications are blocked by the browser for this site.",
+  "alerts.watched": "Watched locations (saved on this device)",
+  "alerts.leadBefore": "Warn me",
+  "alerts.leadAfter": "min before the spawn",
+  "alerts.sound": "Sound",
+  "alerts.notifications": "Browser notifications",
+  "alerts.pushSignIn": "Sign in to also get them while the tab is closed.",
+
+  "stats.loadError": "Unable to load the history. Details: {details}",
+  "stats.loading": "Loading history...",
+  "stats.spawns": "Spawns ({days} d):",
+  "stats.averageInterval": "Average interval:",
+  "stats.spawnsPerDay": "Spawns per day:",
+  "stats.empty": "No confirmed spawn over this period.",
+  "stats.caughtBy": "caught by {name}",
+
+  "restart.updateFailed": "Updating the server failed. Details: {details}",
+  "restart.invalidSchedule":
+    "Invalid schedule. Expected format: “minute hour day month day-of-week”.",
+  "restart.next": "Next scheduled restart:",
+  "restart.notScheduled": "not scheduled",
+  "restart.last": "Last restart: {time}",
+  "restart.report": "Server restarted",
+  "restart.schedule": "Restart schedule",
+  "restart.scheduleLabel": "Restart schedule (cron)",
+  "restart.ingameTimeLabel": "Minecraft time after a restart",
+
+  "planner.title": "Phase planner",
+  "planner.resource": "Resource",
+  "planner.attempts": "Attempts",
+  "planner.interval": "One attempt every {minutes} min",
+  "planner.phases": "Required phases",
+  "planner.noClock": "Enter a Minecraft time to plan around phases.",
+  "planner.empty": "No attempt falls within the selected phases.",
+  "planner.confidence": "{percent}% confidence",
+
+  "timeline.title": "Spawn timeline",
+  "timeline.zoom": "Zoom",
+  "timeline.zoomHours": "{hours} h",
+  "timeline.noClock": "Enter a Minecraft time to show the day/night phases.",
+  "timeline.projected": "projected",
+  "timeline.unreliable": "after a restart, unreliable",
+  "timeline.restartAt": "Restart scheduled at {time}",
+  "timeline.now": "Now",
+
+  "clock.title": "Minecraft clock",
+  "clock.drift": "Estimated drift:",
+  "clock.fitted": {
+    one: "(fitted on {count} observation since the last restart)",
+    other: "(fitted on {count} observations since the last restart)",
+  },
+  "clock.empty": "No recent observation: the entered Minecraft time is used as is.",
+  "clock.probableRestart": "Probable restart",
+
+  "locations.title": "Location management",
+  "locations.updateFailed": "Updating the locations failed. Details: {details}",
+  "locations.nameRequired": "Please enter a location name.",
+  "locations.duplicate": "A location already has this name.",
+  "locations.respawnPositive": "The respawn duration must be greater than zero.",
+  "locations.cyclePositive": "The cycle must be greater than zero.",
+  "locations.jitterNotNegative": "The cycle margin cannot be negative.",
+  "locations.nameOf": "Name of {label}",
+  "locations.cycle": "Cycle",
+  "locations.cycleOf": "Recurring cycle of {label} (minutes)",
+  "locations.jitterOf": "Cycle margin of {label} (minutes)",
+  "locations.rename": "Rename",
+  "locations.moveUp": "Move {label} up",
+  "locations.moveDown": "Move {label} down",
+  "locations.archive": "Archive",
+  "locations.restore": "Restore",
+  "locations.newName": "New location name",
+  "locations.newPlaceholder": "New location",
+  "locations.newIcon": "New location icon",
+  "locations.defaultRespawn": "Default respawn duration",
+  "locations.add": "Add",
+
+  "conditions.moonNow": "Moon:",
+  "conditions.moonDay": "{moon} (day {day})",
+  "conditions.moonUnknown": "unknown moon",
+  "conditions.weatherNow": "Weather:",
+  "conditions.weatherUntil": "{weather} until {time}",
+  "conditions.weatherUnknown": "unknown weather",
+  "conditions.report": "Report day / weather",
+  "conditions.dayLabel": "In-game day (/time query day)",
+  "conditions.dayPlaceholder": "Day",
+  "conditions.reportDay": "Report the day",
+  "conditions.weatherLabel": "Observed weather",
+  "conditions.durationLabel": "How long the report holds",
+  "conditions.reportWeather": "Report the weather",
+  "conditions.invalidDay": "The day must be a whole number, zero or more.",
+  "conditions.updateFailed": "Reporting failed. Details: {details}",
+
+  "overlay.openDashboard": "Open the dashboard",
+  "overlay.minecraftClock": "Minecraft: {clock} · {phase}",
+  "overlay.empty": "No location selected.",
+  "overlay.reconnecting": "Connection lost, retrying…",
+
+  "legendaries.toggle": "Legendaries ({count})",
+  "legendaries.empty": "No legendary configured.",
+  "legendaries.anyCondition": "always",
+  "legendaries.phasesOf": "Phases of {name}",
+  "legendaries.weatherOf": "Weather of {name}",
+  "legendaries.remove": "Remove {name}",
+  "legendaries.newName": "Legendary name",
+  "legendaries.add": "Add",
+  "legendaries.nameRequired": "Please enter the legendary's name.",
+  "legendaries.duplicate": "This legendary is already in the list.",
+
+  "feed.eventTitle": "{label} spawn",
+
+  "bot.command.description": "Legendary spawn timers",
+  "bot.status.description": "Shows every resource with its countdown and phase",
+  "bot.set.description": "Sets the next spawn of a resource",
+  "bot.mctime.description": "Records the observed Minecraft time",
+  "bot.option.resource": "Resource, by id (ressources-01) or abbreviation (r1)",
+  "bot.option.duration": "Time left, for example 45m30s or 45:30",
+  "bot.option.time": "Minecraft time, for example 18:20",
+  "bot.option.allResources": "Resource (all of them by default)",
+  "bot.statusTitle": "**{server}** — upcoming spawns",
+  "bot.statusEmpty": "No active resource.",
+  "bot.toReset": "to be reset",
+  "bot.invalidDuration": "Invalid duration: use for example 45m30s or 45:30.",
+  "bot.unknownResource": "Unknown resource: {query}.",
+  "bot.ambiguousResource": "\"{query}\" matches several resources: {candidates}. Please pick one.",
+  "bot.resourceSuggestions": "Close matches: {candidates}.",
+  "bot.forbidden": "You do not have the role required to change timers.",
+  "bot.unknownCommand": "Unknown command.",
+  "bot.spawnSet": "**{label}**: next spawn {relative} ({time}).",
+  "bot.ingameTimeSet": {
+    one: "Minecraft time {time} recorded for {count} resource.",
+    other: "Minecraft time {time} recorded for {count} resources.",
+  },
+  "bot.failed": "The command failed: {details}",
+
+  "notifications.title": "{label} — spawn in {minutes} min",
+  "notifications.projectedSuffix": " (projected)",
+  "notifications.imminent": "Next spawn attempt coming up.",
+  "notifications.phaseAtSpawn": "Phase at spawn: {phase}",
+  "notifications.expiredTitle": "{label} — needs resetting",
+  "notifications.expiredContent":
+    "The **{label}** timer ran out ({relative}). Remember to set it again.",
+  "notifications.upcomingContent": "**{label}**: next spawn attempt {relative}.",
+  "notifications.nextSpawnField": "Next spawn",
+  "notifications.phaseField": "Phase at spawn",
+  "notifications.unknownClock": "Unknown Minecraft time",
+
+  "api.unauthorized": "Unauthorized.",
+  "api.invalidSignature": "Invalid signature.",
+  "api.invalidJson": "Invalid JSON body.",
+  "api.unknownResource": "Unknown resource.",
+  "api.timerConflict": "The timer was changed in the meantime.",
+  "api.emptyUpdate": "The update returned no data.",
+  "api.discordEnvMissing":
+    "The DISCORD_APPLICATION_ID and DISCORD_BOT_TOKEN environment variables are required.",
+  "api.invalidPushSubscription": "Invalid push subscription.",
+  "api.invalidPushEndpoint": "Invalid endpoint.",
+  "api.pushSubscriptionOwned": "This subscription belongs to another account.",
+};
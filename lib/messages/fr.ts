@@ -0,0 +1,339 @@
+import type { Message } from "@/lib/i18n";
+
+// Reference catalogue: every other locale must provide the same keys.
+export const fr = {
+  "common.unknownError": "Erreur inconnue",
+  "common.close": "Fermer",
+  "common.save": "Enregistrer",
+  "common.saving": "Enregistrement...",
+  "common.minutesShort": "min",
+  "common.secondsShort": "sec",
+
+  "locale.label": "Langue",
+  "locale.fr": "Français",
+  "locale.en": "English",
+
+  "timeZone.label": "Fuseau horaire",
+  "timeZone.auto": "Automatique ({zone})",
+
+  "phase.dawn": "Aube",
+  "phase.morning": "Matin",
+  "phase.afternoon": "Après-midi",
+  "phase.dusk": "Crépuscule",
+  "phase.night": "Nuit",
+
+  "weather.clear": "temps clair",
+  "weather.rain": "pluie",
+  "weather.thunder": "orage",
+
+  "moon.full": "Pleine lune",
+  "moon.waning_gibbous": "Gibbeuse décroissante",
+  "moon.last_quarter": "Dernier quartier",
+  "moon.waning_crescent": "Dernier croissant",
+  "moon.new": "Nouvelle lune",
+  "moon.waxing_crescent": "Premier croissant",
+  "moon.first_quarter": "Premier quartier",
+  "moon.waxing_gibbous": "Gibbeuse croissante",
+
+  "countdown.toReset": "À redéfinir",
+  "countdown.seconds": { one: "Dans {count} seconde", other: "Dans {count} secondes" },
+  "countdown.minutes": { one: "Dans {count} minute", other: "Dans {count} minutes" },
+
+  "elapsed.justNow": "à l'instant",
+  "elapsed.minutes": "il y a {count} min",
+  "elapsed.hours": "il y a {count} h",
+  "elapsed.days": "il y a {count} j",
+
+  "attribution.by": "modifié par {name} {elapsed}",
+  "attribution.anonymous": "modifié {elapsed}",
+
+  "validation.invalidTime": "Veuillez saisir un temps valide.",
+  "validation.secondsRange": "Les secondes doivent être comprises entre 0 et 59.",
+  "validation.positiveTime": "Veuillez saisir un temps supérieur à zéro.",
+  "validation.ingameTimeRequired":
+    "Veuillez saisir une heure Minecraft au format HH:MM.",
+  "validation.ingameTimeFormat":
+    "Format de temps Minecraft invalide. Utilisez HH:MM.",
+
+  "dashboard.servers": "Serveurs",
+  "dashboard.refresh": "Actualiser les horaires",
+  "dashboard.refreshing": "Actualisation...",
+  "dashboard.alerts.open": "Mes alertes",
+  "dashboard.alerts.close": "Fermer les alertes",
+  "dashboard.planner.open": "Planificateur",
+  "dashboard.planner.close": "Fermer le planificateur",
+  "dashboard.clock.open": "Horloge",
+  "dashboard.clock.close": "Fermer l'horloge",
+  "dashboard.locations.open": "Gérer les lieux",
+  "dashboard.locations.close": "Fermer la gestion",
+  "dashboard.connection.live": "En direct",
+  "dashboard.connection.connecting": "Connexion...",
+  "dashboard.connection.offline": "Déconnecté (actualisation périodique)",
+  "dashboard.hint":
+    "Le temps saisi est appliqué automatiquement. L’heure Minecraft ne doit être renseignée qu’en cas de changement (ex. après un redémarrage).",
+  "dashboard.loading": "Chargement des horaires...",
+  "dashboard.loadError":
+    "Impossible de récupérer les horaires. Vérifiez votre connexion ou la configuration Supabase. Détails : {details}",
+  "dashboard.unknownResource": "Ressource inconnue.",
+  "dashboard.updateFailed":
+    "La mise à jour a échoué. Veuillez réessayer ou vérifier Supabase. Détails : {details}",
+  "dashboard.conflictFailed": "La mise à jour a échoué. Détails : {details}",
+  "dashboard.spawnFailed": "L'enregistrement du spawn a échoué. Détails : {details}",
+  "dashboard.ingameTimeFailed":
+    "La mise à jour de l'heure Minecraft a échoué. Détails : {details}",
+  "dashboard.nextSpawn": "Prochain spawn estimé :",
+  "dashboard.spawnWindow": ", entre {earliest} et {latest}",
+  "dashboard.projected": "projeté",
+  "dashboard.conditionsAtSpawn": "Conditions au spawn :",
+  "dashboard.phaseIconAlt": "Phase {phase}",
+  "dashboard.clockStale":
+    "Redémarrage depuis la dernière heure Minecraft : à ressaisir.",
+  "dashboard.pastRestart":
+    "Après le prochain redémarrage prévu : prévision peu fiable.",
+  "dashboard.confirmProjection": "Confirmer",
+  "dashboard.edit": "Modifier",
+  "dashboard.ingameTime.show": "Heure Minecraft",
+  "dashboard.ingameTime.hide": "Masquer heure Minecraft",
+  "dashboard.spawned": "Apparu",
+  "dashboard.stats.show": "Stats",
+  "dashboard.stats.hide": "Masquer stats",
+  "dashboard.history.show": "Historique",
+  "dashboard.history.hide": "Masquer historique",
+  "dashboard.nextAttempt": "Prochaine tentative d'apparition :",
+  "dashboard.saveNextSpawn": "Enregistrer le prochain spawn",
+  "dashboard.wouldLandAt": "Tomberait à {time} :",
+  "dashboard.observedIngameTime": "Heure Minecraft observée :",
+  "dashboard.phasePreviewHint": "Saisissez HH:MM pour obtenir la phase estimée",
+  "dashboard.phasePreview": "Phase estimée : {phase}",
+  "dashboard.legendarySpawned": "Légendaire apparu :",
+  "dashboard.optional": "Facultatif",
+  "dashboard.confirmSpawn": "Confirmer le spawn",
+  "dashboard.caughtBy": "Capturé par",
+  "dashboard.possibleLegendaries": "Légendaires possibles :",
+  "dashboard.noPossibleLegendary": "aucun à cette phase",
+  "dashboard.copyDiscord": "Copier pour Discord",
+  "dashboard.copyDiscordHint":
+    "Copie {token} : chaque joueur voit l'heure dans son propre fuseau.",
+  "dashboard.copied": "Copié !",
+  "dashboard.copyFailed": "La copie a échoué. Détails : {details}",
+  "dashboard.offlineSince":
+    "Données hors ligne depuis {time} : les comptes à rebours restent calculés sur cet appareil.",
+  "dashboard.pendingEdits": {
+    one: "{count} modification en attente de synchronisation.",
+    other: "{count} modifications en attente de synchronisation.",
+  },
+  "dashboard.offlineReplayFailed":
+    "Une modification faite hors ligne n'a pas pu être envoyée. Détails : {details}",
+  "dashboard.offlineStorageUnavailable":
+    "Le stockage hors ligne n'est pas disponible sur ce navigateur : la modification n'a pas pu être mise en attente.",
+
+  "conflict.title": "{resource} a été modifié entre-temps",
+  "conflict.description":
+    "Quelqu'un a enregistré une autre valeur pendant votre saisie. Choisissez celle à conserver.",
+  "conflict.attempted": "{field} (votre saisie)",
+  "conflict.current": "{field} (actuelle)",
+  "conflict.noValue": "Aucune valeur",
+  "conflict.field.nextSpawn": "Prochain spawn",
+  "conflict.field.ingameTime": "Heure Minecraft",
+  "conflict.keepCurrent": "Garder la valeur actuelle",
+  "conflict.overwrite": "Écraser avec ma saisie",
+
+  "quickEntry.open": "Saisie rapide",
+  "quickEntry.title": "Saisie rapide",
+  "quickEntry.noMatch": "Aucun lieu ne correspond.",
+  "quickEntry.missingOffset": "Ajoutez le temps restant, par exemple « r1 45:30 ».",
+  "quickEntry.previewSpawn": "{label} : prochain spawn dans {minutes} min {seconds} s",
+  "quickEntry.previewIngameTime": "{label} : heure Minecraft {time}",
+  "quickEntry.help":
+    "« r1 45:30 » règle le prochain spawn, « mc r1 18:20 » l'heure Minecraft. ↑↓ pour choisir, Entrée pour valider, Échap pour fermer.",
+  "quickEntry.hotkey": "Raccourci : {key}",
+
+  "undo.nextSpawn": "{label} : prochain spawn à {time}.",
+  "undo.ingameTime": "{label} : heure Minecraft {time}.",
+  "undo.action": "Annuler",
+  "undo.shortcut": "Ctrl+Z",
+
+  "history.loading": "Chargement de l'historique...",
+  "history.loadError": "Impossible de charger l'historique. Détails : {details}",
+  "history.empty": "Aucune modification enregistrée.",
+  "history.by": "par {name}",
+  "history.field": "{field} :",
+  "history.revert": "Rétablir",
+  "history.nothingToRestore": "Aucune valeur précédente à rétablir.",
+
+  "auth.failed": "La connexion a échoué. Détails : {details}",
+  "auth.emailRequired": "Veuillez saisir une adresse e-mail.",
+  "auth.magicLinkSent": "Lien de connexion envoyé. Vérifiez votre boîte mail.",
+  "auth.signedInAs": "Connecté en tant que",
+  "auth.unnamedUser": "Utilisateur",
+  "auth.signOut": "Se déconnecter",
+  "auth.readOnly": "Lecture seule — connectez-vous pour modifier les horaires.",
+  "auth.discord": "Connexion Discord",
+  "auth.magicLink": "Lien magique",
+  "auth.emailPlaceholder": "vous@exemple.fr",
+  "auth.sendLink": "Envoyer le lien",
+
+  "alerts.title": "Mes alertes",
+  "alerts.permissionDenied":
+    "Les notifications sont bloquées par le navigateur pour ce site.",
+  "alerts.watched": "Lieux surveillés (enregistrés sur cet appareil)",
+  "alerts.leadBefore": "Prévenir",
+  "alerts.leadAfter": "min avant le spawn",
+  "alerts.sound": "Son",
+  "alerts.notifications": "Notifications du navigateur",
+  "alerts.pushSignIn":
+    "Connectez-vous pour les recevoir aussi lorsque l'onglet est fermé.",
+
+  "stats.loadError": "Impossible de charger l'historique. Détails : {details}",
+  "stats.loading": "Chargement de l'historique...",
+  "stats.spawns": "Spawns ({days} j) :",
+  "stats.averageInterval": "Intervalle moyen :",
+  "stats.spawnsPerDay": "Spawns par jour :",
+  "stats.empty": "Aucun spawn confirmé sur la période.",
+  "stats.caughtBy": "capturé par {name}",
+
+  "restart.updateFailed": "La mise à jour du serveur a échoué. Détails : {details}",
+  "restart.invalidSchedule":
+    "Planning invalide. Format attendu : « minute heure jour mois jour-de-semaine ».",
+  "restart.next": "Prochain redémarrage prévu :",
+  "restart.notScheduled": "non planifié",
+  "restart.last": "Dernier redémarrage : {time}",
+  "restart.report": "Serveur redémarré",
+  "restart.schedule": "Planning des redémarrages",
+  "restart.scheduleLabel": "Planning des redémarrages (cron)",
+  "restart.ingameTimeLabel": "Heure Minecraft après redémarrage",
+
+  "planner.title": "Planificateur de phase",
+  "planner.resource": "Ressource",
+  "planner.attempts": "Tentatives",
+  "planner.interval": "Une tentative toutes les {minutes} min",
+  "planner.phases": "Phases requises",
+  "planner.noClock": "Renseignez une heure Minecraft pour planifier selon les phases.",
+  "planner.empty": "Aucune tentative ne tombe dans les phases choisies.",
+  "planner.confidence": "confiance {percent} %",
+
+  "timeline.title": "Frise des spawns",
+  "timeline.zoom": "Zoom",
+  "timeline.zoomHours": "{hours} h",
+  "timeline.noClock":
+    "Renseignez une heure Minecraft pour afficher les phases jour/nuit.",
+  "timeline.projected": "projeté",
+  "timeline.unreliable": "après redémarrage, peu fiable",
+  "timeline.restartAt": "Redémarrage prévu à {time}",
+  "timeline.now": "Maintenant",
+
+  "clock.title": "Horloge Minecraft",
+  "clock.drift": "Dérive estimée :",
+  "clock.fitted": {
+    one: "(ajustée sur {count} observation depuis le dernier redémarrage)",
+    other: "(ajustée sur {count} observations depuis le dernier redémarrage)",
+  },
+  "clock.empty":
+    "Aucune observation récente : l'heure Minecraft saisie est utilisée telle quelle.",
+  "clock.probableRestart": "Redémarrage probable",
+
+  "locations.title": "Gestion des lieux",
+  "locations.updateFailed": "La modification des lieux a échoué. Détails : {details}",
+  "locations.nameRequired": "Veuillez saisir un nom de lieu.",
+  "locations.duplicate": "Un lieu porte déjà ce nom.",
+  "locations.respawnPositive": "La durée de réapparition doit être supérieure à zéro.",
+  "locations.cyclePositive": "Le cycle doit être supérieur à zéro.",
+  "locations.jitterNotNegative": "La marge du cycle ne peut pas être négative.",
+  "locations.nameOf": "Nom de {label}",
+  "locations.cycle": "Cycle",
+  "locations.cycleOf": "Cycle récurrent de {label} (minutes)",
+  "locations.jitterOf": "Marge du cycle de {label} (minutes)",
+  "locations.rename": "Renommer",
+  "locations.moveUp": "Monter {label}",
+  "locations.moveDown": "Descendre {label}",
+  "locations.archive": "Archiver",
+  "locations.restore": "Restaurer",
+  "locations.newName": "Nom du nouveau lieu",
+  "locations.newPlaceholder": "Nouveau lieu",
+  "locations.newIcon": "Icône du nouveau lieu",
+  "locations.defaultRespawn": "Durée de réapparition par défaut",
+  "locations.add": "Ajouter",
+
+  "conditions.moonNow": "Lune :",
+  "conditions.moonDay": "{moon} (jour {day})",
+  "conditions.moonUnknown": "lune inconnue",
+  "conditions.weatherNow": "Météo :",
+  "conditions.weatherUntil": "{weather} jusqu'à {time}",
+  "conditions.weatherUnknown": "météo inconnue",
+  "conditions.report": "Signaler jour / météo",
+  "conditions.dayLabel": "Jour en jeu (/time query day)",
+  "conditions.dayPlaceholder": "Jour",
+  "conditions.reportDay": "Signaler le jour",
+  "conditions.weatherLabel": "Météo observée",
+  "conditions.durationLabel": "Durée de validité du signalement",
+  "conditions.reportWeather": "Signaler la météo",
+  "conditions.invalidDay": "Le jour doit être un entier positif.",
+  "conditions.updateFailed": "Le signalement a échoué. Détails : {details}",
+
+  "overlay.openDashboard": "Ouvrir le tableau",
+  "overlay.minecraftClock": "Minecraft : {clock} · {phase}",
+  "overlay.empty": "Aucun lieu sélectionné.",
+  "overlay.reconnecting": "Connexion perdue, nouvelle tentative…",
+
+  "legendaries.toggle": "Légendaires ({count})",
+  "legendaries.empty": "Aucun légendaire configuré.",
+  "legendaries.anyCondition": "toujours",
+  "legendaries.phasesOf": "Phases de {name}",
+  "legendaries.weatherOf": "Météo de {name}",
+  "legendaries.remove": "Retirer {name}",
+  "legendaries.newName": "Nom du légendaire",
+  "legendaries.add": "Ajouter",
+  "legendaries.nameRequired": "Veuillez saisir le nom du légendaire.",
+  "legendaries.duplicate": "Ce légendaire est déjà dans la liste.",
+
+  "feed.eventTitle": "Spawn {label}",
+
+  "bot.command.description": "Minuteurs de spawn des légendaires",
+  "bot.status.description": "Affiche chaque ressource avec son compte à rebours et sa phase",
+  "bot.set.description": "Définit le prochain spawn d'une ressource",
+  "bot.mctime.description": "Enregistre l'heure Minecraft observée",
+  "bot.option.resource": "Ressource, par identifiant (ressources-01) ou abréviation (r1)",
+  "bot.option.duration": "Temps restant, par exemple 45m30s ou 45:30",
+  "bot.option.time": "Heure Minecraft, par exemple 18:20",
+  "bot.option.allResources": "Ressource (toutes par défaut)",
+  "bot.statusTitle": "**{server}** — prochains spawns",
+  "bot.statusEmpty": "Aucune ressource active.",
+  "bot.toReset": "à redéfinir",
+  "bot.invalidDuration": "Durée invalide : utilisez par exemple 45m30s ou 45:30.",
+  "bot.unknownResource": "Ressource inconnue : {query}.",
+  "bot.ambiguousResource": "« {query} » désigne plusieurs ressources : {candidates}. Précisez laquelle.",
+  "bot.resourceSuggestions": "Ressources proches : {candidates}.",
+  "bot.forbidden": "Vous n'avez pas le rôle requis pour modifier les minuteurs.",
+  "bot.unknownCommand": "Commande inconnue.",
+  "bot.spawnSet": "**{label}** : prochain spawn {relative} ({time}).",
+  "bot.ingameTimeSet": {
+    one: "Heure Minecraft {time} enregistrée pour {count} ressource.",
+    other: "Heure Minecraft {time} enregistrée pour {count} ressources.",
+  },
+  "bot.failed": "La commande a échoué : {details}",
+
+  "notifications.title": "{label} — spawn dans {minutes} min",
+  "notifications.projectedSuffix": " (projeté)",
+  "notifications.imminent": "Prochaine tentative d'apparition imminente.",
+  "notifications.phaseAtSpawn": "Phase au spawn : {phase}",
+  "notifications.expiredTitle": "{label} — à redéfinir",
+  "notifications.expiredContent":
+    "Le timer de **{label}** est écoulé ({relative}). Pensez à le redéfinir.",
+  "notifications.upcomingContent":
+    "**{label}** : prochaine tentative d'apparition {relative}.",
+  "notifications.nextSpawnField": "Prochain spawn",
+  "notifications.phaseField": "Phase au spawn",
+  "notifications.unknownClock": "Heure Minecraft inconnue",
+
+  "api.unauthorized": "Non autorisé.",
+  "api.invalidSignature": "Signature invalide.",
+  "api.invalidJson": "Corps JSON invalide.",
+  "api.unknownResource": "Ressource inconnue.",
+  "api.timerConflict": "Le minuteur a été modifié entre-temps.",
+  "api.emptyUpdate": "La mise à jour n'a retourné aucune donnée.",
+  "api.discordEnvMissing":
+    "Les variables d'environnement DISCORD_APPLICATION_ID et DISCORD_BOT_TOKEN sont requises.",
+  "api.invalidPushSubscription": "Abonnement push invalide.",
+  "api.invalidPushEndpoint": "Endpoint invalide.",
+  "api.pushSubscriptionOwned": "Abonnement enregistré par un autre compte.",
+} satisfies Record<string, Message>;
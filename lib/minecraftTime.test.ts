@@ -0,0 +1,170 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  deriveLiveMinecraftClock,
+  deriveMinecraftClockAtDate,
+  formatMinecraftClock,
+  getMinecraftDayAt,
+  getMinecraftPhaseFromMinutes,
+  getMoonPhase,
+  MinecraftClockAnchor,
+  parseMinecraftTime,
+} from "@/lib/minecraftTime";
+
+const SAVED_AT_MS = Date.parse("2026-10-19T12:00:00Z");
+
+// At the nominal rate one Minecraft minute lasts 50/60 of a real second.
+const realMsFor = (minecraftMinutes: number) => (minecraftMinutes * 50_000) / 60;
+
+const anchorAt = (ingameTime: string): MinecraftClockAnchor => ({
+  ingame_time: ingameTime,
+  ingame_time_saved_at: new Date(SAVED_AT_MS).toISOString(),
+});
+
+describe("parseMinecraftTime", () => {
+  it("reads HH:MM as minutes since midnight", () => {
+    expect(parseMinecraftTime("00:00")).toBe(0);
+    expect(parseMinecraftTime("18:20")).toBe(1_100);
+    expect(parseMinecraftTime(" 23:59 ")).toBe(1_439);
+  });
+
+  it("rejects anything that is not a 24-hour time", () => {
+    for (const value of ["", "7", "24:00", "12:60", "-1:30", "ab:cd"]) {
+      expect(parseMinecraftTime(value)).toBeNull();
+    }
+  });
+});
+
+describe("formatMinecraftClock", () => {
+  it("formats cycle seconds, wrapping at 24:00", () => {
+    expect(formatMinecraftClock(0)).toBe("00:00");
+    expect(formatMinecraftClock(325)).toBe("06:30");
+    expect(formatMinecraftClock(1_200)).toBe("00:00");
+  });
+});
+
+describe("getMinecraftPhaseFromMinutes", () => {
+  it.each([
+    [272, "night"],
+    [273, "dawn"],
+    [386, "dawn"],
+    [387, "morning"],
+    [719, "morning"],
+    [720, "afternoon"],
+    [1_056, "afternoon"],
+    [1_057, "dusk"],
+    [1_187, "dusk"],
+    [1_188, "night"],
+    [1_439, "night"],
+    [0, "night"],
+  ] as const)("%i min is %s", (minutes, phase) => {
+    expect(getMinecraftPhaseFromMinutes(minutes).phase).toBe(phase);
+  });
+
+  it("wraps minutes past midnight and before it", () => {
+    expect(getMinecraftPhaseFromMinutes(1_440 + 273)).toEqual({
+      phase: "dawn",
+      timeLabel: "04:33",
+    });
+    expect(getMinecraftPhaseFromMinutes(-1)).toEqual({
+      phase: "night",
+      timeLabel: "23:59",
+    });
+    expect(getMinecraftPhaseFromMinutes(-1_440 + 720)).toEqual({
+      phase: "afternoon",
+      timeLabel: "12:00",
+    });
+  });
+});
+
+describe("deriveLiveMinecraftClock", () => {
+  it("returns null without a usable anchor", () => {
+    expect(deriveLiveMinecraftClock(undefined, SAVED_AT_MS)).toBeNull();
+    expect(
+      deriveLiveMinecraftClock(
+        { ...anchorAt("00:00"), ingame_time: "25:00" },
+        SAVED_AT_MS
+      )
+    ).toBeNull();
+    expect(
+      deriveLiveMinecraftClock(
+        { ingame_time: "12:00", ingame_time_saved_at: "not a date" },
+        SAVED_AT_MS
+      )
+    ).toBeNull();
+  });
+
+  it("wraps at midnight", () => {
+    expect(
+      deriveLiveMinecraftClock(anchorAt("23:50"), SAVED_AT_MS + realMsFor(18))
+    ).toEqual({
+      clock: "00:08",
+      phaseDetails: { phase: "night", timeLabel: "00:08" },
+    });
+  });
+
+  it("holds the anchor for moments before it was saved", () => {
+    expect(
+      deriveLiveMinecraftClock(anchorAt("18:20"), SAVED_AT_MS - 60_000)?.clock
+    ).toBe("18:20");
+  });
+
+  it("follows a fitted tick rate", () => {
+    const halfSpeed = { ...anchorAt("12:00"), seconds_per_real_second: 36 };
+
+    expect(
+      deriveLiveMinecraftClock(halfSpeed, SAVED_AT_MS + realMsFor(60))?.clock
+    ).toBe("12:30");
+  });
+});
+
+describe("deriveMinecraftClockAtDate", () => {
+  it("predicts the phase at each boundary", () => {
+    const anchor = anchorAt("00:00");
+
+    for (const [minutes, phase] of [
+      [273, "dawn"],
+      [387, "morning"],
+      [720, "afternoon"],
+      [1_057, "dusk"],
+      [1_188, "night"],
+    ] as const) {
+      const at = (offset: number) =>
+        deriveMinecraftClockAtDate(
+          anchor,
+          new Date(SAVED_AT_MS + realMsFor(minutes + offset))
+        );
+
+      // Half a minute on each side: Date truncates to whole milliseconds.
+      expect(at(0.5)?.phase).toBe(phase);
+      expect(at(-0.5)?.phase).not.toBe(phase);
+    }
+  });
+
+  it("treats a negative elapsed time as the anchor itself", () => {
+    expect(
+      deriveMinecraftClockAtDate(anchorAt("05:00"), new Date(SAVED_AT_MS - 3_600_000))
+    ).toEqual({ phase: "dawn", timeLabel: "05:00" });
+  });
+});
+
+describe("getMinecraftDayAt", () => {
+  it("counts the 06:00 rollovers since the report", () => {
+    const anchor = anchorAt("05:00");
+    const report = { day: 7, reportedAtMs: SAVED_AT_MS };
+
+    expect(getMinecraftDayAt(anchor, report, SAVED_AT_MS + realMsFor(59))).toBe(7);
+    expect(getMinecraftDayAt(anchor, report, SAVED_AT_MS + realMsFor(60))).toBe(8);
+    expect(
+      getMinecraftDayAt(anchor, report, SAVED_AT_MS + realMsFor(60 + 1_440))
+    ).toBe(9);
+  });
+});
+
+describe("getMoonPhase", () => {
+  it("maps days onto the 8-day moon cycle", () => {
+    expect(getMoonPhase(0)).toBe("full");
+    expect(getMoonPhase(4)).toBe("new");
+    expect(getMoonPhase(9)).toBe("waning_gibbous");
+  });
+});
@@ -0,0 +1,341 @@
+export const MINECRAFT_CYCLE_SECONDS = 1_200;
+export const MINECRAFT_DAY_SECONDS = 600;
+export const MINECRAFT_DUSK_SECONDS = 90;
+export const MINECRAFT_NIGHT_SECONDS = 420;
+export const MINECRAFT_DAWN_SECONDS = 90;
+export const MINECRAFT_HOUR_SECONDS = 50;
+export const MINECRAFT_MINUTES_PER_DAY = 24 * 60;
+export const MINECRAFT_SECONDS_PER_REAL_SECOND =
+  (60 * 60) / MINECRAFT_HOUR_SECONDS;
+export const MINECRAFT_SECONDS_PER_DAY = MINECRAFT_MINUTES_PER_DAY * 60;
+
+// Locale-independent identifiers; labels come from the i18n catalogues.
+export const MINECRAFT_PHASES = [
+  "dawn",
+  "morning",
+  "afternoon",
+  "dusk",
+  "night",
+] as const;
+
+export type MinecraftPhase = (typeof MINECRAFT_PHASES)[number];
+
+// Thresholds (HH:MM):
+// 04:33 -> 273 min : start of dawn (aube)
+// 06:27 -> 387 min : start of day (jour)
+// 12:00 -> 720 min : midday separator for morning/afternoon
+// 17:37 -> 1,057 min : start of dusk (crépuscule)
+// 19:48 -> 1,188 min : start of night (nuit)
+// Day wraps at 24:00 -> 1,440 min
+export const MINECRAFT_PHASE_START_MINUTES: Record<MinecraftPhase, number> = {
+  dawn: 273,
+  morning: 387,
+  afternoon: 720,
+  dusk: 1_057,
+  night: 1_188,
+};
+
+export const PHASE_ICON_MAP: Record<MinecraftPhase, string> = {
+  morning: "/phase-morning.svg",
+  afternoon: "/phase-afternoon.svg",
+  night: "/phase-night.svg",
+  dawn: "/phase-dawn.svg",
+  dusk: "/phase-dusk.svg",
+};
+
+// The in-game day count ticks over at 06:00 (tick 0), not at midnight, so a
+// whole night belongs to one day.
+export const MINECRAFT_DAY_START_MINUTES = 6 * 60;
+
+// Minecraft's 8-day moon cycle, starting with the full moon on day 0.
+export const MOON_PHASES = [
+  "full",
+  "waning_gibbous",
+  "last_quarter",
+  "waning_crescent",
+  "new",
+  "waxing_crescent",
+  "first_quarter",
+  "waxing_gibbous",
+] as const;
+
+export type MoonPhase = (typeof MOON_PHASES)[number];
+
+export const isMinecraftPhase = (value: unknown): value is MinecraftPhase =>
+  (MINECRAFT_PHASES as readonly unknown[]).includes(value);
+
+export type MinecraftPhaseDetails = {
+  phase: MinecraftPhase;
+  timeLabel: string | null;
+};
+
+export type LiveMinecraftClock = {
+  clock: string;
+  phaseDetails: MinecraftPhaseDetails;
+};
+
+export type MinecraftClockAnchor = {
+  ingame_time: string | null;
+  ingame_time_saved_at: string | null;
+  // Fitted tick rate (see lib/clockDrift.ts); nominal when absent.
+  seconds_per_real_second?: number;
+};
+
+const getAnchorSecondsPerRealSecond = (
+  anchor: MinecraftClockAnchor | undefined
+) => anchor?.seconds_per_real_second ?? MINECRAFT_SECONDS_PER_REAL_SECOND;
+
+const formatTwoDigits = (value: number) => value.toString().padStart(2, "0");
+
+const normalizeMinecraftMinutes = (minutes: number) =>
+  ((minutes % MINECRAFT_MINUTES_PER_DAY) + MINECRAFT_MINUTES_PER_DAY) %
+  MINECRAFT_MINUTES_PER_DAY;
+
+const formatMinutesLabel = (normalizedMinutes: number) =>
+  `${formatTwoDigits(Math.floor(normalizedMinutes / 60) % 24)}:${formatTwoDigits(
+    Math.floor(normalizedMinutes % 60)
+  )}`;
+
+/**
+ * Parses an in-game "HH:MM" value into minutes since Minecraft midnight.
+ * Returns null for anything that is not a valid 24-hour time.
+ */
+export const parseMinecraftTime = (value: string): number | null => {
+  const [hoursPart, minutesPart] = value.trim().split(":");
+
+  if (!hoursPart || !minutesPart) {
+    return null;
+  }
+
+  const hours = Number.parseInt(hoursPart, 10);
+  const minutes = Number.parseInt(minutesPart, 10);
+
+  if (
+    Number.isNaN(hours) ||
+    Number.isNaN(minutes) ||
+    hours < 0 ||
+    hours > 23 ||
+    minutes < 0 ||
+    minutes > 59
+  ) {
+    return null;
+  }
+
+  return hours * 60 + minutes;
+};
+
+export const formatMinecraftClock = (cycleSeconds: number) => {
+  const totalMinecraftHours = cycleSeconds / MINECRAFT_HOUR_SECONDS;
+  const minecraftHour = Math.floor(totalMinecraftHours) % 24;
+  const minecraftMinute = Math.floor((totalMinecraftHours % 1) * 60);
+
+  return `${formatTwoDigits(minecraftHour)}:${formatTwoDigits(minecraftMinute)}`;
+};
+
+export const getMinecraftPhaseFromMinutes = (
+  minutes: number
+): MinecraftPhaseDetails => {
+  const normalizedMinutes = normalizeMinecraftMinutes(minutes);
+  const timeLabel = formatMinutesLabel(normalizedMinutes);
+
+  if (
+    normalizedMinutes >= MINECRAFT_PHASE_START_MINUTES.dawn &&
+    normalizedMinutes < MINECRAFT_PHASE_START_MINUTES.morning
+  ) {
+    return { phase: "dawn", timeLabel };
+  }
+
+  if (
+    normalizedMinutes >= MINECRAFT_PHASE_START_MINUTES.morning &&
+    normalizedMinutes < MINECRAFT_PHASE_START_MINUTES.afternoon
+  ) {
+    return { phase: "morning", timeLabel };
+  }
+
+  if (
+    normalizedMinutes >= MINECRAFT_PHASE_START_MINUTES.afternoon &&
+    normalizedMinutes < MINECRAFT_PHASE_START_MINUTES.dusk
+  ) {
+    return { phase: "afternoon", timeLabel };
+  }
+
+  if (
+    normalizedMinutes >= MINECRAFT_PHASE_START_MINUTES.dusk &&
+    normalizedMinutes < MINECRAFT_PHASE_START_MINUTES.night
+  ) {
+    return { phase: "dusk", timeLabel };
+  }
+
+  return { phase: "night", timeLabel };
+};
+
+/**
+ * Minecraft minutes since the anchor's midnight (not normalized) at `atMs`,
+ * extrapolated from the saved in-game time in both directions.
+ */
+const extrapolateMinecraftMinutes = (
+  anchor: MinecraftClockAnchor | undefined,
+  atMs: number
+): number | null => {
+  if (!anchor?.ingame_time || !anchor?.ingame_time_saved_at) {
+    return null;
+  }
+
+  const savedAtMs = new Date(anchor.ingame_time_saved_at).getTime();
+
+  if (Number.isNaN(savedAtMs) || Number.isNaN(atMs)) {
+    return null;
+  }
+
+  const baseMinutes = parseMinecraftTime(anchor.ingame_time);
+
+  if (baseMinutes === null) {
+    return null;
+  }
+
+  const elapsedRealSeconds = (atMs - savedAtMs) / 1000;
+  const elapsedMinecraftMinutes =
+    (elapsedRealSeconds * getAnchorSecondsPerRealSecond(anchor)) / 60;
+
+  return baseMinutes + elapsedMinecraftMinutes;
+};
+
+/**
+ * Minecraft minutes since midnight (not normalized) at `atMs`. Moments
+ * before the anchor resolve to the anchor itself since the clock cannot be
+ * rewound reliably.
+ */
+const getMinecraftMinutesAt = (
+  anchor: MinecraftClockAnchor | undefined,
+  atMs: number
+): number | null => {
+  const savedAtMs = anchor?.ingame_time_saved_at
+    ? new Date(anchor.ingame_time_saved_at).getTime()
+    : Number.NaN;
+
+  return extrapolateMinecraftMinutes(anchor, Math.max(atMs, savedAtMs));
+};
+
+export const deriveLiveMinecraftClock = (
+  anchor: MinecraftClockAnchor | undefined,
+  nowMs: number
+): LiveMinecraftClock | null => {
+  const totalMinutes = getMinecraftMinutesAt(anchor, nowMs);
+
+  if (totalMinutes === null) {
+    return null;
+  }
+
+  const phaseDetails = getMinecraftPhaseFromMinutes(totalMinutes);
+
+  return {
+    clock: formatMinutesLabel(normalizeMinecraftMinutes(totalMinutes)),
+    phaseDetails,
+  };
+};
+
+export const deriveMinecraftClockAtDate = (
+  anchor: MinecraftClockAnchor | undefined,
+  target: Date
+): MinecraftPhaseDetails | null => {
+  const totalMinutes = getMinecraftMinutesAt(anchor, target.getTime());
+
+  if (totalMinutes === null) {
+    return null;
+  }
+
+  return getMinecraftPhaseFromMinutes(totalMinutes);
+};
+
+// A day count read in game (`/time query day`) and when it was read.
+export type MinecraftDayReport = {
+  day: number;
+  reportedAtMs: number;
+};
+
+/**
+ * In-game day count at `atMs`: the reported day plus the 06:00 rollovers the
+ * anchor's clock goes through between the report and `atMs`.
+ */
+export const getMinecraftDayAt = (
+  anchor: MinecraftClockAnchor | undefined,
+  report: MinecraftDayReport,
+  atMs: number
+): number | null => {
+  const reportedMinutes = extrapolateMinecraftMinutes(anchor, report.reportedAtMs);
+  const targetMinutes = extrapolateMinecraftMinutes(anchor, atMs);
+
+  if (reportedMinutes === null || targetMinutes === null) {
+    return null;
+  }
+
+  const getDayIndex = (minutes: number) =>
+    Math.floor((minutes - MINECRAFT_DAY_START_MINUTES) / MINECRAFT_MINUTES_PER_DAY);
+
+  return report.day + getDayIndex(targetMinutes) - getDayIndex(reportedMinutes);
+};
+
+export const getMoonPhase = (day: number): MoonPhase =>
+  MOON_PHASES[((day % MOON_PHASES.length) + MOON_PHASES.length) % MOON_PHASES.length];
+
+export type MinecraftPhaseBand = {
+  phase: MinecraftPhase;
+  startMs: number;
+  endMs: number;
+};
+
+const PHASE_BOUNDARY_MINUTES = Object.values(
+  MINECRAFT_PHASE_START_MINUTES
+).sort((a, b) => a - b);
+
+/**
+ * Splits the real-time range [startMs, endMs) into consecutive phase bands
+ * extrapolated from the anchor. Unlike the live clock, moments before the
+ * anchor are extrapolated backwards so a timeline can start in the past.
+ */
+export const getMinecraftPhaseBands = (
+  anchor: MinecraftClockAnchor | undefined,
+  startMs: number,
+  endMs: number
+): MinecraftPhaseBand[] => {
+  const savedAtMs = anchor?.ingame_time_saved_at
+    ? new Date(anchor.ingame_time_saved_at).getTime()
+    : Number.NaN;
+
+  if (Number.isNaN(savedAtMs) || endMs <= startMs) {
+    return [];
+  }
+
+  const referenceMs = Math.max(startMs, savedAtMs);
+  const referenceMinutes = getMinecraftMinutesAt(anchor, referenceMs);
+
+  if (referenceMinutes === null) {
+    return [];
+  }
+
+  const realMsPerMinecraftMinute =
+    (60 * 1000) / getAnchorSecondsPerRealSecond(anchor);
+
+  const bands: MinecraftPhaseBand[] = [];
+  let cursorMs = startMs;
+  let cursorMinutes = normalizeMinecraftMinutes(
+    referenceMinutes - (referenceMs - startMs) / realMsPerMinecraftMinute
+  );
+
+  while (cursorMs < endMs) {
+    const { phase } = getMinecraftPhaseFromMinutes(cursorMinutes);
+    const nextBoundary =
+      PHASE_BOUNDARY_MINUTES.find((minutes) => minutes > cursorMinutes) ??
+      PHASE_BOUNDARY_MINUTES[0] + MINECRAFT_MINUTES_PER_DAY;
+    const bandEndMs = Math.min(
+      endMs,
+      cursorMs + (nextBoundary - cursorMinutes) * realMsPerMinecraftMinute
+    );
+
+    bands.push({ phase, startMs: cursorMs, endMs: bandEndMs });
+    cursorMs = bandEndMs;
+    cursorMinutes = normalizeMinecraftMinutes(nextBoundary);
+  }
+
+  return bands;
+};
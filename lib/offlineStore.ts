@@ -0,0 +1,233 @@
+// IndexedDB persistence for offline use: the last timers fetched per server,
+// and timer edits made while Supabase was unreachable, replayed once the
+// connection returns. Every function degrades to a no-op when IndexedDB is
+// unavailable (server rendering, private browsing).
+
+import { DEFAULT_LOCALE, Locale, translate } from "@/lib/i18n";
+import type { SpawnTimerRow, TimersState } from "@/lib/spawnTimers";
+
+const DB_NAME = "legs-info";
+const DB_VERSION = 1;
+const SNAPSHOT_STORE = "timer_snapshots";
+const PENDING_STORE = "pending_edits";
+
+export type TimersSnapshot = {
+  serverId: string;
+  timers: TimersState;
+  // When the timers were last fetched from Supabase.
+  savedAt: string;
+};
+
+export type PendingTimerEdit = {
+  id?: number;
+  serverId: string;
+  locationId: string;
+  label: string;
+  // updated_at of the row before the first offline edit, checked on replay.
+  expectedUpdatedAt: string | null;
+  queuedAt: string;
+} & (
+  | { field: "next_spawn"; nextSpawn: string }
+  | { field: "ingame_time"; ingameTime: string; ingameTimeSavedAt: string }
+);
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const openOfflineDb = () => {
+  if (typeof indexedDB === "undefined") {
+    return Promise.resolve(null);
+  }
+
+  dbPromise ??= new Promise<IDBDatabase | null>((resolve) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore(SNAPSHOT_STORE, { keyPath: "serverId" });
+      db.createObjectStore(PENDING_STORE, {
+        keyPath: "id",
+        autoIncrement: true,
+      }).createIndex("serverId", "serverId");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      console.warn("IndexedDB unavailable, offline mode disabled", request.error);
+      resolve(null);
+    };
+  });
+
+  return dbPromise;
+};
+
+// Messages of the TypeError thrown by fetch in Chromium, Firefox, Safari and
+// Node when the request never reached the server.
+const NETWORK_ERROR_PATTERN = /failed to fetch|networkerror|load failed|fetch failed/i;
+
+export const isNetworkError = (error: unknown) =>
+  (typeof navigator !== "undefined" && !navigator.onLine) ||
+  (error instanceof Error && NETWORK_ERROR_PATTERN.test(error.message));
+
+export const saveTimersSnapshot = async (snapshot: TimersSnapshot) => {
+  const db = await openOfflineDb();
+
+  if (!db) {
+    return;
+  }
+
+  const transaction = db.transaction(SNAPSHOT_STORE, "readwrite");
+  transaction.objectStore(SNAPSHOT_STORE).put(snapshot);
+  await transactionDone(transaction);
+};
+
+export const loadTimersSnapshot = async (serverId: string) => {
+  const db = await openOfflineDb();
+
+  if (!db) {
+    return null;
+  }
+
+  const snapshot = await requestToPromise(
+    db.transaction(SNAPSHOT_STORE).objectStore(SNAPSHOT_STORE).get(serverId)
+  );
+
+  return (snapshot ?? null) as TimersSnapshot | null;
+};
+
+// Oldest first, the order they must be replayed in.
+export const listPendingEdits = async (serverId: string) => {
+  const db = await openOfflineDb();
+
+  if (!db) {
+    return [];
+  }
+
+  const edits = await requestToPromise(
+    db
+      .transaction(PENDING_STORE)
+      .objectStore(PENDING_STORE)
+      .index("serverId")
+      .getAll(serverId)
+  );
+
+  return (edits as PendingTimerEdit[]).sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+};
+
+/**
+ * Queues an edit for replay. A newer edit of the same field replaces the
+ * queued one but keeps its expectedUpdatedAt, so the replay is still checked
+ * against the row as it was before going offline.
+ */
+export const queuePendingEdit = async (
+  edit: PendingTimerEdit,
+  // Language of the error thrown when the edit cannot be queued.
+  locale: Locale = DEFAULT_LOCALE
+) => {
+  const db = await openOfflineDb();
+
+  if (!db) {
+    throw new Error(translate(locale, "dashboard.offlineStorageUnavailable"));
+  }
+
+  const queued = await listPendingEdits(edit.serverId);
+  const previous = queued.find(
+    (item) => item.locationId === edit.locationId && item.field === edit.field
+  );
+  const transaction = db.transaction(PENDING_STORE, "readwrite");
+  const store = transaction.objectStore(PENDING_STORE);
+
+  if (previous?.id !== undefined) {
+    store.delete(previous.id);
+  }
+
+  store.add({
+    ...edit,
+    expectedUpdatedAt: previous ? previous.expectedUpdatedAt : edit.expectedUpdatedAt,
+  });
+  await transactionDone(transaction);
+};
+
+const REPLAY_LOCK_NAME = "legs-info-pending-edits";
+
+/**
+ * Runs `replay` unless another tab is already replaying: every tab shares the
+ * queue, and two replays would send the same edit twice. Browsers without the
+ * Web Locks API replay without it.
+ */
+export const withPendingEditsLock = async (replay: () => Promise<void>) => {
+  if (typeof navigator === "undefined" || !navigator.locks) {
+    await replay();
+    return;
+  }
+
+  await navigator.locks.request(
+    REPLAY_LOCK_NAME,
+    { ifAvailable: true },
+    async (lock) => {
+      if (lock) {
+        await replay();
+      }
+    }
+  );
+};
+
+export const removePendingEdit = async (id: number) => {
+  const db = await openOfflineDb();
+
+  if (!db) {
+    return;
+  }
+
+  const transaction = db.transaction(PENDING_STORE, "readwrite");
+  transaction.objectStore(PENDING_STORE).delete(id);
+  await transactionDone(transaction);
+};
+
+// The row as it will read once the edit is replayed; updated_at is kept so
+// later edits are still checked against the last server version.
+export const applyPendingEdit = (
+  row: SpawnTimerRow | undefined,
+  edit: PendingTimerEdit
+): SpawnTimerRow => {
+  const base: SpawnTimerRow = row ?? {
+    id: null,
+    server_id: edit.serverId,
+    text: edit.label,
+    next_spawn: null,
+    ingame_time: null,
+    ingame_time_saved_at: null,
+    updated_at: null,
+  };
+
+  return edit.field === "next_spawn"
+    ? { ...base, next_spawn: edit.nextSpawn }
+    : {
+        ...base,
+        ingame_time: edit.ingameTime,
+        ingame_time_saved_at: edit.ingameTimeSavedAt,
+      };
+};
+
+export const applyPendingEdits = (
+  timers: TimersState,
+  edits: PendingTimerEdit[]
+) =>
+  edits.reduce<TimersState>(
+    (acc, edit) => ({
+      ...acc,
+      [edit.locationId]: applyPendingEdit(acc[edit.locationId], edit),
+    }),
+    timers
+  );
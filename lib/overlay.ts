@@ -0,0 +1,68 @@
+import { DEFAULT_SERVER_ID } from "@/lib/servers";
+import { getActiveSpawnLocations, SpawnLocation } from "@/lib/spawnLocations";
+
+export const OVERLAY_THEMES = ["transparent", "dark"] as const;
+
+export type OverlayTheme = (typeof OVERLAY_THEMES)[number];
+
+// /overlay is made for OBS browser sources, /embed for iframes on a website.
+export type OverlayVariant = "overlay" | "embed";
+
+export type OverlayOptions = {
+  serverId: string;
+  // Empty means every active location.
+  resourceIds: string[];
+  theme: OverlayTheme;
+};
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+const getSearchParam = (params: SearchParams, key: string) => {
+  const value = params[key];
+  return typeof value === "string" ? value : undefined;
+};
+
+const isOverlayTheme = (value: unknown): value is OverlayTheme =>
+  (OVERLAY_THEMES as readonly unknown[]).includes(value);
+
+/**
+ * Reads `?server=...&resources=id1,id2&theme=transparent|dark`. Overlays
+ * default to a transparent background, embeds to the dark one.
+ */
+export const parseOverlayOptions = (
+  params: SearchParams,
+  variant: OverlayVariant
+): OverlayOptions => {
+  const theme = getSearchParam(params, "theme");
+
+  return {
+    serverId: getSearchParam(params, "server")?.trim() || DEFAULT_SERVER_ID,
+    resourceIds: (getSearchParam(params, "resources") ?? "")
+      .split(",")
+      .map((id) => id.trim())
+      .filter(Boolean),
+    theme: isOverlayTheme(theme)
+      ? theme
+      : variant === "overlay"
+        ? "transparent"
+        : "dark",
+  };
+};
+
+// Requested locations in the requested order; unknown or archived ids are
+// skipped.
+export const selectOverlayResources = (
+  locations: SpawnLocation[],
+  resourceIds: string[]
+) => {
+  const active = getActiveSpawnLocations(locations);
+
+  if (resourceIds.length === 0) {
+    return active;
+  }
+
+  return resourceIds.flatMap((id) => {
+    const location = active.find((item) => item.id === id);
+    return location ? [location] : [];
+  });
+};
@@ -0,0 +1,172 @@
+// Parsing and resource matching for the quick entry bar (Ctrl+K):
+//   "r1 45:30"      next spawn of Ressources-01 in 45 min 30 s
+//   "r1 45"         next spawn in 45 min
+//   "mc r1 18:20"   Minecraft time observed at Ressources-01
+//   "mc 18:20"      same, on the selected (by default the first) resource
+
+export type QuickEntryKind = "spawn_offset" | "ingame_time";
+
+export type QuickEntry = {
+  kind: QuickEntryKind;
+  // Free text matched against resource labels.
+  query: string;
+  // Trailing time token, null while it has not been typed yet.
+  value: string | null;
+};
+
+const MINECRAFT_TIME_PREFIX = "mc";
+const VALUE_PATTERN = /^\d+(?::\d*)?$/;
+
+export const parseQuickEntry = (input: string): QuickEntry => {
+  const tokens = input.trim().split(/\s+/).filter(Boolean);
+  const kind: QuickEntryKind =
+    tokens[0]?.toLowerCase() === MINECRAFT_TIME_PREFIX
+      ? "ingame_time"
+      : "spawn_offset";
+
+  if (kind === "ingame_time") {
+    tokens.shift();
+  }
+
+  const last = tokens.at(-1);
+  const value = last !== undefined && VALUE_PATTERN.test(last) ? last : null;
+
+  if (value !== null) {
+    tokens.pop();
+  }
+
+  return { kind, query: tokens.join(" "), value };
+};
+
+// "45:30" or "45m30s" -> 45 min 30 s, "45" or "45m" -> 45 min, "30s" ->
+// 30 s. Ranges are left to validateSpawnOffset so the bar, the form and the
+// Discord bot reject the same inputs.
+export const parseSpawnOffsetInput = (value: string) => {
+  const match =
+    /^(\d+)(?::(\d{1,2}))?$/.exec(value) ??
+    /^(?=\d)(?:(\d+)m)?(?:(\d{1,2})s)?$/i.exec(value);
+
+  if (!match) {
+    return null;
+  }
+
+  return {
+    minutes: match[1] ? Number.parseInt(match[1], 10) : 0,
+    seconds: match[2] ? Number.parseInt(match[2], 10) : 0,
+  };
+};
+
+const normalize = (value: string) =>
+  value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "");
+
+// "ressources01" -> ["ressources", "01"]
+const splitSegments = (value: string) => value.match(/[a-z]+|\d+/g) ?? [];
+
+// Abbreviations such as "r1" or "cons2": every query segment must start
+// the matching label segment, numbers compare by value.
+const matchSegments = (query: string[], label: string[]) => {
+  let labelIndex = 0;
+
+  return query.every((segment) => {
+    const isNumber = /^\d/.test(segment);
+
+    while (labelIndex < label.length) {
+      const candidate = label[labelIndex];
+      labelIndex += 1;
+
+      if (
+        isNumber
+          ? /^\d/.test(candidate) && Number(candidate) === Number(segment)
+          : candidate.startsWith(segment)
+      ) {
+        return true;
+      }
+    }
+
+    return false;
+  });
+};
+
+// Strict counterpart of scoreLabelMatch for writes that are not previewed
+// (Discord bot): the label, a prefix of it or an abbreviation, never a
+// scattered subsequence.
+export const isAbbreviationOf = (query: string, label: string) => {
+  const normalizedQuery = normalize(query);
+  const normalizedLabel = normalize(label);
+
+  return (
+    normalizedQuery.length > 0 &&
+    (normalizedLabel.startsWith(normalizedQuery) ||
+      matchSegments(splitSegments(normalizedQuery), splitSegments(normalizedLabel)))
+  );
+};
+
+/**
+ * Scores how well `query` designates `label`, higher is better; null when
+ * it does not match. Exact and prefix matches beat abbreviations, which beat
+ * plain subsequences ("rsc" for "Ressources").
+ */
+export const scoreLabelMatch = (query: string, label: string) => {
+  const normalizedQuery = normalize(query);
+  const normalizedLabel = normalize(label);
+
+  if (!normalizedQuery) {
+    return 0;
+  }
+
+  if (normalizedQuery === normalizedLabel) {
+    return 1_000;
+  }
+
+  if (normalizedLabel.startsWith(normalizedQuery)) {
+    return 800 - normalizedLabel.length;
+  }
+
+  const querySegments = splitSegments(normalizedQuery);
+  const labelSegments = splitSegments(normalizedLabel);
+
+  if (
+    querySegments.length <= labelSegments.length &&
+    matchSegments(querySegments, labelSegments)
+  ) {
+    return 600 - labelSegments.length;
+  }
+
+  let position = -1;
+  let gaps = 0;
+
+  for (const char of normalizedQuery) {
+    const next = normalizedLabel.indexOf(char, position + 1);
+
+    if (next === -1) {
+      return null;
+    }
+
+    gaps += next - position - 1;
+    position = next;
+  }
+
+  return 400 - gaps;
+};
+
+// Best matches first; an empty query keeps every resource in its order.
+export const rankResources = <T extends { label: string }>(
+  query: string,
+  resources: T[]
+) =>
+  resources
+    .map((resource, index) => ({
+      resource,
+      index,
+      score: scoreLabelMatch(query, resource.label),
+    }))
+    .filter(
+      (entry): entry is { resource: T; index: number; score: number } =>
+        entry.score !== null
+    )
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map((entry) => entry.resource);
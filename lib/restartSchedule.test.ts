@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+
+import { listScheduledRestarts, parseRestartSchedule } from "@/lib/restartSchedule";
+
+const iso = (ms: number) => new Date(ms).toISOString();
+
+const restartsBetween = (
+  expression: string,
+  timeZone: string,
+  from: string,
+  to: string
+) =>
+  listScheduledRestarts(expression, timeZone, Date.parse(from), Date.parse(to)).map(
+    iso
+  );
+
+describe("parseRestartSchedule", () => {
+  it("expands lists, ranges and steps", () => {
+    const schedule = parseRestartSchedule("*/15 6,18 1-3 * 5/1");
+
+    expect([...(schedule?.minutes ?? [])]).toEqual([0, 15, 30, 45]);
+    expect([...(schedule?.hours ?? [])]).toEqual([6, 18]);
+    expect([...(schedule?.daysOfMonth ?? [])]).toEqual([1, 2, 3]);
+    expect(schedule?.months.size).toBe(12);
+    expect([...(schedule?.daysOfWeek ?? [])]).toEqual([5, 6, 7, 0]);
+  });
+
+  it("rejects malformed expressions", () => {
+    for (const expression of [
+      "0 6 * *",
+      "60 6 * * *",
+      "0 6 0 * *",
+      "0 6-4 * * *",
+      "0 */0 * * *",
+      "x 6 * * *",
+    ]) {
+      expect(parseRestartSchedule(expression)).toBeNull();
+    }
+  });
+
+  it("only treats day fields that do not start with * as restricted", () => {
+    expect(parseRestartSchedule("0 6 1 * 1")).toMatchObject({
+      dayOfMonthRestricted: true,
+      dayOfWeekRestricted: true,
+    });
+    expect(parseRestartSchedule("0 6 */2 * *")).toMatchObject({
+      dayOfMonthRestricted: false,
+      dayOfWeekRestricted: false,
+    });
+  });
+});
+
+describe("listScheduledRestarts", () => {
+  it("matches either day field when both are restricted", () => {
+    // 1 October 2026 is a Thursday; the Mondays are the 5th, 12th, 19th and 26th.
+    expect(
+      restartsBetween(
+        "0 6 1 * 1",
+        "UTC",
+        "2026-10-01T00:00:00Z",
+        "2026-10-31T23:59:00Z"
+      )
+    ).toEqual([
+      "2026-10-01T06:00:00.000Z",
+      "2026-10-05T06:00:00.000Z",
+      "2026-10-12T06:00:00.000Z",
+      "2026-10-19T06:00:00.000Z",
+      "2026-10-26T06:00:00.000Z",
+    ]);
+  });
+
+  it("matches both day fields when one starts with *", () => {
+    // Odd days of the month that are also Mondays.
+    expect(
+      restartsBetween(
+        "0 6 */2 * 1",
+        "UTC",
+        "2026-10-01T00:00:00Z",
+        "2026-10-31T23:59:00Z"
+      )
+    ).toEqual(["2026-10-05T06:00:00.000Z", "2026-10-19T06:00:00.000Z"]);
+  });
+
+  it("keeps the wall-clock time when clocks go back", () => {
+    expect(
+      restartsBetween(
+        "0 3 * * *",
+        "Europe/Paris",
+        "2026-10-24T00:00:00Z",
+        "2026-10-26T12:00:00Z"
+      )
+    ).toEqual([
+      "2026-10-24T01:00:00.000Z",
+      "2026-10-25T02:00:00.000Z",
+      "2026-10-26T02:00:00.000Z",
+    ]);
+  });
+
+  it("restarts once at the first occurrence of a repeated time", () => {
+    expect(
+      restartsBetween(
+        "30 2 * * *",
+        "Europe/Paris",
+        "2026-10-25T00:00:00Z",
+        "2026-10-25T12:00:00Z"
+      )
+    ).toEqual(["2026-10-25T00:30:00.000Z"]);
+  });
+
+  it("moves a skipped time forward by the gap", () => {
+    // 02:30 does not exist in Paris on that day; it restarts at 03:30 CEST.
+    expect(
+      restartsBetween(
+        "30 2 * * *",
+        "Europe/Paris",
+        "2026-03-28T12:00:00Z",
+        "2026-03-30T12:00:00Z"
+      )
+    ).toEqual([
+      "2026-03-29T01:30:00.000Z",
+      "2026-03-30T00:30:00.000Z",
+    ]);
+  });
+
+  it("lists nothing for an unknown time zone", () => {
+    expect(
+      restartsBetween(
+        "0 6 * * *",
+        "Mars/Olympus",
+        "2026-10-19T00:00:00Z",
+        "2026-10-20T00:00:00Z"
+      )
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,383 @@
+import type { MinecraftClockAnchor } from "@/lib/minecraftTime";
+import type { GameServer } from "@/lib/servers";
+
+export type RestartAwareServer = Pick<
+  GameServer,
+  | "restart_schedule"
+  | "restart_timezone"
+  | "restart_ingame_time"
+  | "last_restart_at"
+>;
+
+type CronSchedule = {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Cron semantics: when both day fields are restricted, either may match.
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+};
+
+// Scheduled restarts are looked up this far around "now".
+const SCHEDULE_LOOKUP_DAYS = 8;
+const SCHEDULE_LOOKUP_MS = SCHEDULE_LOOKUP_DAYS * 24 * 60 * 60 * 1000;
+
+const parseCronField = (field: string, min: number, max: number) => {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const [rangePart, stepPart] = part.split("/");
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    let start = min;
+    let end = max;
+
+    if (rangePart !== "*") {
+      const [startPart, endPart] = rangePart.split("-");
+      start = Number(startPart);
+      // "5/10" means "from 5 every 10", a bare "5" only 5.
+      if (endPart !== undefined) {
+        end = Number(endPart);
+      } else {
+        end = stepPart === undefined ? start : max;
+      }
+    }
+
+    if (
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      !Number.isInteger(step) ||
+      step <= 0 ||
+      start < min ||
+      end > max ||
+      start > end
+    ) {
+      return null;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+};
+
+/**
+ * Parses a 5-field cron expression ("minute hour day-of-month month
+ * day-of-week"). Supports `*`, lists, ranges and steps; Sunday is 0 or 7.
+ */
+export const parseRestartSchedule = (expression: string): CronSchedule | null => {
+  const fields = expression.trim().split(/\s+/);
+
+  if (fields.length !== 5) {
+    return null;
+  }
+
+  const [minuteField, hourField, dayOfMonthField, monthField, dayOfWeekField] =
+    fields;
+  const minutes = parseCronField(minuteField, 0, 59);
+  const hours = parseCronField(hourField, 0, 23);
+  const daysOfMonth = parseCronField(dayOfMonthField, 1, 31);
+  const months = parseCronField(monthField, 1, 12);
+  const daysOfWeek = parseCronField(dayOfWeekField, 0, 7);
+
+  if (!minutes || !hours || !daysOfMonth || !months || !daysOfWeek) {
+    return null;
+  }
+
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    // As in cron, a field starting with "*" ("*/2" included) is unrestricted.
+    dayOfMonthRestricted: !dayOfMonthField.startsWith("*"),
+    dayOfWeekRestricted: !dayOfWeekField.startsWith("*"),
+  };
+};
+
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const getZonedParts = (ms: number, timeZone: string) => {
+  let formatter = zonedFormatters.get(timeZone);
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    zonedFormatters.set(timeZone, formatter);
+  }
+
+  const parts = Object.fromEntries(
+    formatter
+      .formatToParts(new Date(ms))
+      .filter((part) => part.type !== "literal")
+      .map((part) => [part.type, Number(part.value)])
+  );
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+};
+
+const getZonedOffsetMs = (ms: number, timeZone: string) => {
+  const parts = getZonedParts(ms, timeZone);
+
+  return (
+    Date.UTC(
+      parts.year,
+      parts.month - 1,
+      parts.day,
+      parts.hour,
+      parts.minute,
+      parts.second
+    ) - ms
+  );
+};
+
+// UTC instant of a wall-clock time in `timeZone`. A time repeated when
+// clocks go back is its first occurrence; a time skipped when they go
+// forward is moved forward by the gap (02:30 becomes 03:30).
+const zonedWallTimeToMs = (
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+) => {
+  const wallAsUtc = Date.UTC(year, month - 1, day, hour, minute);
+  const dayMs = 24 * 60 * 60 * 1000;
+  const before = wallAsUtc - getZonedOffsetMs(wallAsUtc - dayMs, timeZone);
+  const after = wallAsUtc - getZonedOffsetMs(wallAsUtc + dayMs, timeZone);
+  const matches = [before, after].filter(
+    (candidate) => candidate + getZonedOffsetMs(candidate, timeZone) === wallAsUtc
+  );
+
+  return matches.length > 0 ? Math.min(...matches) : before;
+};
+
+/**
+ * Scheduled restart instants within [fromMs, toMs], evaluated in `timeZone`.
+ * An invalid expression or time zone yields no restarts.
+ */
+export const listScheduledRestarts = (
+  expression: string,
+  timeZone: string,
+  fromMs: number,
+  toMs: number
+): number[] => {
+  const schedule = parseRestartSchedule(expression);
+
+  if (!schedule || toMs < fromMs) {
+    return [];
+  }
+
+  try {
+    const restarts: number[] = [];
+    const first = getZonedParts(fromMs, timeZone);
+    const last = getZonedParts(toMs, timeZone);
+    const lastDayUtc = Date.UTC(last.year, last.month - 1, last.day);
+
+    for (
+      let dayUtc = Date.UTC(first.year, first.month - 1, first.day);
+      dayUtc <= lastDayUtc;
+      dayUtc += 24 * 60 * 60 * 1000
+    ) {
+      const date = new Date(dayUtc);
+      const dayOfMonthMatches = schedule.daysOfMonth.has(date.getUTCDate());
+      const dayOfWeekMatches = schedule.daysOfWeek.has(date.getUTCDay());
+      const dayMatches =
+        schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted
+          ? dayOfMonthMatches || dayOfWeekMatches
+          : dayOfMonthMatches && dayOfWeekMatches;
+
+      if (!dayMatches || !schedule.months.has(date.getUTCMonth() + 1)) {
+        continue;
+      }
+
+      schedule.hours.forEach((hour) => {
+        schedule.minutes.forEach((minute) => {
+          const restartMs = zonedWallTimeToMs(
+            date.getUTCFullYear(),
+            date.getUTCMonth() + 1,
+            date.getUTCDate(),
+            hour,
+            minute,
+            timeZone
+          );
+
+          if (restartMs >= fromMs && restartMs <= toMs) {
+            restarts.push(restartMs);
+          }
+        });
+      });
+    }
+
+    return restarts.sort((a, b) => a - b);
+  } catch {
+    // Unknown time zone.
+    return [];
+  }
+};
+
+/**
+ * A server's scheduled restarts, listed once for the lookups below: they
+ * run for every card on every tick, and would otherwise expand the schedule
+ * each time. It serves any "now" within SCHEDULE_LOOKUP_DAYS of `fromMs`;
+ * past that, or once the schedule changes, the lookups list it again.
+ */
+export type RestartCalendar = {
+  schedule: string;
+  timeZone: string;
+  fromMs: number;
+  toMs: number;
+  restarts: number[];
+};
+
+export const buildRestartCalendar = (
+  server: RestartAwareServer | null,
+  fromMs: number
+): RestartCalendar | null => {
+  if (!server?.restart_schedule) {
+    return null;
+  }
+
+  const windowFromMs = fromMs - SCHEDULE_LOOKUP_MS;
+  const windowToMs = fromMs + 2 * SCHEDULE_LOOKUP_MS;
+
+  return {
+    schedule: server.restart_schedule,
+    timeZone: server.restart_timezone,
+    fromMs: windowFromMs,
+    toMs: windowToMs,
+    restarts: listScheduledRestarts(
+      server.restart_schedule,
+      server.restart_timezone,
+      windowFromMs,
+      windowToMs
+    ),
+  };
+};
+
+const listRestartsBetween = (
+  schedule: string,
+  timeZone: string,
+  fromMs: number,
+  toMs: number,
+  calendar: RestartCalendar | null
+) =>
+  calendar &&
+  calendar.schedule === schedule &&
+  calendar.timeZone === timeZone &&
+  calendar.fromMs <= fromMs &&
+  toMs <= calendar.toMs
+    ? calendar.restarts.filter((restartMs) => restartMs >= fromMs && restartMs <= toMs)
+    : listScheduledRestarts(schedule, timeZone, fromMs, toMs);
+
+export const getNextScheduledRestartMs = (
+  server: RestartAwareServer | null,
+  nowMs: number,
+  calendar: RestartCalendar | null = null
+) =>
+  server?.restart_schedule
+    ? (listRestartsBetween(
+        server.restart_schedule,
+        server.restart_timezone,
+        nowMs + 1,
+        nowMs + SCHEDULE_LOOKUP_MS,
+        calendar
+      )[0] ?? null)
+    : null;
+
+// Most recent restart, scheduled or reported, at or before `nowMs`.
+export const getLastRestartMs = (
+  server: RestartAwareServer | null,
+  nowMs: number,
+  calendar: RestartCalendar | null = null
+) => {
+  const scheduled = server?.restart_schedule
+    ? (listRestartsBetween(
+        server.restart_schedule,
+        server.restart_timezone,
+        nowMs - SCHEDULE_LOOKUP_MS,
+        nowMs,
+        calendar
+      ).at(-1) ?? null)
+    : null;
+  const reportedMs = server?.last_restart_at
+    ? new Date(server.last_restart_at).getTime()
+    : Number.NaN;
+  const reported = reportedMs <= nowMs ? reportedMs : null;
+
+  if (scheduled === null) {
+    return reported;
+  }
+
+  return reported === null ? scheduled : Math.max(scheduled, reported);
+};
+
+/**
+ * Applies the latest restart to a clock anchor. An anchor saved before the
+ * restart is reset to the known post-restart in-game time, or marked stale
+ * when that time is unknown.
+ */
+export const applyServerRestart = (
+  anchor: MinecraftClockAnchor | undefined,
+  server: RestartAwareServer | null,
+  nowMs: number,
+  calendar: RestartCalendar | null = null
+): { anchor: MinecraftClockAnchor | undefined; stale: boolean } => {
+  const lastRestartMs = getLastRestartMs(server, nowMs, calendar);
+  const savedAtMs = anchor?.ingame_time_saved_at
+    ? new Date(anchor.ingame_time_saved_at).getTime()
+    : Number.NaN;
+
+  if (lastRestartMs === null || savedAtMs >= lastRestartMs) {
+    return { anchor, stale: false };
+  }
+
+  if (server?.restart_ingame_time) {
+    return {
+      anchor: {
+        ingame_time: server.restart_ingame_time,
+        ingame_time_saved_at: new Date(lastRestartMs).toISOString(),
+        seconds_per_real_second: anchor?.seconds_per_real_second,
+      },
+      stale: false,
+    };
+  }
+
+  return { anchor, stale: Boolean(anchor) };
+};
+
+// Predictions past the next scheduled restart cannot be trusted.
+export const isPastNextRestart = (
+  spawnMs: number,
+  server: RestartAwareServer | null,
+  nowMs: number,
+  calendar: RestartCalendar | null = null
+) => {
+  const nextRestartMs = getNextScheduledRestartMs(server, nowMs, calendar);
+
+  return nextRestartMs !== null && spawnMs > nextRestartMs;
+};
@@ -0,0 +1,70 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type GameServer = {
+  id: string;
+  name: string;
+  sort_order: number;
+  archived_at: string | null;
+  // See lib/restartSchedule.ts.
+  restart_schedule: string | null;
+  restart_timezone: string;
+  restart_ingame_time: string | null;
+  last_restart_at: string | null;
+  // Reported conditions, see lib/spawnConditions.ts.
+  ingame_day: number | null;
+  ingame_day_reported_at: string | null;
+  weather: string | null;
+  weather_reported_at: string | null;
+  weather_expires_at: string | null;
+};
+
+export const GAME_SERVER_COLUMNS =
+  "id, name, sort_order, archived_at, restart_schedule, restart_timezone, restart_ingame_time, last_restart_at, ingame_day, ingame_day_reported_at, weather, weather_reported_at, weather_expires_at";
+
+export const DEFAULT_RESTART_TIMEZONE = "Europe/Paris";
+
+export const DEFAULT_SERVER_ID =
+  process.env.NEXT_PUBLIC_DEFAULT_SERVER_ID ?? "cobblegems";
+
+// Used when the servers table is missing or empty, mirroring the seed row.
+export const DEFAULT_SERVERS: GameServer[] = [
+  {
+    id: DEFAULT_SERVER_ID,
+    name: "CobbleGems",
+    sort_order: 10,
+    archived_at: null,
+    restart_schedule: null,
+    restart_timezone: DEFAULT_RESTART_TIMEZONE,
+    restart_ingame_time: null,
+    last_restart_at: null,
+    ingame_day: null,
+    ingame_day_reported_at: null,
+    weather: null,
+    weather_reported_at: null,
+    weather_expires_at: null,
+  },
+];
+
+export const getServerTitle = (server: Pick<GameServer, "name"> | null) =>
+  `${server?.name ?? "CobbleGems"} — Legendary Info`;
+
+export const fetchServers = async (
+  client: SupabaseClient
+): Promise<{ servers: GameServer[]; error: string | null }> => {
+  const { data, error } = await client
+    .from("servers")
+    .select(GAME_SERVER_COLUMNS)
+    .is("archived_at", null)
+    .order("sort_order", { ascending: true });
+
+  if (error) {
+    return { servers: DEFAULT_SERVERS, error: error.message };
+  }
+
+  const servers = (data ?? []) as GameServer[];
+
+  return {
+    servers: servers.length > 0 ? servers : DEFAULT_SERVERS,
+    error: null,
+  };
+};
@@ -0,0 +1,107 @@
+import {
+  deriveMinecraftClockAtDate,
+  getMinecraftDayAt,
+  getMoonPhase,
+  MinecraftClockAnchor,
+  MinecraftPhaseDetails,
+  MoonPhase,
+} from "@/lib/minecraftTime";
+import { getLastRestartMs, RestartCalendar } from "@/lib/restartSchedule";
+import type { GameServer } from "@/lib/servers";
+
+export const WEATHER_CONDITIONS = ["clear", "rain", "thunder"] as const;
+
+export type WeatherCondition = (typeof WEATHER_CONDITIONS)[number];
+
+export const isWeatherCondition = (value: unknown): value is WeatherCondition =>
+  (WEATHER_CONDITIONS as readonly unknown[]).includes(value);
+
+// Rain lasts 10 to 20 real minutes and thunder 3 to 13, so reports expire
+// after one of these durations picked by the reporter.
+export const WEATHER_REPORT_DURATIONS_MINUTES = [5, 10, 20, 30] as const;
+export const DEFAULT_WEATHER_REPORT_MINUTES = 10;
+
+export type ConditionsAwareServer = Pick<
+  GameServer,
+  | "restart_schedule"
+  | "restart_timezone"
+  | "restart_ingame_time"
+  | "last_restart_at"
+  | "ingame_day"
+  | "ingame_day_reported_at"
+  | "weather"
+  | "weather_reported_at"
+  | "weather_expires_at"
+>;
+
+export type SpawnConditions = {
+  phase: MinecraftPhaseDetails;
+  // Unknown until a day count has been reported since the last restart.
+  day: number | null;
+  moonPhase: MoonPhase | null;
+  // Unknown when no report covers the moment.
+  weather: WeatherCondition | null;
+};
+
+const parseTimestamp = (value: string | null) =>
+  value ? new Date(value).getTime() : Number.NaN;
+
+/**
+ * Weather reported for `atMs`: the latest report applies from when it was
+ * made until it expires.
+ */
+export const getReportedWeatherAt = (
+  server: ConditionsAwareServer | null,
+  atMs: number
+): WeatherCondition | null => {
+  const reportedAtMs = parseTimestamp(server?.weather_reported_at ?? null);
+  const expiresAtMs = parseTimestamp(server?.weather_expires_at ?? null);
+
+  if (
+    !isWeatherCondition(server?.weather) ||
+    !(atMs >= reportedAtMs) ||
+    !(atMs < expiresAtMs)
+  ) {
+    return null;
+  }
+
+  return server.weather;
+};
+
+/**
+ * Day/night phase, moon phase and weather at `target`. A day count reported
+ * before the last restart is ignored, as the restart may have reset it.
+ */
+export const deriveSpawnConditions = (
+  anchor: MinecraftClockAnchor | undefined,
+  server: ConditionsAwareServer | null,
+  target: Date,
+  nowMs: number,
+  restartCalendar: RestartCalendar | null = null
+): SpawnConditions | null => {
+  const phase = deriveMinecraftClockAtDate(anchor, target);
+
+  if (!phase) {
+    return null;
+  }
+
+  const dayReportedAtMs = parseTimestamp(server?.ingame_day_reported_at ?? null);
+  const lastRestartMs = getLastRestartMs(server, nowMs, restartCalendar);
+  const day =
+    typeof server?.ingame_day === "number" &&
+    !Number.isNaN(dayReportedAtMs) &&
+    (lastRestartMs === null || dayReportedAtMs >= lastRestartMs)
+      ? getMinecraftDayAt(
+          anchor,
+          { day: server.ingame_day, reportedAtMs: dayReportedAtMs },
+          target.getTime()
+        )
+      : null;
+
+  return {
+    phase,
+    day,
+    moonPhase: day !== null ? getMoonPhase(day) : null,
+    weather: getReportedWeatherAt(server, target.getTime()),
+  };
+};
@@ -0,0 +1,74 @@
+import { getEffectiveNextSpawn, SpawnRecurrence } from "@/lib/spawnRecurrence";
+import type { SpawnTimerRow, TimersState } from "@/lib/spawnTimers";
+
+type ResourceLabel = { id: string; label: string } & SpawnRecurrence;
+
+export type UpcomingSpawn = {
+  resource: ResourceLabel;
+  row: SpawnTimerRow;
+  nextSpawnMs: number;
+  remainingMs: number;
+  projected: boolean;
+};
+
+export const getUpcomingSpawns = (
+  timers: TimersState,
+  resources: ResourceLabel[],
+  nowMs: number
+): UpcomingSpawn[] =>
+  resources
+    .flatMap((resource) => {
+      const row = timers[resource.id];
+      const effective = getEffectiveNextSpawn(row, resource, nowMs);
+
+      if (!row || !effective || effective.nextSpawnMs <= nowMs) {
+        return [];
+      }
+
+      return [
+        {
+          resource,
+          row,
+          nextSpawnMs: effective.nextSpawnMs,
+          remainingMs: effective.nextSpawnMs - nowMs,
+          projected: effective.projected,
+        },
+      ];
+    })
+    .sort((a, b) => a.nextSpawnMs - b.nextSpawnMs);
+
+// "mm:ss", or "h:mm:ss" past an hour. Used for the tab title where the
+// relative phrasing would be cut off.
+export const formatCountdown = (remainingMs: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(remainingMs / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const mmss = `${minutes.toString().padStart(2, "0")}:${seconds
+    .toString()
+    .padStart(2, "0")}`;
+
+  return hours > 0 ? `${hours}:${mmss}` : mmss;
+};
+
+export const getSpawnAlertKey = (
+  spawn: Pick<UpcomingSpawn, "resource" | "nextSpawnMs">
+) => `${spawn.resource.id}:${spawn.nextSpawnMs}`;
+
+/**
+ * Spawns of watched resources that entered the lead window and have not been
+ * alerted yet. `alertedKeys` holds `${resourceId}:${nextSpawnMs}` so a reset
+ * timer, or the next projected cycle, alerts again.
+ */
+export const getSpawnAlertsToFire = (
+  upcoming: UpcomingSpawn[],
+  watchedIds: string[],
+  leadMinutes: number,
+  alertedKeys: ReadonlySet<string>
+) =>
+  upcoming.filter(
+    (spawn) =>
+      watchedIds.includes(spawn.resource.id) &&
+      spawn.remainingMs <= leadMinutes * 60_000 &&
+      !alertedKeys.has(getSpawnAlertKey(spawn))
+  );
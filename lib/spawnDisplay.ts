@@ -0,0 +1,90 @@
+import type { ClockModel } from "@/lib/clockDrift";
+import { formatSpawnCountdown, Locale } from "@/lib/i18n";
+import {
+  deriveLiveMinecraftClock,
+  LiveMinecraftClock,
+  MinecraftClockAnchor,
+} from "@/lib/minecraftTime";
+import {
+  applyServerRestart,
+  isPastNextRestart,
+  RestartCalendar,
+} from "@/lib/restartSchedule";
+import type { GameServer } from "@/lib/servers";
+import { deriveSpawnConditions, SpawnConditions } from "@/lib/spawnConditions";
+import type { SpawnLocation } from "@/lib/spawnLocations";
+import { getEffectiveNextSpawn } from "@/lib/spawnRecurrence";
+import type { SpawnTimerRow } from "@/lib/spawnTimers";
+
+// Everything a card shows that is derived from the clock, shared by the
+// dashboard and the overlay.
+export type DerivedMinecraftData = {
+  liveClock: LiveMinecraftClock | null;
+  conditionsAtSpawn: SpawnConditions | null;
+  // The in-game time predates a restart whose post-restart time is unknown.
+  clockStale: boolean;
+  // The spawn falls after the next scheduled restart.
+  pastRestart: boolean;
+};
+
+// The fitted clock replaces single anchors once observations exist, and
+// restarts reset it to the known post-restart time.
+export const resolveServerClockAnchor = (
+  anchor: MinecraftClockAnchor | undefined,
+  clockModel: ClockModel | null,
+  server: GameServer | null,
+  nowMs: number,
+  restartCalendar: RestartCalendar | null = null
+) =>
+  applyServerRestart(clockModel?.anchor ?? anchor, server, nowMs, restartCalendar);
+
+export const deriveMinecraftData = (
+  row: SpawnTimerRow | undefined,
+  resource: SpawnLocation,
+  clockModel: ClockModel | null,
+  server: GameServer | null,
+  nowMs: number,
+  // See buildRestartCalendar; callers deriving every tick should pass one.
+  restartCalendar: RestartCalendar | null = null
+): DerivedMinecraftData => {
+  const { anchor, stale } = resolveServerClockAnchor(
+    row,
+    clockModel,
+    server,
+    nowMs,
+    restartCalendar
+  );
+  const effective = getEffectiveNextSpawn(row, resource, nowMs);
+
+  return {
+    liveClock: deriveLiveMinecraftClock(anchor, nowMs),
+    conditionsAtSpawn: effective
+      ? deriveSpawnConditions(
+          anchor,
+          server,
+          new Date(effective.nextSpawnMs),
+          nowMs,
+          restartCalendar
+        )
+      : null,
+    clockStale: stale,
+    pastRestart: effective
+      ? isPastNextRestart(effective.nextSpawnMs, server, nowMs, restartCalendar)
+      : false,
+  };
+};
+
+// Countdown of a card, projected recurring cycles included.
+export const getDisplayValue = (
+  row: SpawnTimerRow | undefined,
+  resource: SpawnLocation,
+  locale: Locale,
+  nowMs: number,
+  timeZone?: string
+) =>
+  formatSpawnCountdown(
+    locale,
+    getEffectiveNextSpawn(row, resource, nowMs)?.nextSpawnMs ?? null,
+    nowMs,
+    timeZone
+  );
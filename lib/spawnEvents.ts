@@ -0,0 +1,53 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { MinecraftPhase } from "@/lib/minecraftTime";
+
+export type SpawnEventKind = "timer_set" | "spawned";
+
+export type SpawnEvent = {
+  id: number;
+  location_id: string;
+  kind: SpawnEventKind;
+  occurred_at: string;
+  next_spawn: string | null;
+  phase: MinecraftPhase | null;
+  ingame_time: string | null;
+  legendary: string | null;
+  // Player who caught the legendary, for confirmed spawns.
+  caught_by: string | null;
+};
+
+export type NewSpawnEvent = Omit<SpawnEvent, "id" | "occurred_at">;
+
+export const SPAWN_EVENT_COLUMNS =
+  "id, location_id, kind, occurred_at, next_spawn, phase, ingame_time, legendary, caught_by";
+
+export const recordSpawnEvent = async (
+  client: SupabaseClient,
+  event: NewSpawnEvent
+) => {
+  const { error } = await client.from("spawn_events").insert(event);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+};
+
+export const fetchSpawnEvents = async (
+  client: SupabaseClient,
+  locationId: string,
+  since: Date
+): Promise<SpawnEvent[]> => {
+  const { data, error } = await client
+    .from("spawn_events")
+    .select(SPAWN_EVENT_COLUMNS)
+    .eq("location_id", locationId)
+    .gte("occurred_at", since.toISOString())
+    .order("occurred_at", { ascending: true });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return (data ?? []) as SpawnEvent[];
+};
@@ -0,0 +1,349 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { ClockModel, fetchClockModels } from "@/lib/clockDrift";
+import { Locale, translate } from "@/lib/i18n";
+import type { MinecraftPhase, MoonPhase } from "@/lib/minecraftTime";
+import { buildRestartCalendar } from "@/lib/restartSchedule";
+import { fetchServers, GameServer, getServerTitle } from "@/lib/servers";
+import {
+  deriveSpawnConditions,
+  SpawnConditions,
+  WeatherCondition,
+} from "@/lib/spawnConditions";
+import { deriveMinecraftData, resolveServerClockAnchor } from "@/lib/spawnDisplay";
+import {
+  fetchSpawnLocations,
+  getActiveSpawnLocations,
+  SpawnLocation,
+} from "@/lib/spawnLocations";
+import { getEffectiveNextSpawn } from "@/lib/spawnRecurrence";
+import type { SpawnTimerRow } from "@/lib/spawnTimers";
+import { fetchSpawnTimersForLocations } from "@/lib/spawnTimerStore";
+
+// Projected recurring attempts are listed this far ahead, and at most this
+// many per location, so short cycles cannot flood a calendar.
+export const FEED_PROJECTION_HOURS = 24;
+const MAX_PROJECTED_ATTEMPTS = 48;
+
+// Calendar events of exact spawns (no jitter window) last this long.
+const MIN_EVENT_DURATION_MS = 5 * 60 * 1000;
+
+export type SpawnFeedSources = {
+  serverId: string;
+  server: GameServer | null;
+  locations: SpawnLocation[];
+  timersByLocationId: Map<string, SpawnTimerRow>;
+  clockModel: ClockModel | null;
+};
+
+export type SpawnFeedClock = {
+  ingameTime: string;
+  ingameTimeSavedAt: string;
+  // In-game seconds per real second, fitted from observations when possible.
+  secondsPerRealSecond: number | null;
+  // Saved before a restart whose post-restart time is unknown.
+  stale: boolean;
+};
+
+export type SpawnFeedEntry = {
+  id: string;
+  label: string;
+  icon: string;
+  // As stored, and rolled forward for recurring locations.
+  nextSpawn: string | null;
+  effectiveNextSpawn: string | null;
+  projected: boolean;
+  earliest: string | null;
+  latest: string | null;
+  predictedPhase: { phase: MinecraftPhase; ingameTime: string | null } | null;
+  moonPhase: MoonPhase | null;
+  weather: WeatherCondition | null;
+  // Anchor the predictions are extrapolated from, and its value right now.
+  clock: SpawnFeedClock | null;
+  liveIngameTime: string | null;
+  updatedAt: string | null;
+};
+
+export type SpawnFeed = {
+  serverId: string;
+  generatedAt: string;
+  spawns: SpawnFeedEntry[];
+};
+
+type SpawnAttempt = {
+  location: SpawnLocation;
+  spawnMs: number;
+  earliestMs: number;
+  latestMs: number;
+  projected: boolean;
+  conditions: SpawnConditions | null;
+};
+
+const toIsoString = (ms: number | null | undefined) =>
+  ms === null || ms === undefined ? null : new Date(ms).toISOString();
+
+export const loadSpawnFeedSources = async (
+  client: SupabaseClient,
+  serverId: string,
+  nowMs: number
+): Promise<SpawnFeedSources> => {
+  const [{ servers }, { locations }, clockModels] = await Promise.all([
+    fetchServers(client),
+    fetchSpawnLocations(client, serverId),
+    fetchClockModels(client, [serverId], nowMs),
+  ]);
+  const activeLocations = getActiveSpawnLocations(locations);
+
+  return {
+    serverId,
+    server: servers.find((server) => server.id === serverId) ?? null,
+    locations: activeLocations,
+    timersByLocationId: await fetchSpawnTimersForLocations(client, activeLocations),
+    clockModel: clockModels.get(serverId) ?? null,
+  };
+};
+
+export const buildSpawnFeed = (
+  { serverId, server, locations, timersByLocationId, clockModel }: SpawnFeedSources,
+  nowMs: number
+): SpawnFeed => {
+  const restartCalendar = buildRestartCalendar(server, nowMs);
+
+  return {
+    serverId,
+    generatedAt: new Date(nowMs).toISOString(),
+    spawns: locations.map((location) => {
+      const row = timersByLocationId.get(location.id);
+      const effective = getEffectiveNextSpawn(row, location, nowMs);
+      const derived = deriveMinecraftData(
+        row,
+        location,
+        clockModel,
+        server,
+        nowMs,
+        restartCalendar
+      );
+      const { anchor } = resolveServerClockAnchor(
+        row,
+        clockModel,
+        server,
+        nowMs,
+        restartCalendar
+      );
+      const conditions = derived.conditionsAtSpawn;
+
+      return {
+        id: location.id,
+        label: location.label,
+        icon: location.icon,
+        nextSpawn: row?.next_spawn ?? null,
+        effectiveNextSpawn: toIsoString(effective?.nextSpawnMs),
+        projected: effective?.projected ?? false,
+        earliest: toIsoString(effective?.earliestMs),
+        latest: toIsoString(effective?.latestMs),
+        predictedPhase: conditions
+          ? {
+              phase: conditions.phase.phase,
+              ingameTime: conditions.phase.timeLabel,
+            }
+          : null,
+        moonPhase: conditions?.moonPhase ?? null,
+        weather: conditions?.weather ?? null,
+        clock:
+          anchor?.ingame_time && anchor.ingame_time_saved_at
+            ? {
+                ingameTime: anchor.ingame_time,
+                ingameTimeSavedAt: anchor.ingame_time_saved_at,
+                secondsPerRealSecond: anchor.seconds_per_real_second ?? null,
+                stale: derived.clockStale,
+              }
+            : null,
+        liveIngameTime: derived.liveClock?.clock ?? null,
+        updatedAt: row?.updated_at ?? null,
+      };
+    }),
+  };
+};
+
+/**
+ * Upcoming attempts of every location, sorted by time. Without
+ * `includeProjected` only confirmed timers are listed; with it, recurring
+ * locations also list their projected cycles over FEED_PROJECTION_HOURS.
+ */
+const listSpawnAttempts = (
+  { server, locations, timersByLocationId, clockModel }: SpawnFeedSources,
+  includeProjected: boolean,
+  nowMs: number
+): SpawnAttempt[] => {
+  const horizonMs = nowMs + FEED_PROJECTION_HOURS * 60 * 60 * 1000;
+  const restartCalendar = buildRestartCalendar(server, nowMs);
+
+  return locations
+    .flatMap((location) => {
+      const row = timersByLocationId.get(location.id);
+      const effective = getEffectiveNextSpawn(row, location, nowMs);
+
+      if (!effective || effective.latestMs <= nowMs) {
+        return [];
+      }
+
+      const { anchor } = resolveServerClockAnchor(
+        row,
+        clockModel,
+        server,
+        nowMs,
+        restartCalendar
+      );
+      const jitterMs = effective.latestMs - effective.nextSpawnMs;
+      const intervalMs = (location.recurring_interval_minutes ?? 0) * 60_000;
+      const attempts: SpawnAttempt[] = [];
+      let spawnMs = effective.nextSpawnMs;
+      let projected = effective.projected;
+
+      while (
+        (!projected || includeProjected) &&
+        attempts.length < MAX_PROJECTED_ATTEMPTS &&
+        (attempts.length === 0 || spawnMs <= horizonMs)
+      ) {
+        attempts.push({
+          location,
+          spawnMs,
+          earliestMs: spawnMs - jitterMs,
+          latestMs: spawnMs + jitterMs,
+          projected,
+          conditions: deriveSpawnConditions(
+            anchor,
+            server,
+            new Date(spawnMs),
+            nowMs,
+            restartCalendar
+          ),
+        });
+
+        if (intervalMs <= 0) {
+          break;
+        }
+
+        spawnMs += intervalMs;
+        projected = true;
+      }
+
+      return attempts;
+    })
+    .sort((a, b) => a.spawnMs - b.spawnMs);
+};
+
+// RFC 5545 TEXT escaping.
+const escapeIcsText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+const formatIcsDate = (ms: number) =>
+  new Date(ms).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+// Content lines are folded at 75 octets, continuation lines start with a space.
+const foldIcsLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const folded: string[] = [];
+  let current = "";
+
+  for (const character of line) {
+    const limit = folded.length === 0 ? 75 : 74;
+
+    if (encoder.encode(current + character).length > limit) {
+      folded.push(current);
+      current = "";
+    }
+
+    current += character;
+  }
+
+  folded.push(current);
+
+  return folded.join("\r\n ");
+};
+
+const describeConditions = (locale: Locale, conditions: SpawnConditions | null) => {
+  if (!conditions) {
+    return translate(locale, "notifications.unknownClock");
+  }
+
+  const { phase, timeLabel } = conditions.phase;
+
+  return [
+    `${translate(locale, `phase.${phase}`)}${timeLabel ? ` (≈ ${timeLabel})` : ""}`,
+    conditions.moonPhase && conditions.day !== null
+      ? translate(locale, "conditions.moonDay", {
+          moon: translate(locale, `moon.${conditions.moonPhase}`),
+          day: conditions.day,
+        })
+      : translate(locale, "conditions.moonUnknown"),
+    conditions.weather
+      ? translate(locale, `weather.${conditions.weather}`)
+      : translate(locale, "conditions.weatherUnknown"),
+  ].join(" · ");
+};
+
+export const buildSpawnCalendar = (
+  sources: SpawnFeedSources,
+  {
+    includeProjected,
+    locale,
+    siteUrl,
+    nowMs,
+  }: {
+    includeProjected: boolean;
+    locale: Locale;
+    siteUrl: string | null;
+    nowMs: number;
+  }
+) => {
+  const dashboardUrl = siteUrl
+    ? new URL(`/${encodeURIComponent(sources.serverId)}`, siteUrl).toString()
+    : null;
+  const events = listSpawnAttempts(sources, includeProjected, nowMs).flatMap(
+    (attempt) => [
+      "BEGIN:VEVENT",
+      // Keyed by instant: a reset timer replaces the event instead of moving it.
+      `UID:${attempt.location.id}-${attempt.spawnMs}@legs-info`,
+      `DTSTAMP:${formatIcsDate(nowMs)}`,
+      `DTSTART:${formatIcsDate(attempt.earliestMs)}`,
+      `DTEND:${formatIcsDate(
+        Math.max(attempt.latestMs, attempt.earliestMs + MIN_EVENT_DURATION_MS)
+      )}`,
+      `SUMMARY:${escapeIcsText(
+        `${translate(locale, "feed.eventTitle", { label: attempt.location.label })}${
+          attempt.projected ? translate(locale, "notifications.projectedSuffix") : ""
+        }`
+      )}`,
+      `DESCRIPTION:${escapeIcsText(
+        `${translate(locale, "dashboard.conditionsAtSpawn")} ${describeConditions(
+          locale,
+          attempt.conditions
+        )}`
+      )}`,
+      ...(dashboardUrl ? [`URL:${dashboardUrl}`] : []),
+      "END:VEVENT",
+    ]
+  );
+
+  return `${[
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//legs-info//Legendary Info//FR",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeIcsText(
+      getServerTitle(sources.server ?? { name: sources.serverId })
+    )}`,
+    "REFRESH-INTERVAL;VALUE=DURATION:PT15M",
+    "X-PUBLISHED-TTL:PT15M",
+    ...events,
+    "END:VCALENDAR",
+  ]
+    .map(foldIcsLine)
+    .join("\r\n")}\r\n`;
+};
@@ -0,0 +1,130 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { DEFAULT_SERVER_ID } from "@/lib/servers";
+
+export type SpawnLocation = {
+  id: string;
+  server_id: string;
+  label: string;
+  icon: string;
+  default_respawn_minutes: number;
+  // Optional recurring cycle, see lib/spawnRecurrence.ts.
+  recurring_interval_minutes: number | null;
+  recurring_jitter_minutes: number;
+  sort_order: number;
+  archived_at: string | null;
+};
+
+export const SPAWN_LOCATION_COLUMNS =
+  "id, server_id, label, icon, default_respawn_minutes, recurring_interval_minutes, recurring_jitter_minutes, sort_order, archived_at";
+
+export const DEFAULT_RESPAWN_MINUTES = 60;
+
+export const LOCATION_ICON_OPTIONS = ["/pokeball.svg", "/icon.svg"];
+
+// Used until the spawn_locations table exists (or when it is empty) so that
+// deployments without the migration keep their original four spawn points.
+export const DEFAULT_SPAWN_LOCATIONS: SpawnLocation[] = [
+  {
+    id: "ressources-01",
+    server_id: DEFAULT_SERVER_ID,
+    label: "Ressources-01",
+    icon: "/pokeball.svg",
+    default_respawn_minutes: DEFAULT_RESPAWN_MINUTES,
+    recurring_interval_minutes: null,
+    recurring_jitter_minutes: 0,
+    sort_order: 10,
+    archived_at: null,
+  },
+  {
+    id: "ressources-02",
+    server_id: DEFAULT_SERVER_ID,
+    label: "Ressources-02",
+    icon: "/pokeball.svg",
+    default_respawn_minutes: DEFAULT_RESPAWN_MINUTES,
+    recurring_interval_minutes: null,
+    recurring_jitter_minutes: 0,
+    sort_order: 20,
+    archived_at: null,
+  },
+  {
+    id: "construction-01",
+    server_id: DEFAULT_SERVER_ID,
+    label: "Construction-01",
+    icon: "/icon.svg",
+    default_respawn_minutes: DEFAULT_RESPAWN_MINUTES,
+    recurring_interval_minutes: null,
+    recurring_jitter_minutes: 0,
+    sort_order: 30,
+    archived_at: null,
+  },
+  {
+    id: "construction-02",
+    server_id: DEFAULT_SERVER_ID,
+    label: "Construction-02",
+    icon: "/icon.svg",
+    default_respawn_minutes: DEFAULT_RESPAWN_MINUTES,
+    recurring_interval_minutes: null,
+    recurring_jitter_minutes: 0,
+    sort_order: 40,
+    archived_at: null,
+  },
+];
+
+export const sortSpawnLocations = (locations: SpawnLocation[]) =>
+  [...locations].sort(
+    (a, b) => a.sort_order - b.sort_order || a.label.localeCompare(b.label)
+  );
+
+export const getActiveSpawnLocations = (locations: SpawnLocation[]) =>
+  sortSpawnLocations(locations.filter((location) => !location.archived_at));
+
+export const slugifyLocationLabel = (label: string) =>
+  label
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+// Without `serverId`, locations of every server are returned (used by the
+// server-side dispatchers).
+export const fetchSpawnLocations = async (
+  client: SupabaseClient,
+  serverId?: string
+): Promise<{ locations: SpawnLocation[]; error: string | null }> => {
+  let query = client
+    .from("spawn_locations")
+    .select(SPAWN_LOCATION_COLUMNS)
+    .order("sort_order", { ascending: true });
+
+  if (serverId) {
+    query = query.eq("server_id", serverId);
+  }
+
+  const { data, error } = await query;
+  const fallback =
+    !serverId || serverId === DEFAULT_SERVER_ID ? DEFAULT_SPAWN_LOCATIONS : [];
+
+  if (error) {
+    return { locations: fallback, error: error.message };
+  }
+
+  const locations = (data ?? []) as SpawnLocation[];
+
+  return {
+    locations: locations.length > 0 ? sortSpawnLocations(locations) : fallback,
+    error: null,
+  };
+};
+
+export const fetchCanManageLocations = async (client: SupabaseClient) => {
+  const { data, error } = await client.rpc("is_spawn_admin");
+
+  if (error) {
+    return false;
+  }
+
+  return data === true;
+};
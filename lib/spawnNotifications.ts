@@ -0,0 +1,337 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { fetchClockModels } from "@/lib/clockDrift";
+import {
+  DiscordWebhookPayload,
+  FetchLike,
+  formatDiscordTimestamp,
+  sendDiscordWebhook,
+} from "@/lib/discordWebhook";
+import { DEFAULT_LOCALE, Locale, translate } from "@/lib/i18n";
+import {
+  deriveMinecraftClockAtDate,
+  MinecraftPhase,
+  MinecraftPhaseDetails,
+  PHASE_ICON_MAP,
+} from "@/lib/minecraftTime";
+import { fetchServers } from "@/lib/servers";
+import { resolveServerClockAnchor } from "@/lib/spawnDisplay";
+import {
+  fetchSpawnLocations,
+  getActiveSpawnLocations,
+  SpawnLocation,
+} from "@/lib/spawnLocations";
+import { getEffectiveNextSpawn } from "@/lib/spawnRecurrence";
+import { fetchSpawnTimersForLocations } from "@/lib/spawnTimerStore";
+
+export type SpawnNotificationSettings = {
+  location_id: string;
+  webhook_url: string;
+  lead_minutes: number[];
+  notify_on_expiry: boolean;
+  enabled: boolean;
+};
+
+export type SpawnNotificationKind = `lead_${number}` | "expired";
+
+export type DueSpawnNotification = {
+  kind: SpawnNotificationKind;
+  leadMinutes: number | null;
+  // Kinds to mark as delivered alongside this one (skipped larger leads).
+  covers: SpawnNotificationKind[];
+};
+
+// Expiry alerts are only sent this long after next_spawn, so a dispatcher
+// that was down for hours does not flood the channel with stale timers.
+export const EXPIRY_NOTIFICATION_GRACE_MS = 15 * 60 * 1000;
+
+const PHASE_EMOJI_MAP: Record<MinecraftPhase, string> = {
+  dawn: "🌅",
+  morning: "🌤️",
+  afternoon: "☀️",
+  dusk: "🌇",
+  night: "🌙",
+};
+
+// "🌙 Nuit (≈ 18:20)", shared by the webhook embeds and the bot replies.
+export const formatPredictedPhase = (
+  locale: Locale,
+  predictedPhase: Pick<MinecraftPhaseDetails, "phase" | "timeLabel"> | null
+) =>
+  predictedPhase
+    ? `${PHASE_EMOJI_MAP[predictedPhase.phase]} ${translate(
+        locale,
+        `phase.${predictedPhase.phase}`
+      )}${predictedPhase.timeLabel ? ` (≈ ${predictedPhase.timeLabel})` : ""}`
+    : translate(locale, "notifications.unknownClock");
+
+const EMBED_COLOR_UPCOMING = 0xa3e635;
+const EMBED_COLOR_EXPIRED = 0xf87171;
+
+/**
+ * Returns at most one notification: the tightest lead time already reached,
+ * or the expiry alert once next_spawn has passed. When the dispatcher catches
+ * up late (e.g. first run at T-3), the larger leads are covered instead of
+ * being sent in a burst.
+ */
+export const getDueSpawnNotification = (
+  nextSpawnMs: number,
+  settings: Pick<SpawnNotificationSettings, "lead_minutes" | "notify_on_expiry">,
+  alreadySent: ReadonlySet<SpawnNotificationKind>,
+  nowMs: number
+): DueSpawnNotification | null => {
+  const remainingMs = nextSpawnMs - nowMs;
+
+  if (remainingMs <= 0) {
+    if (
+      !settings.notify_on_expiry ||
+      alreadySent.has("expired") ||
+      -remainingMs > EXPIRY_NOTIFICATION_GRACE_MS
+    ) {
+      return null;
+    }
+
+    return { kind: "expired", leadMinutes: null, covers: [] };
+  }
+
+  const reachedLeads = [...new Set(settings.lead_minutes)]
+    .filter((lead) => lead > 0 && remainingMs <= lead * 60_000)
+    .sort((a, b) => a - b);
+
+  if (reachedLeads.length === 0) {
+    return null;
+  }
+
+  const [tightestLead, ...largerLeads] = reachedLeads;
+  const kind: SpawnNotificationKind = `lead_${tightestLead}`;
+
+  if (alreadySent.has(kind)) {
+    return null;
+  }
+
+  return {
+    kind,
+    leadMinutes: tightestLead,
+    covers: largerLeads
+      .map((lead): SpawnNotificationKind => `lead_${lead}`)
+      .filter((coveredKind) => !alreadySent.has(coveredKind)),
+  };
+};
+
+export const buildSpawnNotificationPayload = ({
+  location,
+  nextSpawn,
+  projected = false,
+  notification,
+  predictedPhase,
+  siteUrl,
+  locale = DEFAULT_LOCALE,
+}: {
+  location: Pick<SpawnLocation, "label">;
+  nextSpawn: Date;
+  // Rolled forward from a recurring cycle rather than confirmed.
+  projected?: boolean;
+  notification: DueSpawnNotification;
+  predictedPhase: MinecraftPhaseDetails | null;
+  siteUrl: string | null;
+  locale?: Locale;
+}): DiscordWebhookPayload => {
+  const isExpired = notification.kind === "expired";
+  const title = isExpired
+    ? translate(locale, "notifications.expiredTitle", { label: location.label })
+    : `${translate(locale, "notifications.title", {
+        label: location.label,
+        minutes: notification.leadMinutes ?? 0,
+      })}${projected ? translate(locale, "notifications.projectedSuffix") : ""}`;
+  const phaseValue = formatPredictedPhase(locale, predictedPhase);
+  const relative = formatDiscordTimestamp(nextSpawn.getTime(), "R");
+
+  return {
+    content: isExpired
+      ? translate(locale, "notifications.expiredContent", {
+          label: location.label,
+          relative,
+        })
+      : translate(locale, "notifications.upcomingContent", {
+          label: location.label,
+          relative,
+        }),
+    embeds: [
+      {
+        title,
+        color: isExpired ? EMBED_COLOR_EXPIRED : EMBED_COLOR_UPCOMING,
+        timestamp: nextSpawn.toISOString(),
+        fields: [
+          {
+            name: translate(locale, "notifications.nextSpawnField"),
+            value: formatDiscordTimestamp(nextSpawn.getTime(), "t"),
+            inline: true,
+          },
+          {
+            name: translate(locale, "notifications.phaseField"),
+            value: phaseValue,
+            inline: true,
+          },
+        ],
+        ...(predictedPhase && siteUrl
+          ? {
+              thumbnail: {
+                url: new URL(PHASE_ICON_MAP[predictedPhase.phase], siteUrl).toString(),
+              },
+            }
+          : {}),
+      },
+    ],
+  };
+};
+
+type DispatchOptions = {
+  client: SupabaseClient;
+  nowMs: number;
+  siteUrl: string | null;
+  // Language of the Discord messages (see getServerLocale).
+  locale?: Locale;
+  fetchImpl?: FetchLike;
+};
+
+export type DispatchResult = {
+  sent: Array<{ locationId: string; kind: SpawnNotificationKind }>;
+  failed: Array<{ locationId: string; kind: SpawnNotificationKind; error: string }>;
+};
+
+export const dispatchSpawnNotifications = async ({
+  client,
+  nowMs,
+  siteUrl,
+  locale = DEFAULT_LOCALE,
+  fetchImpl,
+}: DispatchOptions): Promise<DispatchResult> => {
+  const result: DispatchResult = { sent: [], failed: [] };
+
+  const { data: settingsData, error: settingsError } = await client
+    .from("spawn_notification_settings")
+    .select("location_id, webhook_url, lead_minutes, notify_on_expiry, enabled")
+    .eq("enabled", true);
+
+  if (settingsError) {
+    throw new Error(settingsError.message);
+  }
+
+  const settingsList = (settingsData ?? []) as SpawnNotificationSettings[];
+
+  if (settingsList.length === 0) {
+    return result;
+  }
+
+  const [{ servers }, { locations }] = await Promise.all([
+    fetchServers(client),
+    fetchSpawnLocations(client),
+  ]);
+  const activeLocations = getActiveSpawnLocations(locations);
+
+  const timersByLocationId = await fetchSpawnTimersForLocations(
+    client,
+    activeLocations
+  );
+  const clockModels = await fetchClockModels(
+    client,
+    activeLocations.map((location) => location.server_id),
+    nowMs
+  );
+
+  for (const settings of settingsList) {
+    const location = activeLocations.find(
+      (item) => item.id === settings.location_id
+    );
+    const row = location ? timersByLocationId.get(location.id) : undefined;
+    const effective = location
+      ? getEffectiveNextSpawn(row, location, nowMs)
+      : null;
+
+    if (!location || !row || !effective) {
+      continue;
+    }
+
+    // Projected cycles are keyed by their projected instant, so each cycle
+    // gets its own lead alerts and recurring timers never "expire".
+    const nextSpawn = new Date(effective.nextSpawnMs);
+
+    const { data: sentData, error: sentError } = await client
+      .from("spawn_notifications_sent")
+      .select("kind")
+      .eq("location_id", location.id)
+      .eq("next_spawn", nextSpawn.toISOString());
+
+    if (sentError) {
+      throw new Error(sentError.message);
+    }
+
+    const alreadySent = new Set(
+      ((sentData ?? []) as Array<{ kind: SpawnNotificationKind }>).map(
+        (sent) => sent.kind
+      )
+    );
+    const notification = getDueSpawnNotification(
+      nextSpawn.getTime(),
+      settings,
+      alreadySent,
+      nowMs
+    );
+
+    if (!notification) {
+      continue;
+    }
+
+    try {
+      await sendDiscordWebhook(
+        settings.webhook_url,
+        buildSpawnNotificationPayload({
+          location,
+          nextSpawn,
+          projected: effective.projected,
+          notification,
+          predictedPhase: deriveMinecraftClockAtDate(
+            resolveServerClockAnchor(
+              row,
+              clockModels.get(location.server_id) ?? null,
+              servers.find((server) => server.id === location.server_id) ?? null,
+              nowMs
+            ).anchor,
+            nextSpawn
+          ),
+          siteUrl,
+          locale,
+        }),
+        fetchImpl
+      );
+
+      const { error: recordError } = await client
+        .from("spawn_notifications_sent")
+        .upsert(
+          [notification.kind, ...notification.covers].map((kind) => ({
+            location_id: location.id,
+            next_spawn: nextSpawn.toISOString(),
+            kind,
+          })),
+          { onConflict: "location_id,next_spawn,kind", ignoreDuplicates: true }
+        );
+
+      if (recordError) {
+        throw new Error(recordError.message);
+      }
+
+      result.sent.push({ locationId: location.id, kind: notification.kind });
+    } catch (caughtError) {
+      result.failed.push({
+        locationId: location.id,
+        kind: notification.kind,
+        error:
+          caughtError instanceof Error
+            ? caughtError.message
+            : translate(locale, "common.unknownError"),
+      });
+    }
+  }
+
+  return result;
+};
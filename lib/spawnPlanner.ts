@@ -0,0 +1,131 @@
+import {
+  deriveMinecraftClockAtDate,
+  getMinecraftPhaseBands,
+  MinecraftClockAnchor,
+  MinecraftPhase,
+  MinecraftPhaseDetails,
+} from "@/lib/minecraftTime";
+import { getEffectiveNextSpawn, SpawnRecurrence } from "@/lib/spawnRecurrence";
+import type { SpawnLocation } from "@/lib/spawnLocations";
+import type { SpawnTimerRow } from "@/lib/spawnTimers";
+import { computeNextSpawnDate, validateSpawnOffset } from "@/lib/timerValidation";
+
+export type PlannedSpawnAttempt = {
+  attemptMs: number;
+  earliestMs: number;
+  latestMs: number;
+  predicted: MinecraftPhaseDetails;
+  // Share of the [earliestMs, latestMs] window spent in a required phase.
+  confidence: number;
+};
+
+type PlannerLocation = Pick<SpawnLocation, "default_respawn_minutes"> &
+  SpawnRecurrence;
+
+export const DEFAULT_PLANNER_COUNT = 5;
+
+// Attempts scanned before giving up, so an impossible phase set cannot hang
+// the planner (the full day cycle repeats every 20 real minutes).
+const MAX_SCANNED_ATTEMPTS = 500;
+
+export const getAttemptIntervalMinutes = (location: PlannerLocation) =>
+  location.recurring_interval_minutes ?? location.default_respawn_minutes;
+
+const getPhaseConfidence = (
+  anchor: MinecraftClockAnchor,
+  earliestMs: number,
+  latestMs: number,
+  phases: ReadonlySet<MinecraftPhase>
+) => {
+  if (latestMs <= earliestMs) {
+    return 1;
+  }
+
+  const matchingMs = getMinecraftPhaseBands(anchor, earliestMs, latestMs)
+    .filter((band) => phases.has(band.phase))
+    .reduce((total, band) => total + (band.endMs - band.startMs), 0);
+
+  return matchingMs / (latestMs - earliestMs);
+};
+
+/**
+ * Next `count` spawn attempts whose predicted phase is one of `phases`.
+ * Attempts start from the timer's (possibly projected) next spawn, or from
+ * now when the timer is unset, and repeat every attempt interval.
+ */
+export const planPhaseTargetedSpawns = ({
+  anchor,
+  row,
+  location,
+  phases,
+  count = DEFAULT_PLANNER_COUNT,
+  nowMs,
+}: {
+  anchor: MinecraftClockAnchor | undefined;
+  row: SpawnTimerRow | undefined;
+  location: PlannerLocation;
+  phases: ReadonlySet<MinecraftPhase>;
+  count?: number;
+  nowMs: number;
+}): PlannedSpawnAttempt[] => {
+  if (!anchor || phases.size === 0 || count <= 0) {
+    return [];
+  }
+
+  const intervalMs = getAttemptIntervalMinutes(location) * 60_000;
+  const jitterMs = (location.recurring_jitter_minutes ?? 0) * 60_000;
+  const effective = getEffectiveNextSpawn(row, location, nowMs);
+  let attemptMs =
+    effective && effective.nextSpawnMs > nowMs
+      ? effective.nextSpawnMs
+      : nowMs + intervalMs;
+  const planned: PlannedSpawnAttempt[] = [];
+
+  for (
+    let scanned = 0;
+    scanned < MAX_SCANNED_ATTEMPTS && planned.length < count;
+    scanned += 1, attemptMs += intervalMs
+  ) {
+    const predicted = deriveMinecraftClockAtDate(anchor, new Date(attemptMs));
+
+    if (!predicted || !phases.has(predicted.phase)) {
+      continue;
+    }
+
+    const earliestMs = attemptMs - jitterMs;
+    const latestMs = attemptMs + jitterMs;
+
+    planned.push({
+      attemptMs,
+      earliestMs,
+      latestMs,
+      predicted,
+      confidence: getPhaseConfidence(anchor, earliestMs, latestMs, phases),
+    });
+  }
+
+  return planned;
+};
+
+/**
+ * Where a reset "now + minutes/seconds" would land, for the live preview
+ * next to the timer inputs. Null while the offset is invalid or the clock
+ * is unknown.
+ */
+export const previewSpawnPhase = (
+  anchor: MinecraftClockAnchor | undefined,
+  minutes: number,
+  seconds: number,
+  now: Date
+) => {
+  const offset = validateSpawnOffset(minutes, seconds);
+
+  if (!offset.ok) {
+    return null;
+  }
+
+  const nextSpawn = computeNextSpawnDate(offset.value, now);
+  const predicted = deriveMinecraftClockAtDate(anchor, nextSpawn);
+
+  return predicted ? { nextSpawn, predicted } : null;
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+
+import { getEffectiveNextSpawn } from "@/lib/spawnRecurrence";
+
+const NEXT_SPAWN_MS = Date.parse("2026-10-19T12:00:00Z");
+const MINUTE_MS = 60_000;
+
+const row = { next_spawn: new Date(NEXT_SPAWN_MS).toISOString() };
+const hourly = { recurring_interval_minutes: 60, recurring_jitter_minutes: 0 };
+
+describe("getEffectiveNextSpawn", () => {
+  it("returns null without a stored next spawn", () => {
+    expect(getEffectiveNextSpawn(undefined, hourly, NEXT_SPAWN_MS)).toBeNull();
+    expect(getEffectiveNextSpawn({ next_spawn: null }, hourly, NEXT_SPAWN_MS)).toBeNull();
+  });
+
+  it("keeps an upcoming next spawn as stored", () => {
+    expect(getEffectiveNextSpawn(row, hourly, NEXT_SPAWN_MS - MINUTE_MS)).toEqual({
+      nextSpawnMs: NEXT_SPAWN_MS,
+      projected: false,
+      earliestMs: NEXT_SPAWN_MS,
+      latestMs: NEXT_SPAWN_MS,
+    });
+  });
+
+  it("keeps an expired next spawn of a non-recurring location", () => {
+    const effective = getEffectiveNextSpawn(row, {}, NEXT_SPAWN_MS + 90 * MINUTE_MS);
+
+    expect(effective?.nextSpawnMs).toBe(NEXT_SPAWN_MS);
+    expect(effective?.projected).toBe(false);
+  });
+
+  it("moves on to the next cycle at the spawn instant", () => {
+    expect(getEffectiveNextSpawn(row, hourly, NEXT_SPAWN_MS)).toMatchObject({
+      nextSpawnMs: NEXT_SPAWN_MS + 60 * MINUTE_MS,
+      projected: true,
+    });
+  });
+
+  it("rolls forward by whole intervals after several elapsed cycles", () => {
+    const nowMs = NEXT_SPAWN_MS + (3 * 60 + 10) * MINUTE_MS;
+
+    expect(getEffectiveNextSpawn(row, hourly, nowMs)).toMatchObject({
+      nextSpawnMs: NEXT_SPAWN_MS + 4 * 60 * MINUTE_MS,
+      projected: true,
+    });
+    // Exactly on a projected cycle, as on the stored one.
+    expect(
+      getEffectiveNextSpawn(row, hourly, NEXT_SPAWN_MS + 2 * 60 * MINUTE_MS)?.nextSpawnMs
+    ).toBe(NEXT_SPAWN_MS + 3 * 60 * MINUTE_MS);
+  });
+
+  it("widens the window by the jitter around stored and projected cycles", () => {
+    const jittered = { recurring_interval_minutes: 60, recurring_jitter_minutes: 15 };
+    const upcoming = getEffectiveNextSpawn(row, jittered, NEXT_SPAWN_MS - MINUTE_MS);
+    const projected = getEffectiveNextSpawn(
+      row,
+      jittered,
+      NEXT_SPAWN_MS + 100 * MINUTE_MS
+    );
+
+    expect(upcoming).toMatchObject({
+      earliestMs: NEXT_SPAWN_MS - 15 * MINUTE_MS,
+      latestMs: NEXT_SPAWN_MS + 15 * MINUTE_MS,
+    });
+    // The cycle itself does not move with the jitter.
+    expect(projected).toEqual({
+      nextSpawnMs: NEXT_SPAWN_MS + 120 * MINUTE_MS,
+      projected: true,
+      earliestMs: NEXT_SPAWN_MS + 105 * MINUTE_MS,
+      latestMs: NEXT_SPAWN_MS + 135 * MINUTE_MS,
+    });
+  });
+});
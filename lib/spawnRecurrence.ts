@@ -0,0 +1,58 @@
+import type { SpawnLocation } from "@/lib/spawnLocations";
+import type { SpawnTimerRow } from "@/lib/spawnTimers";
+
+export type SpawnRecurrence = Partial<
+  Pick<SpawnLocation, "recurring_interval_minutes" | "recurring_jitter_minutes">
+>;
+
+export type EffectiveNextSpawn = {
+  nextSpawnMs: number;
+  // True when rolled forward from an expired next_spawn (not confirmed yet).
+  projected: boolean;
+  // Window allowed by the jitter bounds; equal to nextSpawnMs without jitter.
+  earliestMs: number;
+  latestMs: number;
+};
+
+/**
+ * The spawn attempt to display and notify for. Expired timers of recurring
+ * locations roll forward by whole intervals from the stored next_spawn, so
+ * every client and the dispatcher land on the same projected instant.
+ * Non-recurring timers keep their stored (possibly past) next_spawn.
+ */
+export const getEffectiveNextSpawn = (
+  row: Pick<SpawnTimerRow, "next_spawn"> | undefined | null,
+  recurrence: SpawnRecurrence,
+  nowMs: number
+): EffectiveNextSpawn | null => {
+  const storedMs = row?.next_spawn
+    ? new Date(row.next_spawn).getTime()
+    : Number.NaN;
+
+  if (Number.isNaN(storedMs)) {
+    return null;
+  }
+
+  const intervalMinutes = recurrence.recurring_interval_minutes ?? null;
+  const jitterMs = (recurrence.recurring_jitter_minutes ?? 0) * 60_000;
+
+  if (!intervalMinutes || intervalMinutes <= 0 || storedMs > nowMs) {
+    return {
+      nextSpawnMs: storedMs,
+      projected: false,
+      earliestMs: storedMs - jitterMs,
+      latestMs: storedMs + jitterMs,
+    };
+  }
+
+  const intervalMs = intervalMinutes * 60_000;
+  const elapsedCycles = Math.floor((nowMs - storedMs) / intervalMs) + 1;
+  const nextSpawnMs = storedMs + elapsedCycles * intervalMs;
+
+  return {
+    nextSpawnMs,
+    projected: true,
+    earliestMs: nextSpawnMs - jitterMs,
+    latestMs: nextSpawnMs + jitterMs,
+  };
+};
@@ -0,0 +1,78 @@
+import {
+  isMinecraftPhase,
+  MINECRAFT_PHASES,
+  MinecraftPhase,
+} from "@/lib/minecraftTime";
+import type { SpawnEvent } from "@/lib/spawnEvents";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type SpawnStats = {
+  spawnCount: number;
+  averageIntervalMinutes: number | null;
+  spawnsPerDay: number | null;
+  phaseDistribution: Record<MinecraftPhase, number>;
+  lastSpawnAt: string | null;
+};
+
+const buildEmptyPhaseDistribution = () =>
+  MINECRAFT_PHASES.reduce<Record<MinecraftPhase, number>>(
+    (acc, phase) => {
+      acc[phase] = 0;
+      return acc;
+    },
+    {} as Record<MinecraftPhase, number>
+  );
+
+/**
+ * Statistics over confirmed spawns only; timer saves are estimates and would
+ * skew the interval. Spawns per day is measured from the first confirmed
+ * spawn up to `nowMs`, with a one-day floor so a single busy evening does not
+ * read as dozens per day.
+ */
+export const computeSpawnStats = (
+  events: SpawnEvent[],
+  nowMs: number
+): SpawnStats => {
+  const spawnTimes = events
+    .filter((event) => event.kind === "spawned")
+    .map((event) => ({
+      event,
+      timeMs: new Date(event.occurred_at).getTime(),
+    }))
+    .filter(({ timeMs }) => !Number.isNaN(timeMs))
+    .sort((a, b) => a.timeMs - b.timeMs);
+
+  const phaseDistribution = buildEmptyPhaseDistribution();
+  spawnTimes.forEach(({ event }) => {
+    if (isMinecraftPhase(event.phase)) {
+      phaseDistribution[event.phase] += 1;
+    }
+  });
+
+  if (spawnTimes.length === 0) {
+    return {
+      spawnCount: 0,
+      averageIntervalMinutes: null,
+      spawnsPerDay: null,
+      phaseDistribution,
+      lastSpawnAt: null,
+    };
+  }
+
+  const first = spawnTimes[0];
+  const last = spawnTimes[spawnTimes.length - 1];
+  const averageIntervalMinutes =
+    spawnTimes.length > 1
+      ? (last.timeMs - first.timeMs) / (spawnTimes.length - 1) / 60_000
+      : null;
+  const observedDays = Math.max(1, (nowMs - first.timeMs) / DAY_MS);
+
+  return {
+    spawnCount: spawnTimes.length,
+    averageIntervalMinutes,
+    spawnsPerDay: spawnTimes.length / observedDays,
+    phaseDistribution,
+    lastSpawnAt: last.event.occurred_at,
+  };
+};
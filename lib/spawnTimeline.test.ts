@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+
+import type { MinecraftClockAnchor } from "@/lib/minecraftTime";
+import { getTimelineMarkers } from "@/lib/spawnTimeline";
+import type { TimersState } from "@/lib/spawnTimers";
+
+// A 100-minute window, so markers closer than 4 minutes collide.
+const START_MS = Date.parse("2026-10-19T12:00:00Z");
+const END_MS = START_MS + 100 * 60_000;
+const NOW_MS = START_MS + 5 * 60_000;
+
+const resource = (id: string) => ({ id, label: id, icon: `/${id}.png` });
+
+const timersAt = (spawnMinutes: Record<string, number>): TimersState =>
+  Object.fromEntries(
+    Object.entries(spawnMinutes).map(([id, minutes]) => [
+      id,
+      {
+        id,
+        text: id,
+        next_spawn: new Date(START_MS + minutes * 60_000).toISOString(),
+        // The rows' own anchor, which the markers must not use.
+        ingame_time: "06:00",
+        ingame_time_saved_at: new Date(START_MS).toISOString(),
+      },
+    ])
+  );
+
+const markersOf = (
+  spawnMinutes: Record<string, number>,
+  clockAnchor?: MinecraftClockAnchor
+) =>
+  getTimelineMarkers(
+    timersAt(spawnMinutes),
+    ["e", "d", "c", "b", "a", "late", "unset"].map(resource),
+    clockAnchor,
+    START_MS,
+    END_MS,
+    NOW_MS
+  );
+
+describe("getTimelineMarkers", () => {
+  it("orders the spawns in the window by time", () => {
+    const markers = markersOf({ a: 10, b: 60, late: 120 });
+
+    expect(markers.map((marker) => marker.resource.id)).toEqual(["a", "b"]);
+    expect(markers.map((marker) => marker.offset)).toEqual([0.1, 0.6]);
+  });
+
+  it("moves colliding markers to the first lane free again", () => {
+    const markers = markersOf({ a: 10, b: 12, c: 13, d: 15, e: 16 });
+
+    expect(
+      Object.fromEntries(markers.map((marker) => [marker.resource.id, marker.lane]))
+    ).toEqual({ a: 0, b: 1, c: 2, d: 0, e: 1 });
+  });
+
+  it("derives the phase at each spawn from the server anchor", () => {
+    // The server restarted on 18:00, so the spawn 10 minutes later is at 06:00.
+    const restarted = {
+      ingame_time: "18:00",
+      ingame_time_saved_at: new Date(START_MS).toISOString(),
+    };
+
+    expect(markersOf({ a: 10 }, restarted)[0].phase).toBe("dawn");
+    expect(markersOf({ a: 10 })[0].phase).toBeNull();
+  });
+});
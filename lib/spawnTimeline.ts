@@ -0,0 +1,119 @@
+import {
+  deriveMinecraftClockAtDate,
+  MinecraftClockAnchor,
+  MinecraftPhase,
+} from "@/lib/minecraftTime";
+import { getEffectiveNextSpawn, SpawnRecurrence } from "@/lib/spawnRecurrence";
+import type { SpawnTimerRow, TimersState } from "@/lib/spawnTimers";
+
+type TimelineResource = { id: string; label: string; icon: string } &
+  SpawnRecurrence;
+
+export type TimelineMarker = {
+  resource: TimelineResource;
+  nextSpawnMs: number;
+  projected: boolean;
+  // In-game phase at the spawn, null without a clock.
+  phase: MinecraftPhase | null;
+  // Position along the timeline, from 0 (start) to 1 (end).
+  offset: number;
+  // Vertical lane, so spawns close in time do not overlap.
+  lane: number;
+};
+
+export const TIMELINE_ZOOM_HOURS = [1, 3, 6, 12] as const;
+
+export const DEFAULT_TIMELINE_ZOOM_HOURS = 3;
+
+// Share of the window shown before "now", so the cursor is never on the edge.
+export const TIMELINE_PAST_RATIO = 0.1;
+
+// Markers closer than this (as a share of the width) go to separate lanes.
+const MARKER_COLLISION_OFFSET = 0.04;
+
+export const getTimelineWindow = (nowMs: number, zoomHours: number) => {
+  const spanMs = zoomHours * 60 * 60 * 1000;
+  const startMs = nowMs - spanMs * TIMELINE_PAST_RATIO;
+
+  return { startMs, endMs: startMs + spanMs };
+};
+
+/**
+ * All timers of a server share one in-game clock, so the most recently saved
+ * anchor is the most accurate one. It is only the fallback of
+ * resolveServerClockAnchor, which also applies the fitted model and restarts.
+ */
+export const getLatestClockAnchor = (
+  timers: TimersState
+): MinecraftClockAnchor | undefined =>
+  Object.values(timers)
+    .filter(
+      (row): row is SpawnTimerRow =>
+        Boolean(row?.ingame_time && row.ingame_time_saved_at)
+    )
+    .sort(
+      (a, b) =>
+        new Date(b.ingame_time_saved_at ?? 0).getTime() -
+        new Date(a.ingame_time_saved_at ?? 0).getTime()
+    )[0];
+
+export const getTimelineMarkers = (
+  timers: TimersState,
+  resources: TimelineResource[],
+  // The server anchor from resolveServerClockAnchor.
+  clockAnchor: MinecraftClockAnchor | undefined,
+  startMs: number,
+  endMs: number,
+  nowMs: number
+): TimelineMarker[] => {
+  const lanesLastOffset: number[] = [];
+
+  return resources
+    .flatMap((resource) => {
+      const effective = getEffectiveNextSpawn(
+        timers[resource.id],
+        resource,
+        nowMs
+      );
+
+      if (
+        !effective ||
+        effective.nextSpawnMs < startMs ||
+        effective.nextSpawnMs > endMs
+      ) {
+        return [];
+      }
+
+      return [
+        {
+          resource,
+          nextSpawnMs: effective.nextSpawnMs,
+          projected: effective.projected,
+        },
+      ];
+    })
+    .sort((a, b) => a.nextSpawnMs - b.nextSpawnMs)
+    .map(({ resource, nextSpawnMs, projected }) => {
+      const offset = (nextSpawnMs - startMs) / (endMs - startMs);
+      let lane = lanesLastOffset.findIndex(
+        (lastOffset) => offset - lastOffset >= MARKER_COLLISION_OFFSET
+      );
+
+      if (lane === -1) {
+        lane = lanesLastOffset.length;
+      }
+
+      lanesLastOffset[lane] = offset;
+
+      return {
+        resource,
+        nextSpawnMs,
+        projected,
+        phase:
+          deriveMinecraftClockAtDate(clockAnchor, new Date(nextSpawnMs))?.phase ??
+          null,
+        offset,
+        lane,
+      };
+    });
+};
@@ -0,0 +1,92 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+// One row of spawn_timer_revisions: a save that changed next_spawn and/or
+// the in-game time, with the values before and after it.
+export type SpawnTimerRevision = {
+  id: number;
+  location_id: string | null;
+  server_id: string;
+  timer_text: string | null;
+  old_next_spawn: string | null;
+  new_next_spawn: string | null;
+  old_ingame_time: string | null;
+  new_ingame_time: string | null;
+  old_ingame_time_saved_at: string | null;
+  new_ingame_time_saved_at: string | null;
+  changed_by_name: string | null;
+  changed_at: string;
+};
+
+export const SPAWN_TIMER_REVISION_COLUMNS =
+  "id, location_id, server_id, timer_text, old_next_spawn, new_next_spawn, old_ingame_time, new_ingame_time, old_ingame_time_saved_at, new_ingame_time_saved_at, changed_by_name, changed_at";
+
+export const REVISION_HISTORY_LIMIT = 20;
+
+export type RevisionChange =
+  | {
+      field: "next_spawn";
+      oldValue: string | null;
+      newValue: string | null;
+    }
+  | {
+      field: "ingame_time";
+      oldValue: string | null;
+      newValue: string | null;
+      oldSavedAt: string | null;
+    };
+
+// Most recent first.
+export const fetchSpawnTimerRevisions = async (
+  client: SupabaseClient,
+  locationId: string,
+  limit: number = REVISION_HISTORY_LIMIT
+) => {
+  const { data, error } = await client
+    .from("spawn_timer_revisions")
+    .select(SPAWN_TIMER_REVISION_COLUMNS)
+    .eq("location_id", locationId)
+    .order("changed_at", { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return (data ?? []) as SpawnTimerRevision[];
+};
+
+const sameInstant = (a: string | null, b: string | null) =>
+  a === b || (a !== null && b !== null && Date.parse(a) === Date.parse(b));
+
+// The fields a revision changed, each revertible on its own.
+export const getRevisionChanges = (revision: SpawnTimerRevision) => {
+  const changes: RevisionChange[] = [];
+
+  if (!sameInstant(revision.old_next_spawn, revision.new_next_spawn)) {
+    changes.push({
+      field: "next_spawn",
+      oldValue: revision.old_next_spawn,
+      newValue: revision.new_next_spawn,
+    });
+  }
+
+  if (
+    revision.old_ingame_time !== revision.new_ingame_time ||
+    !sameInstant(revision.old_ingame_time_saved_at, revision.new_ingame_time_saved_at)
+  ) {
+    changes.push({
+      field: "ingame_time",
+      oldValue: revision.old_ingame_time,
+      newValue: revision.new_ingame_time,
+      oldSavedAt: revision.old_ingame_time_saved_at,
+    });
+  }
+
+  return changes;
+};
+
+// save_spawn_timer cannot clear a field, so a change from an empty value
+// (the first save of a timer) cannot be reverted.
+export const canRevertChange = (change: RevisionChange) =>
+  change.oldValue !== null &&
+  (change.field === "next_spawn" || change.oldSavedAt !== null);
@@ -0,0 +1,151 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { DEFAULT_LOCALE, Locale, translate } from "@/lib/i18n";
+import type { SpawnLocation } from "@/lib/spawnLocations";
+import { SPAWN_TIMER_COLUMNS, SpawnTimerRow } from "@/lib/spawnTimers";
+
+type TimerKey = Pick<SpawnLocation, "server_id" | "label">;
+
+export type SaveSpawnTimerResult =
+  | { status: "saved"; row: SpawnTimerRow }
+  | { status: "conflict"; current: SpawnTimerRow | null };
+
+export type SaveSpawnTimerOptions = {
+  // Only honoured for service-role callers; signed-in users are attributed
+  // from their session by the stamp_spawn_timer_author trigger.
+  authorName?: string;
+  // updated_at of the row as the caller last saw it (null if it had no row).
+  // When provided, the save is rejected if the row changed since.
+  expectedUpdatedAt?: string | null;
+  // Language of the errors thrown by the save.
+  locale?: Locale;
+};
+
+type SpawnTimerValues = {
+  p_next_spawn?: string;
+  p_ingame_time?: string;
+  p_ingame_time_saved_at?: string;
+};
+
+export const fetchSpawnTimer = async (
+  client: SupabaseClient,
+  location: TimerKey
+) => {
+  const { data, error } = await client
+    .from("spawn_timers")
+    .select(SPAWN_TIMER_COLUMNS)
+    .eq("server_id", location.server_id)
+    .eq("text", location.label)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  return (data ?? null) as SpawnTimerRow | null;
+};
+
+// Timer rows keyed by location id; locations without a row are absent.
+export const fetchSpawnTimersForLocations = async (
+  client: SupabaseClient,
+  locations: Array<Pick<SpawnLocation, "id" | "server_id" | "label">>
+) => {
+  const byLocationId = new Map<string, SpawnTimerRow>();
+
+  if (locations.length === 0) {
+    return byLocationId;
+  }
+
+  const { data, error } = await client
+    .from("spawn_timers")
+    .select(SPAWN_TIMER_COLUMNS)
+    .in("server_id", [...new Set(locations.map((location) => location.server_id))])
+    .in(
+      "text",
+      locations.map((location) => location.label)
+    );
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  ((data ?? []) as SpawnTimerRow[]).forEach((row) => {
+    const location = locations.find(
+      (item) => item.server_id === row.server_id && item.label === row.text
+    );
+
+    if (location) {
+      byLocationId.set(location.id, row);
+    }
+  });
+
+  return byLocationId;
+};
+
+const saveSpawnTimer = async (
+  client: SupabaseClient,
+  location: TimerKey,
+  values: SpawnTimerValues,
+  { authorName, expectedUpdatedAt, locale = DEFAULT_LOCALE }: SaveSpawnTimerOptions
+): Promise<SaveSpawnTimerResult> => {
+  const checkConflict = expectedUpdatedAt !== undefined;
+  const { data, error } = await client
+    .rpc("save_spawn_timer", {
+      p_server_id: location.server_id,
+      p_text: location.label,
+      ...values,
+      p_updated_by_name: authorName ?? null,
+      p_check_conflict: checkConflict,
+      p_expected_updated_at: expectedUpdatedAt ?? null,
+    })
+    .select(SPAWN_TIMER_COLUMNS);
+
+  if (error) {
+    throw new Error(error.message);
+  }
+
+  const rows = (data ?? []) as SpawnTimerRow[];
+
+  if (rows.length > 0) {
+    return { status: "saved", row: rows[0] };
+  }
+
+  if (!checkConflict) {
+    throw new Error(translate(locale, "api.emptyUpdate"));
+  }
+
+  return {
+    status: "conflict",
+    current: await fetchSpawnTimer(client, location),
+  };
+};
+
+export const saveNextSpawn = (
+  client: SupabaseClient,
+  location: TimerKey,
+  nextSpawn: Date,
+  options: SaveSpawnTimerOptions = {}
+) =>
+  saveSpawnTimer(
+    client,
+    location,
+    { p_next_spawn: nextSpawn.toISOString() },
+    options
+  );
+
+export const saveInGameTime = (
+  client: SupabaseClient,
+  location: TimerKey,
+  ingameTime: string,
+  savedAt: Date,
+  options: SaveSpawnTimerOptions = {}
+) =>
+  saveSpawnTimer(
+    client,
+    location,
+    {
+      p_ingame_time: ingameTime,
+      p_ingame_time_saved_at: savedAt.toISOString(),
+    },
+    options
+  );
@@ -0,0 +1,97 @@
+import { DEFAULT_LOCALE, formatElapsed, Locale, translate } from "@/lib/i18n";
+
+export type SpawnTimerRow = {
+  id: number | string | null;
+  server_id?: string;
+  text: string | null;
+  next_spawn: string | null;
+  ingame_time: string | null;
+  ingame_time_saved_at: string | null;
+  updated_by?: string | null;
+  updated_by_name?: string | null;
+  updated_at?: string | null;
+};
+
+export type TimersState = Partial<Record<string, SpawnTimerRow>>;
+
+export const SPAWN_TIMER_COLUMNS =
+  "id, server_id, text, next_spawn, ingame_time, ingame_time_saved_at, updated_by, updated_by_name, updated_at";
+
+export type SpawnTimerChange =
+  | { type: "upsert"; row: SpawnTimerRow }
+  | { type: "delete"; id: SpawnTimerRow["id"] };
+
+type ResourceLabel = { id: string; label: string };
+
+const withoutRowId = (state: TimersState, rowId: SpawnTimerRow["id"]) => {
+  if (rowId === null || rowId === undefined) {
+    return { ...state };
+  }
+
+  return Object.fromEntries(
+    Object.entries(state).filter(([, row]) => row?.id !== rowId)
+  ) as TimersState;
+};
+
+export const mergeSpawnTimerChange = (
+  state: TimersState,
+  change: SpawnTimerChange,
+  resources: ResourceLabel[]
+): TimersState => {
+  if (change.type === "delete") {
+    return withoutRowId(state, change.id);
+  }
+
+  // A row may have been renamed away from a resource, so drop it wherever it
+  // was before re-attaching it by label.
+  const next = withoutRowId(state, change.row.id);
+  const resource = resources.find((item) => item.label === change.row.text);
+
+  if (resource) {
+    next[resource.id] = change.row;
+  }
+
+  return next;
+};
+
+// Keys rows by the id of the resource carrying their label; rows without a
+// matching resource are dropped.
+export const indexTimersByResource = (
+  rows: SpawnTimerRow[],
+  resources: ResourceLabel[]
+): TimersState => {
+  const normalized: TimersState = {};
+
+  resources.forEach((resource) => {
+    const match = rows.find((row) => row.text === resource.label);
+
+    if (match) {
+      normalized[resource.id] = match;
+    }
+  });
+
+  return normalized;
+};
+
+// "modifié par X il y a Y min", or null for rows saved before attribution.
+export const describeTimerAttribution = (
+  row: SpawnTimerRow | undefined,
+  nowMs: number,
+  locale: Locale = DEFAULT_LOCALE
+) => {
+  if (!row?.updated_at) {
+    return null;
+  }
+
+  const updatedAtMs = new Date(row.updated_at).getTime();
+
+  if (Number.isNaN(updatedAtMs)) {
+    return null;
+  }
+
+  const elapsed = formatElapsed(locale, nowMs - updatedAtMs);
+
+  return row.updated_by_name
+    ? translate(locale, "attribution.by", { name: row.updated_by_name, elapsed })
+    : translate(locale, "attribution.anonymous", { elapsed });
+};
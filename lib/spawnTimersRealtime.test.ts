@@ -0,0 +1,172 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  POLLING_INITIAL_DELAY_MS,
+  startSpawnTimersSync,
+} from "@/lib/spawnTimersRealtime";
+
+type ChangeHandler = (payload: unknown) => void;
+type StatusHandler = (status: string) => void;
+
+// Stands in for a Supabase realtime channel: the test drives the
+// subscription status and the Postgres change events by hand.
+const createMockRealtime = () => {
+  let changeHandler: ChangeHandler | null = null;
+  let statusHandler: StatusHandler | null = null;
+  const channel = {
+    on: vi.fn((_type: string, _filter: unknown, handler: ChangeHandler) => {
+      changeHandler = handler;
+      return channel;
+    }),
+    subscribe: vi.fn((handler: StatusHandler) => {
+      statusHandler = handler;
+      return channel;
+    }),
+  };
+  const client = {
+    channel: vi.fn(() => channel),
+    removeChannel: vi.fn(async () => "ok"),
+  };
+
+  return {
+    client: client as unknown as Parameters<typeof startSpawnTimersSync>[0]["client"],
+    raw: client,
+    channel,
+    emitStatus: (status: string) => statusHandler?.(status),
+    emitChange: (payload: unknown) => changeHandler?.(payload),
+  };
+};
+
+const startSync = (onResync: () => Promise<void>) => {
+  const realtime = createMockRealtime();
+  const onChange = vi.fn();
+  const onStatusChange = vi.fn();
+  const stop = startSpawnTimersSync({
+    client: realtime.client,
+    serverId: "cobblegems",
+    onChange,
+    onStatusChange,
+    onResync,
+  });
+
+  return { ...realtime, onChange, onStatusChange, stop };
+};
+
+const lastStatus = (onStatusChange: ReturnType<typeof vi.fn>) =>
+  onStatusChange.mock.calls.at(-1)?.[0];
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("startSpawnTimersSync", () => {
+  it("subscribes to the server's timers and forwards changes", () => {
+    const sync = startSync(vi.fn(async () => {}));
+
+    expect(sync.raw.channel).toHaveBeenCalledWith("spawn_timers_changes:cobblegems");
+    expect(sync.channel.on).toHaveBeenCalledWith(
+      "postgres_changes",
+      expect.objectContaining({
+        table: "spawn_timers",
+        filter: "server_id=eq.cobblegems",
+      }),
+      expect.any(Function)
+    );
+    expect(lastStatus(sync.onStatusChange)).toBe("connecting");
+
+    sync.emitStatus("SUBSCRIBED");
+    expect(lastStatus(sync.onStatusChange)).toBe("live");
+
+    const row = { id: 1, text: "Ressources-01", next_spawn: null };
+    sync.emitChange({ eventType: "UPDATE", new: row, old: {} });
+    sync.emitChange({ eventType: "DELETE", new: {}, old: { id: 2 } });
+
+    expect(sync.onChange.mock.calls).toEqual([
+      [{ type: "upsert", row }],
+      [{ type: "delete", id: 2 }],
+    ]);
+  });
+
+  it("polls with a backoff while the channel is down, then resyncs once", async () => {
+    const onResync = vi.fn(async () => {});
+    const sync = startSync(onResync);
+
+    sync.emitStatus("SUBSCRIBED");
+    sync.emitStatus("CHANNEL_ERROR");
+    expect(lastStatus(sync.onStatusChange)).toBe("disconnected");
+
+    await vi.advanceTimersByTimeAsync(POLLING_INITIAL_DELAY_MS - 1);
+    expect(onResync).toHaveBeenCalledTimes(0);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(onResync).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(2 * POLLING_INITIAL_DELAY_MS);
+    expect(onResync).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(4 * POLLING_INITIAL_DELAY_MS);
+    expect(onResync).toHaveBeenCalledTimes(3);
+
+    sync.emitStatus("SUBSCRIBED");
+    await vi.advanceTimersByTimeAsync(0);
+    expect(lastStatus(sync.onStatusChange)).toBe("live");
+    expect(onResync).toHaveBeenCalledTimes(4);
+
+    // Polling stopped with the channel back.
+    await vi.advanceTimersByTimeAsync(10 * POLLING_INITIAL_DELAY_MS);
+    expect(onResync).toHaveBeenCalledTimes(4);
+  });
+
+  it("keeps the backoff going when a resync fails", async () => {
+    const onResync = vi
+      .fn<() => Promise<void>>()
+      .mockRejectedValueOnce(new Error("network down"))
+      .mockResolvedValue(undefined);
+    const sync = startSync(onResync);
+
+    sync.emitStatus("TIMED_OUT");
+    await vi.advanceTimersByTimeAsync(POLLING_INITIAL_DELAY_MS);
+    expect(onResync).toHaveBeenCalledTimes(1);
+    expect(lastStatus(sync.onStatusChange)).toBe("disconnected");
+    expect(console.error).toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(2 * POLLING_INITIAL_DELAY_MS);
+    expect(onResync).toHaveBeenCalledTimes(2);
+  });
+
+  it("reports a failed resync after reconnecting and polls until it succeeds", async () => {
+    const onResync = vi.fn<() => Promise<void>>().mockResolvedValue(undefined);
+    const sync = startSync(onResync);
+
+    sync.emitStatus("SUBSCRIBED");
+    sync.emitStatus("CLOSED");
+    onResync.mockRejectedValueOnce(new Error("network down"));
+    sync.emitStatus("SUBSCRIBED");
+    await vi.advanceTimersByTimeAsync(0);
+    expect(lastStatus(sync.onStatusChange)).toBe("disconnected");
+
+    await vi.advanceTimersByTimeAsync(POLLING_INITIAL_DELAY_MS);
+    expect(onResync).toHaveBeenCalledTimes(2);
+    expect(lastStatus(sync.onStatusChange)).toBe("live");
+
+    await vi.advanceTimersByTimeAsync(10 * POLLING_INITIAL_DELAY_MS);
+    expect(onResync).toHaveBeenCalledTimes(2);
+  });
+
+  it("stops polling and removes the channel on cleanup", async () => {
+    const onResync = vi.fn(async () => {});
+    const sync = startSync(onResync);
+
+    sync.emitStatus("CHANNEL_ERROR");
+    sync.stop();
+    sync.emitChange({ eventType: "INSERT", new: { id: 3 }, old: {} });
+    await vi.advanceTimersByTimeAsync(10 * POLLING_INITIAL_DELAY_MS);
+
+    expect(sync.raw.removeChannel).toHaveBeenCalledWith(sync.channel);
+    expect(onResync).not.toHaveBeenCalled();
+    expect(sync.onChange).not.toHaveBeenCalled();
+  });
+});
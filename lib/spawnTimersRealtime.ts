@@ -0,0 +1,164 @@
+import type {
+  RealtimePostgresChangesPayload,
+  SupabaseClient,
+} from "@supabase/supabase-js";
+
+import type { SpawnTimerChange, SpawnTimerRow } from "@/lib/spawnTimers";
+
+export type SpawnTimersConnectionStatus = "connecting" | "live" | "disconnected";
+
+type RealtimeClient = Pick<SupabaseClient, "channel" | "removeChannel">;
+
+type SpawnTimersSyncOptions = {
+  client: RealtimeClient;
+  // Only changes for this server are delivered.
+  serverId: string;
+  onChange: (change: SpawnTimerChange) => void;
+  onStatusChange: (status: SpawnTimersConnectionStatus) => void;
+  // Full reload used while the channel is down and once it comes back.
+  onResync: () => Promise<void> | void;
+};
+
+export const POLLING_INITIAL_DELAY_MS = 5_000;
+export const POLLING_MAX_DELAY_MS = 60_000;
+
+export const getPollingDelay = (attempt: number) =>
+  Math.min(POLLING_MAX_DELAY_MS, POLLING_INITIAL_DELAY_MS * 2 ** attempt);
+
+export const toSpawnTimerChange = (
+  payload: RealtimePostgresChangesPayload<SpawnTimerRow>
+): SpawnTimerChange | null => {
+  if (payload.eventType === "DELETE") {
+    return payload.old.id === undefined
+      ? null
+      : { type: "delete", id: payload.old.id };
+  }
+
+  return { type: "upsert", row: payload.new };
+};
+
+/**
+ * Subscribes to Postgres changes on spawn_timers. While the channel is
+ * unavailable the timers are polled with an exponential backoff, and a full
+ * resync runs as soon as the subscription is live again. A failed resync is
+ * reported as "disconnected" and polling goes on until one succeeds.
+ * Returns a cleanup function.
+ */
+export const startSpawnTimersSync = ({
+  client,
+  serverId,
+  onChange,
+  onStatusChange,
+  onResync,
+}: SpawnTimersSyncOptions) => {
+  let stopped = false;
+  let channelLive = false;
+  // Changes may have been missed since the channel was last live: only a
+  // resync made once it is live again catches up with all of them.
+  let needsResync = false;
+  let pollAttempt = 0;
+  let pollTimeoutId: ReturnType<typeof setTimeout> | null = null;
+
+  const stopPolling = () => {
+    if (pollTimeoutId !== null) {
+      clearTimeout(pollTimeoutId);
+      pollTimeoutId = null;
+    }
+    pollAttempt = 0;
+  };
+
+  const resync = async () => {
+    try {
+      await onResync();
+
+      if (channelLive) {
+        needsResync = false;
+      }
+      return true;
+    } catch (caughtError) {
+      console.error("Spawn timers resync error", caughtError);
+      return false;
+    }
+  };
+
+  const schedulePoll = () => {
+    if (stopped || pollTimeoutId !== null) {
+      return;
+    }
+
+    pollTimeoutId = setTimeout(async () => {
+      pollTimeoutId = null;
+      const synced = await resync();
+
+      if (stopped) {
+        return;
+      }
+
+      if (synced && channelLive) {
+        stopPolling();
+        onStatusChange("live");
+        return;
+      }
+
+      if (!synced) {
+        onStatusChange("disconnected");
+      }
+
+      pollAttempt += 1;
+      schedulePoll();
+    }, getPollingDelay(pollAttempt));
+  };
+
+  onStatusChange("connecting");
+
+  const channel = client
+    .channel(`spawn_timers_changes:${serverId}`)
+    .on<SpawnTimerRow>(
+      "postgres_changes",
+      {
+        event: "*",
+        schema: "public",
+        table: "spawn_timers",
+        filter: `server_id=eq.${serverId}`,
+      },
+      (payload) => {
+        const change = toSpawnTimerChange(payload);
+
+        if (change && !stopped) {
+          onChange(change);
+        }
+      }
+    )
+    .subscribe((status) => {
+      if (stopped) {
+        return;
+      }
+
+      if (status === "SUBSCRIBED") {
+        channelLive = true;
+        stopPolling();
+        onStatusChange("live");
+
+        if (needsResync) {
+          void resync().then((synced) => {
+            if (!synced && !stopped && channelLive) {
+              onStatusChange("disconnected");
+              schedulePoll();
+            }
+          });
+        }
+        return;
+      }
+
+      channelLive = false;
+      needsResync = true;
+      onStatusChange("disconnected");
+      schedulePoll();
+    });
+
+  return () => {
+    stopped = true;
+    stopPolling();
+    void client.removeChannel(channel);
+  };
+};
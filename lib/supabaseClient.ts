@@ -18,7 +18,9 @@ export const getSupabaseBrowserClient = (): SupabaseClient => {
 
   browserClient = createClient(supabaseUrl, supabaseAnonKey, {
     auth: {
-      persistSession: false,
+      persistSession: true,
+      autoRefreshToken: true,
+      detectSessionInUrl: true,
     },
   });
 
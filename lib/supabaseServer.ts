@@ -0,0 +1,72 @@
+import { createClient, SupabaseClient } from "@supabase/supabase-js";
+
+let serviceClient: SupabaseClient | null = null;
+let publicClient: SupabaseClient | null = null;
+
+// Service-role client for route handlers and scheduled jobs. Never import
+// this from a "use client" module: the key bypasses row-level security.
+export const getSupabaseServiceClient = (): SupabaseClient => {
+  if (serviceClient) {
+    return serviceClient;
+  }
+
+  const supabaseUrl =
+    process.env.SUPABASE_URL ?? process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error(
+      "Les variables d'environnement SUPABASE_URL (ou NEXT_PUBLIC_SUPABASE_URL) et SUPABASE_SERVICE_ROLE_KEY sont requises."
+    );
+  }
+
+  serviceClient = createClient(supabaseUrl, serviceRoleKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  });
+
+  return serviceClient;
+};
+
+// Anonymous client for server-rendered pages: same access as a visitor, and
+// only the public keys the dashboard already needs.
+export const getSupabasePublicClient = (): SupabaseClient => {
+  if (publicClient) {
+    return publicClient;
+  }
+
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+  if (!supabaseUrl || !supabaseAnonKey) {
+    throw new Error(
+      "Les variables d'environnement NEXT_PUBLIC_SUPABASE_URL et NEXT_PUBLIC_SUPABASE_ANON_KEY sont requises."
+    );
+  }
+
+  publicClient = createClient(supabaseUrl, supabaseAnonKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  });
+
+  return publicClient;
+};
+
+// The Supabase user behind `Authorization: Bearer <access token>`, or null.
+export const getRequestUser = async (request: Request) => {
+  const token = /^Bearer (.+)$/.exec(
+    request.headers.get("authorization") ?? ""
+  )?.[1];
+
+  if (!token) {
+    return null;
+  }
+
+  const { data, error } = await getSupabaseServiceClient().auth.getUser(token);
+
+  return error ? null : data.user;
+};
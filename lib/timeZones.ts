@@ -0,0 +1,49 @@
+export const TIME_ZONE_STORAGE_KEY = "legs-info:time-zone";
+
+// Used during server rendering and when the browser reports no zone.
+export const FALLBACK_TIME_ZONE = "UTC";
+
+export const isValidTimeZone = (value: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const detectTimeZone = () =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || FALLBACK_TIME_ZONE;
+
+// IANA zones known to this runtime, or just the detected one on runtimes
+// without Intl.supportedValuesOf.
+export const listTimeZones = (): string[] => {
+  const supported =
+    typeof Intl.supportedValuesOf === "function"
+      ? Intl.supportedValuesOf("timeZone")
+      : [];
+
+  return supported.length > 0 ? supported : [detectTimeZone()];
+};
+
+// The explicitly chosen zone, or null to follow the browser.
+export const loadTimeZonePreference = (): string | null => {
+  try {
+    const stored = window.localStorage.getItem(TIME_ZONE_STORAGE_KEY);
+    return stored && isValidTimeZone(stored) ? stored : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveTimeZonePreference = (timeZone: string | null) => {
+  try {
+    if (timeZone) {
+      window.localStorage.setItem(TIME_ZONE_STORAGE_KEY, timeZone);
+    } else {
+      window.localStorage.removeItem(TIME_ZONE_STORAGE_KEY);
+    }
+  } catch (caughtError) {
+    console.warn("Unable to persist time zone", caughtError);
+  }
+};
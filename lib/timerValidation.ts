@@ -0,0 +1,67 @@
+import { DEFAULT_LOCALE, Locale, translate } from "@/lib/i18n";
+import { parseMinecraftTime } from "@/lib/minecraftTime";
+
+// Shared by the page, the API routes and any other writer so every entry
+// point rejects the same inputs with the same messages.
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; error: string };
+
+export type SpawnOffset = { minutes: number; seconds: number };
+
+export const validateSpawnOffset = (
+  minutes: number,
+  seconds: number,
+  locale: Locale = DEFAULT_LOCALE
+): ValidationResult<SpawnOffset> => {
+  if (!Number.isFinite(minutes) || minutes < 0) {
+    return { ok: false, error: translate(locale, "validation.invalidTime") };
+  }
+
+  if (!Number.isFinite(seconds) || seconds < 0 || seconds >= 60) {
+    return { ok: false, error: translate(locale, "validation.secondsRange") };
+  }
+
+  if (minutes * 60 + seconds <= 0) {
+    return { ok: false, error: translate(locale, "validation.positiveTime") };
+  }
+
+  return { ok: true, value: { minutes, seconds } };
+};
+
+// The offset counts from the start of the current minute, so "45 min 30 s"
+// always lands on hh:mm:30 regardless of when the form was submitted.
+export const computeNextSpawnDate = (
+  { minutes, seconds }: SpawnOffset,
+  now: Date = new Date()
+) => {
+  const nextSpawn = new Date(now);
+  nextSpawn.setSeconds(0, 0);
+  nextSpawn.setMinutes(nextSpawn.getMinutes() + minutes);
+  nextSpawn.setSeconds(seconds);
+
+  return nextSpawn;
+};
+
+export const validateMinecraftTimeInput = (
+  rawValue: string,
+  locale: Locale = DEFAULT_LOCALE
+): ValidationResult<string> => {
+  const value = rawValue.trim();
+
+  if (!value) {
+    return {
+      ok: false,
+      error: translate(locale, "validation.ingameTimeRequired"),
+    };
+  }
+
+  if (parseMinecraftTime(value) === null) {
+    return {
+      ok: false,
+      error: translate(locale, "validation.ingameTimeFormat"),
+    };
+  }
+
+  return { ok: true, value };
+};
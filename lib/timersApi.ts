@@ -0,0 +1,119 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { NextResponse } from "next/server";
+
+import { getServerLocale, Locale, parseLocale, translate } from "@/lib/i18n";
+import {
+  fetchSpawnLocations,
+  getActiveSpawnLocations,
+  SpawnLocation,
+} from "@/lib/spawnLocations";
+import { getEffectiveNextSpawn } from "@/lib/spawnRecurrence";
+import type { SpawnTimerRow } from "@/lib/spawnTimers";
+
+export type TimerApiEntry = {
+  id: string;
+  serverId: string;
+  label: string;
+  icon: string;
+  timer: SpawnTimerRow | null;
+  // next_spawn rolled forward for recurring locations (see spawnRecurrence).
+  effectiveNextSpawn: string | null;
+  projected: boolean;
+};
+
+export type TimersListResponse = { serverId: string; timers: TimerApiEntry[] };
+export type TimerUpdateResponse = { timer: TimerApiEntry };
+export type ApiErrorResponse = { error: string };
+export type TimerConflictResponse = ApiErrorResponse & {
+  current: TimerApiEntry;
+};
+
+export const DEFAULT_API_AUTHOR = "API";
+
+export const toTimerApiEntry = (
+  location: SpawnLocation,
+  timer: SpawnTimerRow | null,
+  nowMs: number = Date.now()
+): TimerApiEntry => {
+  const effective = getEffectiveNextSpawn(timer, location, nowMs);
+
+  return {
+    id: location.id,
+    serverId: location.server_id,
+    label: location.label,
+    icon: location.icon,
+    timer,
+    effectiveNextSpawn: effective
+      ? new Date(effective.nextSpawnMs).toISOString()
+      : null,
+    projected: effective?.projected ?? false,
+  };
+};
+
+export const apiError = (error: string, status: number) =>
+  NextResponse.json<ApiErrorResponse>({ error }, { status });
+
+// Error messages follow ?lang=en|fr, like the feeds, then the server locale.
+export const getRequestLocale = (request: Request): Locale =>
+  parseLocale(new URL(request.url).searchParams.get("lang")) ?? getServerLocale();
+// Writes are reserved to holders of TIMERS_API_TOKEN (Discord bot, scripts).
+export const isAuthorizedWrite = (request: Request) => {
+  const token = process.env.TIMERS_API_TOKEN;
+
+  return (
+    Boolean(token) && request.headers.get("authorization") === `Bearer ${token}`
+  );
+};
+
+export const findActiveLocation = async (
+  client: SupabaseClient,
+  serverId: string,
+  id: string
+) => {
+  const { locations } = await fetchSpawnLocations(client, serverId);
+
+  return (
+    getActiveSpawnLocations(locations).find((location) => location.id === id) ??
+    null
+  );
+};
+
+export const readJsonBody = async (request: Request) => {
+  const body: unknown = await request.json().catch(() => null);
+
+  return body && typeof body === "object"
+    ? (body as Record<string, unknown>)
+    : null;
+};
+
+export const readAuthorName = (body: Record<string, unknown>) =>
+  typeof body.author === "string" && body.author.trim()
+    ? body.author.trim().slice(0, 64)
+    : DEFAULT_API_AUTHOR;
+
+// Optional optimistic concurrency: callers that send `expectedUpdatedAt`
+// (string, or null for "no row yet") get a 409 if the row changed since.
+export const readExpectedUpdatedAt = (
+  body: Record<string, unknown>
+): string | null | undefined => {
+  if (!("expectedUpdatedAt" in body)) {
+    return undefined;
+  }
+
+  return typeof body.expectedUpdatedAt === "string"
+    ? body.expectedUpdatedAt
+    : null;
+};
+
+export const conflictResponse = (
+  location: SpawnLocation,
+  current: SpawnTimerRow | null,
+  locale: Locale
+) =>
+  NextResponse.json<TimerConflictResponse>(
+    {
+      error: translate(locale, "api.timerConflict"),
+      current: toTimerApiEntry(location, current),
+    },
+    { status: 409 }
+  );
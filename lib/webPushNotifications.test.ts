@@ -0,0 +1,138 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { WebPushError } from "web-push";
+
+import { DEFAULT_SPAWN_LOCATIONS, fetchSpawnLocations } from "@/lib/spawnLocations";
+import { fetchSpawnTimersForLocations } from "@/lib/spawnTimerStore";
+import {
+  dispatchPushNotifications,
+  PushSender,
+  StoredPushSubscription,
+} from "@/lib/webPushNotifications";
+
+vi.mock("@/lib/spawnLocations", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/spawnLocations")>()),
+  fetchSpawnLocations: vi.fn(),
+}));
+vi.mock("@/lib/spawnTimerStore", () => ({
+  fetchSpawnTimersForLocations: vi.fn(),
+}));
+vi.mock("@/lib/clockDrift", () => ({
+  fetchClockModels: vi.fn(async () => new Map()),
+}));
+vi.mock("@/lib/servers", async (importOriginal) => {
+  const servers = await importOriginal<typeof import("@/lib/servers")>();
+
+  return {
+    ...servers,
+    fetchServers: vi.fn(async () => ({ servers: servers.DEFAULT_SERVERS, error: null })),
+  };
+});
+
+const NOW_MS = Date.parse("2026-10-19T12:00:00Z");
+const location = DEFAULT_SPAWN_LOCATIONS[0];
+
+const storedSubscription = (endpoint: string): StoredPushSubscription => ({
+  endpoint,
+  subscription: { endpoint, keys: { p256dh: "p256dh", auth: "auth" } },
+  watched_location_ids: [location.id],
+  lead_minutes: 5,
+});
+
+// Just enough of the Supabase client for the dispatcher: the stored
+// subscriptions, notification claims that always succeed, and deletions.
+const createFakeClient = (subscriptions: StoredPushSubscription[]) => {
+  const deletedEndpoints: string[] = [];
+  const client = {
+    from: (table: string) => ({
+      select: async () => ({
+        data: table === "push_subscriptions" ? subscriptions : [],
+        error: null,
+      }),
+      upsert: (row: { endpoint: string }) => ({
+        select: async () => ({ data: [{ endpoint: row.endpoint }], error: null }),
+      }),
+      delete: () => ({
+        eq: async (_column: string, value: string) => {
+          deletedEndpoints.push(value);
+          return { error: null };
+        },
+      }),
+    }),
+  };
+
+  return { client: client as unknown as SupabaseClient, deletedEndpoints };
+};
+
+beforeEach(() => {
+  vi.mocked(fetchSpawnLocations).mockResolvedValue({
+    locations: [location],
+    error: null,
+  });
+  vi.mocked(fetchSpawnTimersForLocations).mockResolvedValue(
+    new Map([
+      [
+        location.id,
+        {
+          id: 1,
+          text: location.label,
+          next_spawn: new Date(NOW_MS + 3 * 60_000).toISOString(),
+          ingame_time: null,
+          ingame_time_saved_at: null,
+        },
+      ],
+    ])
+  );
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+describe("dispatchPushNotifications", () => {
+  it("notifies the subscriptions watching a spawn within their lead time", async () => {
+    const { client, deletedEndpoints } = createFakeClient([
+      storedSubscription("https://fcm.googleapis.com/fcm/send/a"),
+    ]);
+    const send = vi.fn<PushSender>(async () => {});
+
+    const result = await dispatchPushNotifications({ client, nowMs: NOW_MS, send });
+
+    expect(result).toEqual({ sent: 1, failed: 0, removed: 0 });
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(send.mock.calls[0][1])).toMatchObject({
+      title: "Ressources-01 — spawn dans 3 min",
+      tag: `spawn-${location.id}`,
+    });
+    expect(deletedEndpoints).toEqual([]);
+  });
+
+  it("removes a subscription the push service reports as 410 Gone", async () => {
+    const gone = "https://updates.push.services.mozilla.com/wpush/v2/gone";
+    const { client, deletedEndpoints } = createFakeClient([
+      storedSubscription(gone),
+      storedSubscription("https://fcm.googleapis.com/fcm/send/b"),
+    ]);
+    const send = vi.fn<PushSender>(async (subscription) => {
+      if (subscription.endpoint === gone) {
+        throw new WebPushError("Gone", 410, {}, "", gone);
+      }
+    });
+
+    const result = await dispatchPushNotifications({ client, nowMs: NOW_MS, send });
+
+    expect(result).toEqual({ sent: 1, failed: 0, removed: 1 });
+    expect(deletedEndpoints).toEqual([gone]);
+  });
+
+  it("keeps the subscription after any other failure", async () => {
+    const { client, deletedEndpoints } = createFakeClient([
+      storedSubscription("https://fcm.googleapis.com/fcm/send/c"),
+    ]);
+    const send = vi.fn<PushSender>(async () => {
+      throw new WebPushError("Server error", 500, {}, "", "");
+    });
+
+    const result = await dispatchPushNotifications({ client, nowMs: NOW_MS, send });
+
+    expect(result).toEqual({ sent: 0, failed: 1, removed: 0 });
+    expect(deletedEndpoints).toEqual([]);
+  });
+});
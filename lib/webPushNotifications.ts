@@ -0,0 +1,185 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import webPush, { PushSubscription } from "web-push";
+
+import { fetchClockModels } from "@/lib/clockDrift";
+import { DEFAULT_LOCALE, Locale, translate } from "@/lib/i18n";
+import { deriveMinecraftClockAtDate, PHASE_ICON_MAP } from "@/lib/minecraftTime";
+import { fetchServers } from "@/lib/servers";
+import { resolveServerClockAnchor } from "@/lib/spawnDisplay";
+import {
+  fetchSpawnLocations,
+  getActiveSpawnLocations,
+} from "@/lib/spawnLocations";
+import { getEffectiveNextSpawn } from "@/lib/spawnRecurrence";
+import { fetchSpawnTimersForLocations } from "@/lib/spawnTimerStore";
+
+export type StoredPushSubscription = {
+  endpoint: string;
+  subscription: PushSubscription;
+  watched_location_ids: string[];
+  lead_minutes: number;
+};
+
+export type PushSender = (
+  subscription: PushSubscription,
+  payload: string
+) => Promise<void>;
+
+// Subscriptions the push service reports as gone are removed.
+const EXPIRED_SUBSCRIPTION_STATUSES = new Set([404, 410]);
+
+export const createWebPushSender = (): PushSender | null => {
+  const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  const subject = process.env.VAPID_SUBJECT;
+
+  if (!publicKey || !privateKey || !subject) {
+    return null;
+  }
+
+  return async (subscription, payload) => {
+    await webPush.sendNotification(subscription, payload, {
+      vapidDetails: { subject, publicKey, privateKey },
+      TTL: 5 * 60,
+    });
+  };
+};
+
+export const dispatchPushNotifications = async ({
+  client,
+  nowMs,
+  send,
+  locale = DEFAULT_LOCALE,
+}: {
+  client: SupabaseClient;
+  nowMs: number;
+  send: PushSender;
+  locale?: Locale;
+}) => {
+  const result = { sent: 0, failed: 0, removed: 0 };
+
+  const { data: subscriptionsData, error: subscriptionsError } = await client
+    .from("push_subscriptions")
+    .select("endpoint, subscription, watched_location_ids, lead_minutes");
+
+  if (subscriptionsError) {
+    throw new Error(subscriptionsError.message);
+  }
+
+  const subscriptions = (subscriptionsData ?? []) as StoredPushSubscription[];
+
+  if (subscriptions.length === 0) {
+    return result;
+  }
+
+  const [{ servers }, { locations }] = await Promise.all([
+    fetchServers(client),
+    fetchSpawnLocations(client),
+  ]);
+  const activeLocations = getActiveSpawnLocations(locations);
+  const timersByLocationId = await fetchSpawnTimersForLocations(
+    client,
+    activeLocations
+  );
+  const clockModels = await fetchClockModels(
+    client,
+    activeLocations.map((location) => location.server_id),
+    nowMs
+  );
+
+  for (const stored of subscriptions) {
+    for (const locationId of stored.watched_location_ids) {
+      const location = activeLocations.find((item) => item.id === locationId);
+      const row = timersByLocationId.get(locationId);
+      const effective = location
+        ? getEffectiveNextSpawn(row, location, nowMs)
+        : null;
+
+      if (!location || !row || !effective) {
+        continue;
+      }
+
+      const nextSpawn = new Date(effective.nextSpawnMs);
+
+      const remainingMs = nextSpawn.getTime() - nowMs;
+
+      if (remainingMs <= 0 || remainingMs > stored.lead_minutes * 60_000) {
+        continue;
+      }
+
+      // Claim the notification first so concurrent dispatcher runs cannot
+      // both deliver it.
+      const { data: claimed, error: claimError } = await client
+        .from("push_notifications_sent")
+        .upsert(
+          {
+            endpoint: stored.endpoint,
+            location_id: location.id,
+            next_spawn: nextSpawn.toISOString(),
+          },
+          { onConflict: "endpoint,location_id,next_spawn", ignoreDuplicates: true }
+        )
+        .select("endpoint");
+
+      if (claimError) {
+        throw new Error(claimError.message);
+      }
+
+      if (!claimed || claimed.length === 0) {
+        continue;
+      }
+
+      const phase = deriveMinecraftClockAtDate(
+        resolveServerClockAnchor(
+          row,
+          clockModels.get(location.server_id) ?? null,
+          servers.find((server) => server.id === location.server_id) ?? null,
+          nowMs
+        ).anchor,
+        nextSpawn
+      );
+      const minutesLeft = Math.max(1, Math.round(remainingMs / 60_000));
+
+      try {
+        await send(
+          stored.subscription,
+          JSON.stringify({
+            title: `${translate(locale, "notifications.title", {
+              label: location.label,
+              minutes: minutesLeft,
+            })}${
+              effective.projected
+                ? translate(locale, "notifications.projectedSuffix")
+                : ""
+            }`,
+            body: phase
+              ? `${translate(locale, "notifications.phaseAtSpawn", {
+                  phase: translate(locale, `phase.${phase.phase}`),
+                })}${phase.timeLabel ? ` (≈ ${phase.timeLabel})` : ""}`
+              : translate(locale, "notifications.imminent"),
+            icon: phase ? PHASE_ICON_MAP[phase.phase] : location.icon,
+            tag: `spawn-${location.id}`,
+            url: `/${location.server_id}`,
+          })
+        );
+        result.sent += 1;
+      } catch (caughtError) {
+        const statusCode = (caughtError as { statusCode?: number }).statusCode;
+
+        if (statusCode !== undefined && EXPIRED_SUBSCRIPTION_STATUSES.has(statusCode)) {
+          await client
+            .from("push_subscriptions")
+            .delete()
+            .eq("endpoint", stored.endpoint);
+          result.removed += 1;
+          break;
+        }
+
+        console.error("Web push error", caughtError);
+        result.failed += 1;
+      }
+    }
+  }
+
+  return result;
+};
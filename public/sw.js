@@ -0,0 +1,130 @@
+// Service worker: keeps the app shell available offline, displays Web Push
+// messages sent by /api/notifications/dispatch and focuses the app when one
+// is clicked. Supabase requests are cross-origin and never cached here; the
+// last known timers live in IndexedDB (lib/offlineStore.ts).
+
+const SHELL_CACHE = "legs-info-shell-v1";
+const SHELL_URLS = [
+  "/",
+  "/manifest.webmanifest",
+  "/Background.svg",
+  "/icon.svg",
+  "/pokeball.svg",
+];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .catch(() => undefined)
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key !== SHELL_CACHE)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+const putInShellCache = (request, response) => {
+  if (response.ok) {
+    const copy = response.clone();
+    void caches.open(SHELL_CACHE).then((cache) => cache.put(request, copy));
+  }
+
+  return response;
+};
+
+// Pages are network-first so deployments show up immediately; hashed build
+// assets and images never change under the same URL, so they are cache-first.
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (request.method !== "GET" || url.origin !== self.location.origin) {
+    return;
+  }
+
+  if (url.pathname.startsWith("/api/")) {
+    return;
+  }
+
+  if (request.mode === "navigate") {
+    event.respondWith(
+      fetch(request)
+        .then((response) => putInShellCache(request, response))
+        .catch(() =>
+          caches
+            .match(request)
+            .then((cached) => cached || caches.match("/"))
+            .then((cached) => cached || Response.error())
+        )
+    );
+    return;
+  }
+
+  if (
+    url.pathname.startsWith("/_next/static/") ||
+    /\.(svg|png|ico|woff2?)$/.test(url.pathname)
+  ) {
+    event.respondWith(
+      caches
+        .match(request)
+        .then(
+          (cached) =>
+            cached ||
+            fetch(request).then((response) => putInShellCache(request, response))
+        )
+    );
+  }
+});
+
+self.addEventListener("push", (event) => {
+  let payload = {};
+
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch {
+    payload = { body: event.data ? event.data.text() : "" };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title || "Legendary Info", {
+      body: payload.body || "",
+      icon: payload.icon || "/pokeball.svg",
+      tag: payload.tag,
+      data: { url: payload.url || "/" },
+    })
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const targetUrl = new URL(
+    (event.notification.data && event.notification.data.url) || "/",
+    self.location.origin
+  ).href;
+
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: "window", includeUncontrolled: true })
+      .then((windowClients) => {
+        const existing = windowClients.find(
+          (client) => client.url === targetUrl
+        );
+
+        return existing ? existing.focus() : self.clients.openWindow(targetUrl);
+      })
+  );
+});
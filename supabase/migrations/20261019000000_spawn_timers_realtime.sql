@@ -0,0 +1,5 @@
+-- Broadcast spawn_timers changes to Supabase Realtime subscribers.
+-- REPLICA IDENTITY FULL makes DELETE events carry the removed row.
+alter table public.spawn_timers replica identity full;
+
+alter publication supabase_realtime add table public.spawn_timers;
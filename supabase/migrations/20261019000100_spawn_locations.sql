@@ -0,0 +1,77 @@
+-- Data-driven spawn point catalogue. spawn_timers rows keep matching a
+-- location through spawn_timers.text = spawn_locations.label, so existing
+-- timers need no backfill.
+create table if not exists public.spawn_locations (
+  id text primary key,
+  label text not null unique,
+  icon text not null default '/pokeball.svg',
+  default_respawn_minutes integer not null default 60
+    check (default_respawn_minutes > 0),
+  sort_order integer not null default 0,
+  archived_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+insert into public.spawn_locations (id, label, icon, sort_order)
+values
+  ('ressources-01', 'Ressources-01', '/pokeball.svg', 10),
+  ('ressources-02', 'Ressources-02', '/pokeball.svg', 20),
+  ('construction-01', 'Construction-01', '/icon.svg', 30),
+  ('construction-02', 'Construction-02', '/icon.svg', 40)
+on conflict (id) do nothing;
+
+-- Renaming a location carries its timer along.
+create or replace function public.rename_spawn_timer_with_location()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.label is distinct from old.label then
+    update public.spawn_timers set text = new.label where text = old.label;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists spawn_locations_rename_timer on public.spawn_locations;
+create trigger spawn_locations_rename_timer
+  after update of label on public.spawn_locations
+  for each row execute function public.rename_spawn_timer_with_location();
+
+-- Users allowed to manage the catalogue.
+create table if not exists public.spawn_admins (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+alter table public.spawn_admins enable row level security;
+
+create or replace function public.is_spawn_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.spawn_admins where user_id = auth.uid()
+  );
+$$;
+
+alter table public.spawn_locations enable row level security;
+
+drop policy if exists "spawn_locations are readable by everyone" on public.spawn_locations;
+create policy "spawn_locations are readable by everyone"
+  on public.spawn_locations for select
+  using (true);
+
+drop policy if exists "spawn admins insert spawn_locations" on public.spawn_locations;
+create policy "spawn admins insert spawn_locations"
+  on public.spawn_locations for insert
+  with check (public.is_spawn_admin());
+
+drop policy if exists "spawn admins update spawn_locations" on public.spawn_locations;
+create policy "spawn admins update spawn_locations"
+  on public.spawn_locations for update
+  using (public.is_spawn_admin())
+  with check (public.is_spawn_admin());
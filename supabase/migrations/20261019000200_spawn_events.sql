@@ -0,0 +1,40 @@
+-- Append-only history of timer saves and confirmed spawns.
+create table if not exists public.spawn_events (
+  id bigint generated always as identity primary key,
+  location_id text not null,
+  kind text not null check (kind in ('timer_set', 'spawned')),
+  occurred_at timestamptz not null default now(),
+  next_spawn timestamptz,
+  phase text,
+  ingame_time text,
+  legendary text
+);
+
+create index if not exists spawn_events_location_occurred_at_idx
+  on public.spawn_events (location_id, occurred_at desc);
+
+create or replace function public.reject_spawn_event_changes()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'spawn_events is append-only';
+end;
+$$;
+
+drop trigger if exists spawn_events_append_only on public.spawn_events;
+create trigger spawn_events_append_only
+  before update or delete on public.spawn_events
+  for each row execute function public.reject_spawn_event_changes();
+
+alter table public.spawn_events enable row level security;
+
+drop policy if exists "spawn_events are readable by everyone" on public.spawn_events;
+create policy "spawn_events are readable by everyone"
+  on public.spawn_events for select
+  using (true);
+
+drop policy if exists "spawn_events can be appended" on public.spawn_events;
+create policy "spawn_events can be appended"
+  on public.spawn_events for insert
+  with check (true);
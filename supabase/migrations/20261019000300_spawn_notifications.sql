@@ -0,0 +1,23 @@
+-- Discord webhook settings per spawn location. Webhook URLs are secrets, so
+-- RLS is enabled without any policy: only the service role can read them.
+create table if not exists public.spawn_notification_settings (
+  location_id text primary key,
+  webhook_url text not null,
+  lead_minutes integer[] not null default '{10,5,1}',
+  notify_on_expiry boolean not null default true,
+  enabled boolean not null default true
+);
+
+alter table public.spawn_notification_settings enable row level security;
+
+-- One row per notification already delivered for a given next_spawn, so the
+-- dispatcher can run as often as needed without sending duplicates.
+create table if not exists public.spawn_notifications_sent (
+  location_id text not null,
+  next_spawn timestamptz not null,
+  kind text not null,
+  sent_at timestamptz not null default now(),
+  primary key (location_id, next_spawn, kind)
+);
+
+alter table public.spawn_notifications_sent enable row level security;
@@ -0,0 +1,23 @@
+-- Web Push subscriptions registered from the alert settings panel. Only the
+-- service role touches these tables (through /api/push/subscriptions and the
+-- notification dispatcher), so RLS is enabled without policies.
+create table if not exists public.push_subscriptions (
+  endpoint text primary key,
+  subscription jsonb not null,
+  watched_location_ids text[] not null default '{}',
+  lead_minutes integer not null default 5 check (lead_minutes between 1 and 120),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.push_subscriptions enable row level security;
+
+create table if not exists public.push_notifications_sent (
+  endpoint text not null references public.push_subscriptions (endpoint)
+    on delete cascade,
+  location_id text not null,
+  next_spawn timestamptz not null,
+  sent_at timestamptz not null default now(),
+  primary key (endpoint, location_id, next_spawn)
+);
+
+alter table public.push_notifications_sent enable row level security;
@@ -0,0 +1,80 @@
+-- Attribute every spawn_timers write to the signed-in user and restrict
+-- writes to authenticated users. Anonymous visitors keep read access.
+alter table public.spawn_timers
+  add column if not exists updated_by uuid references auth.users (id) on delete set null,
+  add column if not exists updated_by_name text,
+  add column if not exists updated_at timestamptz not null default now();
+
+-- Attribution is derived from the caller's JWT rather than trusted from the
+-- client. Service-role callers (API routes, bots) have no auth.uid() and may
+-- name themselves through updated_by_name instead.
+create or replace function public.stamp_spawn_timer_author()
+returns trigger
+language plpgsql
+as $$
+declare
+  claims jsonb := coalesce(auth.jwt(), '{}'::jsonb);
+begin
+  new.updated_at := now();
+
+  if auth.uid() is not null then
+    new.updated_by := auth.uid();
+    new.updated_by_name := coalesce(
+      claims -> 'user_metadata' ->> 'full_name',
+      claims -> 'user_metadata' ->> 'name',
+      claims -> 'user_metadata' ->> 'user_name',
+      split_part(claims ->> 'email', '@', 1)
+    );
+  else
+    new.updated_by := null;
+
+    if tg_op = 'UPDATE' and new.updated_by_name is not distinct from old.updated_by_name then
+      new.updated_by_name := null;
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists spawn_timers_stamp_author on public.spawn_timers;
+create trigger spawn_timers_stamp_author
+  before insert or update on public.spawn_timers
+  for each row execute function public.stamp_spawn_timer_author();
+
+alter table public.spawn_timers enable row level security;
+
+drop policy if exists "spawn_timers are readable by everyone" on public.spawn_timers;
+create policy "spawn_timers are readable by everyone"
+  on public.spawn_timers for select
+  using (true);
+
+drop policy if exists "authenticated users insert spawn_timers" on public.spawn_timers;
+create policy "authenticated users insert spawn_timers"
+  on public.spawn_timers for insert
+  to authenticated
+  with check (true);
+
+drop policy if exists "authenticated users update spawn_timers" on public.spawn_timers;
+create policy "authenticated users update spawn_timers"
+  on public.spawn_timers for update
+  to authenticated
+  using (true)
+  with check (true);
+
+drop policy if exists "spawn admins delete spawn_timers" on public.spawn_timers;
+create policy "spawn admins delete spawn_timers"
+  on public.spawn_timers for delete
+  to authenticated
+  using (public.is_spawn_admin());
+
+-- spawn_events are now attributed too, and only signed-in users append.
+alter table public.spawn_events
+  add column if not exists created_by uuid default auth.uid()
+    references auth.users (id) on delete set null;
+
+drop policy if exists "spawn_events can be appended" on public.spawn_events;
+create policy "spawn_events can be appended"
+  on public.spawn_events for insert
+  to authenticated
+  with check (created_by = auth.uid());
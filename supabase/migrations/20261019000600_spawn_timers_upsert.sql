@@ -0,0 +1,48 @@
+-- One spawn_timers row per resource label, written through a single atomic
+-- upsert with optional optimistic concurrency.
+
+-- Keep the most recently updated row of any duplicated label.
+delete from public.spawn_timers as duplicate
+using public.spawn_timers as kept
+where duplicate.text = kept.text
+  and (duplicate.updated_at, duplicate.id) < (kept.updated_at, kept.id);
+
+alter table public.spawn_timers
+  drop constraint if exists spawn_timers_text_key;
+alter table public.spawn_timers
+  add constraint spawn_timers_text_key unique (text);
+
+-- Null parameters leave the stored value untouched. With p_check_conflict the
+-- write only applies when the row's updated_at still equals
+-- p_expected_updated_at (null meaning "the row did not exist yet"); otherwise
+-- nothing is returned and the caller reports a conflict. The check only sits
+-- on the update branch: a missing row is always inserted, and an existing one
+-- never matches a null expectation since updated_at is always set.
+create or replace function public.save_spawn_timer(
+  p_text text,
+  p_next_spawn timestamptz default null,
+  p_ingame_time text default null,
+  p_ingame_time_saved_at timestamptz default null,
+  p_updated_by_name text default null,
+  p_check_conflict boolean default false,
+  p_expected_updated_at timestamptz default null
+)
+returns setof public.spawn_timers
+language sql
+as $$
+  insert into public.spawn_timers as current (
+    text, next_spawn, ingame_time, ingame_time_saved_at, updated_by_name
+  )
+  select p_text, p_next_spawn, p_ingame_time, p_ingame_time_saved_at, p_updated_by_name
+  on conflict (text) do update set
+    next_spawn = coalesce(excluded.next_spawn, current.next_spawn),
+    ingame_time = coalesce(excluded.ingame_time, current.ingame_time),
+    ingame_time_saved_at = coalesce(
+      excluded.ingame_time_saved_at,
+      current.ingame_time_saved_at
+    ),
+    updated_by_name = excluded.updated_by_name
+  where not p_check_conflict
+    or current.updated_at is not distinct from p_expected_updated_at
+  returning current.*;
+$$;
@@ -0,0 +1,98 @@
+-- Multi-server support: every location and timer belongs to a Cobblemon
+-- server/world. Existing rows are attached to the original CobbleGems server.
+create table if not exists public.servers (
+  id text primary key,
+  name text not null,
+  sort_order integer not null default 0,
+  archived_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+insert into public.servers (id, name, sort_order)
+values ('cobblegems', 'CobbleGems', 10)
+on conflict (id) do nothing;
+
+alter table public.servers enable row level security;
+
+drop policy if exists "servers are readable by everyone" on public.servers;
+create policy "servers are readable by everyone"
+  on public.servers for select
+  using (true);
+
+drop policy if exists "spawn admins manage servers" on public.servers;
+create policy "spawn admins manage servers"
+  on public.servers for all
+  to authenticated
+  using (public.is_spawn_admin())
+  with check (public.is_spawn_admin());
+
+-- Locations: labels only need to be unique within a server.
+alter table public.spawn_locations
+  add column if not exists server_id text not null default 'cobblegems'
+    references public.servers (id);
+alter table public.spawn_locations
+  drop constraint if exists spawn_locations_label_key;
+alter table public.spawn_locations
+  drop constraint if exists spawn_locations_server_label_key;
+alter table public.spawn_locations
+  add constraint spawn_locations_server_label_key unique (server_id, label);
+
+-- Timers: one row per (server, label).
+alter table public.spawn_timers
+  add column if not exists server_id text not null default 'cobblegems'
+    references public.servers (id);
+alter table public.spawn_timers
+  drop constraint if exists spawn_timers_text_key;
+alter table public.spawn_timers
+  drop constraint if exists spawn_timers_server_text_key;
+alter table public.spawn_timers
+  add constraint spawn_timers_server_text_key unique (server_id, text);
+
+create or replace function public.rename_spawn_timer_with_location()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.label is distinct from old.label then
+    update public.spawn_timers
+    set text = new.label
+    where server_id = new.server_id and text = old.label;
+  end if;
+  return new;
+end;
+$$;
+
+drop function if exists public.save_spawn_timer(
+  text, timestamptz, text, timestamptz, text, boolean, timestamptz
+);
+
+create or replace function public.save_spawn_timer(
+  p_server_id text,
+  p_text text,
+  p_next_spawn timestamptz default null,
+  p_ingame_time text default null,
+  p_ingame_time_saved_at timestamptz default null,
+  p_updated_by_name text default null,
+  p_check_conflict boolean default false,
+  p_expected_updated_at timestamptz default null
+)
+returns setof public.spawn_timers
+language sql
+as $$
+  insert into public.spawn_timers as current (
+    server_id, text, next_spawn, ingame_time, ingame_time_saved_at, updated_by_name
+  )
+  select p_server_id, p_text, p_next_spawn, p_ingame_time, p_ingame_time_saved_at,
+    p_updated_by_name
+  on conflict (server_id, text) do update set
+    next_spawn = coalesce(excluded.next_spawn, current.next_spawn),
+    ingame_time = coalesce(excluded.ingame_time, current.ingame_time),
+    ingame_time_saved_at = coalesce(
+      excluded.ingame_time_saved_at,
+      current.ingame_time_saved_at
+    ),
+    updated_by_name = excluded.updated_by_name
+  where not p_check_conflict
+    or current.updated_at is not distinct from p_expected_updated_at
+  returning current.*;
+$$;
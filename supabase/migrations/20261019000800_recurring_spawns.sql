@@ -0,0 +1,10 @@
+-- Optional recurring cycle per location. Once next_spawn has passed, clients
+-- and the notification dispatcher project the next attempt every
+-- recurring_interval_minutes (± recurring_jitter_minutes) until someone
+-- confirms a new time. Nothing is written back: the projection is derived.
+alter table public.spawn_locations
+  add column if not exists recurring_interval_minutes integer
+    check (recurring_interval_minutes is null or recurring_interval_minutes > 0);
+alter table public.spawn_locations
+  add column if not exists recurring_jitter_minutes integer not null default 0
+    check (recurring_jitter_minutes >= 0);
@@ -0,0 +1,50 @@
+-- Every in-game time submission becomes a clock observation, whatever the
+-- writer (page, API, bot). Clients fit the effective tick rate from the
+-- recent observations of a server instead of trusting a single anchor.
+create table if not exists public.clock_observations (
+  id bigint generated always as identity primary key,
+  server_id text not null references public.servers (id),
+  timer_text text,
+  ingame_time text not null,
+  observed_at timestamptz not null,
+  created_by uuid default auth.uid() references auth.users (id) on delete set null
+);
+
+create index if not exists clock_observations_server_observed_at_idx
+  on public.clock_observations (server_id, observed_at desc);
+
+create or replace function public.record_clock_observation()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.ingame_time is null or new.ingame_time_saved_at is null then
+    return new;
+  end if;
+
+  if tg_op = 'UPDATE'
+    and new.ingame_time is not distinct from old.ingame_time
+    and new.ingame_time_saved_at is not distinct from old.ingame_time_saved_at then
+    return new;
+  end if;
+
+  insert into public.clock_observations (server_id, timer_text, ingame_time, observed_at)
+  values (new.server_id, new.text, new.ingame_time, new.ingame_time_saved_at);
+
+  return new;
+end;
+$$;
+
+drop trigger if exists spawn_timers_record_clock_observation on public.spawn_timers;
+create trigger spawn_timers_record_clock_observation
+  after insert or update on public.spawn_timers
+  for each row execute function public.record_clock_observation();
+
+alter table public.clock_observations enable row level security;
+
+drop policy if exists "clock_observations are readable by everyone" on public.clock_observations;
+create policy "clock_observations are readable by everyone"
+  on public.clock_observations for select
+  using (true);
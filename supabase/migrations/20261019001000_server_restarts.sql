@@ -0,0 +1,49 @@
+-- Restart awareness per server. restart_schedule is a 5-field cron
+-- expression evaluated in restart_timezone; restart_ingame_time is the
+-- in-game time the world resumes at after a restart, when it is known.
+alter table public.servers
+  add column if not exists restart_schedule text,
+  add column if not exists restart_timezone text not null default 'Europe/Paris',
+  add column if not exists restart_ingame_time text
+    check (restart_ingame_time is null or restart_ingame_time ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  add column if not exists last_restart_at timestamptz;
+
+-- Any signed-in player may report a restart. When the post-restart in-game
+-- time is known it is also recorded as a clock observation, so the fitted
+-- clock restarts from it.
+create or replace function public.mark_server_restart(
+  p_server_id text,
+  p_restarted_at timestamptz default now()
+)
+returns setof public.servers
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  restarted public.servers;
+begin
+  if auth.uid() is null and coalesce(auth.role(), '') <> 'service_role' then
+    raise exception 'authentication required';
+  end if;
+
+  update public.servers
+  set last_restart_at = p_restarted_at
+  where id = p_server_id
+  returning * into restarted;
+
+  if restarted.id is null then
+    return;
+  end if;
+
+  if restarted.restart_ingame_time is not null then
+    insert into public.clock_observations (server_id, ingame_time, observed_at)
+    values (restarted.id, restarted.restart_ingame_time, p_restarted_at);
+  end if;
+
+  return next restarted;
+end;
+$$;
+
+revoke all on function public.mark_server_restart(text, timestamptz) from public, anon;
+grant execute on function public.mark_server_restart(text, timestamptz) to authenticated, service_role;
@@ -0,0 +1,22 @@
+-- Phases are now stored as locale-independent keys; the labels shown to
+-- players come from the app's message catalogues. Rewrite the French labels
+-- recorded so far (the append-only guard is lifted for this one update).
+alter table public.spawn_events disable trigger spawn_events_append_only;
+
+update public.spawn_events
+set phase = case phase
+  when 'Aube' then 'dawn'
+  when 'Matin' then 'morning'
+  when 'Après-midi' then 'afternoon'
+  when 'Crépuscule' then 'dusk'
+  when 'Nuit' then 'night'
+end
+where phase in ('Aube', 'Matin', 'Après-midi', 'Crépuscule', 'Nuit');
+
+alter table public.spawn_events enable trigger spawn_events_append_only;
+
+alter table public.spawn_events
+  drop constraint if exists spawn_events_phase_check;
+alter table public.spawn_events
+  add constraint spawn_events_phase_check
+  check (phase is null or phase in ('dawn', 'morning', 'afternoon', 'dusk', 'night'));
@@ -0,0 +1,86 @@
+-- Every change to a timer's next_spawn or in-game time is kept as a revision
+-- (old and new values, author, time) so a wrong save can be reviewed and
+-- reverted. Reverting is a regular save, which records its own revision.
+create table if not exists public.spawn_timer_revisions (
+  id bigint generated always as identity primary key,
+  -- Stable across renames, unlike the timer label.
+  location_id text,
+  server_id text not null references public.servers (id),
+  timer_text text,
+  old_next_spawn timestamptz,
+  new_next_spawn timestamptz,
+  old_ingame_time text,
+  new_ingame_time text,
+  old_ingame_time_saved_at timestamptz,
+  new_ingame_time_saved_at timestamptz,
+  changed_by uuid references auth.users (id) on delete set null,
+  changed_by_name text,
+  changed_at timestamptz not null default now()
+);
+
+create index if not exists spawn_timer_revisions_location_changed_at_idx
+  on public.spawn_timer_revisions (location_id, changed_at desc);
+
+create or replace function public.record_spawn_timer_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE'
+    and new.next_spawn is not distinct from old.next_spawn
+    and new.ingame_time is not distinct from old.ingame_time
+    and new.ingame_time_saved_at is not distinct from old.ingame_time_saved_at then
+    return new;
+  end if;
+
+  insert into public.spawn_timer_revisions (
+    location_id, server_id, timer_text,
+    old_next_spawn, new_next_spawn,
+    old_ingame_time, new_ingame_time,
+    old_ingame_time_saved_at, new_ingame_time_saved_at,
+    changed_by, changed_by_name, changed_at
+  )
+  values (
+    (
+      select id from public.spawn_locations
+      where server_id = new.server_id and label = new.text
+    ),
+    new.server_id, new.text,
+    case when tg_op = 'UPDATE' then old.next_spawn end, new.next_spawn,
+    case when tg_op = 'UPDATE' then old.ingame_time end, new.ingame_time,
+    case when tg_op = 'UPDATE' then old.ingame_time_saved_at end,
+    new.ingame_time_saved_at,
+    new.updated_by, new.updated_by_name, new.updated_at
+  );
+
+  return new;
+end;
+$$;
+
+drop trigger if exists spawn_timers_record_revision on public.spawn_timers;
+create trigger spawn_timers_record_revision
+  after insert or update on public.spawn_timers
+  for each row execute function public.record_spawn_timer_revision();
+
+create or replace function public.reject_spawn_timer_revision_changes()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'spawn_timer_revisions is append-only';
+end;
+$$;
+
+drop trigger if exists spawn_timer_revisions_append_only on public.spawn_timer_revisions;
+create trigger spawn_timer_revisions_append_only
+  before update or delete on public.spawn_timer_revisions
+  for each row execute function public.reject_spawn_timer_revision_changes();
+
+alter table public.spawn_timer_revisions enable row level security;
+
+drop policy if exists "spawn_timer_revisions are readable by everyone" on public.spawn_timer_revisions;
+create policy "spawn_timer_revisions are readable by everyone"
+  on public.spawn_timer_revisions for select
+  using (true);
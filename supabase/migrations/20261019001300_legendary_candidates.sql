@@ -0,0 +1,41 @@
+-- Legendaries each spawn point can produce, with the phases and weather they
+-- require (an empty array means any). Managed by spawn admins.
+create table if not exists public.legendary_candidates (
+  id bigint generated always as identity primary key,
+  location_id text not null references public.spawn_locations (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  phases text[] not null default '{}'
+    check (phases <@ array['dawn', 'morning', 'afternoon', 'dusk', 'night']),
+  weather text[] not null default '{}'
+    check (weather <@ array['clear', 'rain', 'thunder']),
+  sort_order integer not null default 0,
+  created_at timestamptz not null default now(),
+  constraint legendary_candidates_location_name_key unique (location_id, name)
+);
+
+alter table public.legendary_candidates enable row level security;
+
+drop policy if exists "legendary_candidates are readable by everyone" on public.legendary_candidates;
+create policy "legendary_candidates are readable by everyone"
+  on public.legendary_candidates for select
+  using (true);
+
+drop policy if exists "spawn admins insert legendary_candidates" on public.legendary_candidates;
+create policy "spawn admins insert legendary_candidates"
+  on public.legendary_candidates for insert
+  with check (public.is_spawn_admin());
+
+drop policy if exists "spawn admins update legendary_candidates" on public.legendary_candidates;
+create policy "spawn admins update legendary_candidates"
+  on public.legendary_candidates for update
+  using (public.is_spawn_admin())
+  with check (public.is_spawn_admin());
+
+drop policy if exists "spawn admins delete legendary_candidates" on public.legendary_candidates;
+create policy "spawn admins delete legendary_candidates"
+  on public.legendary_candidates for delete
+  using (public.is_spawn_admin());
+
+-- Catch log: who caught the legendary of a confirmed spawn.
+alter table public.spawn_events
+  add column if not exists caught_by text;
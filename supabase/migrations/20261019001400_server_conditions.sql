@@ -0,0 +1,69 @@
+-- Conditions players report from the game. ingame_day is the day count of
+-- `/time query day` at ingame_day_reported_at; the app extrapolates it with
+-- the clock to predict the moon phase. Weather reports hold until
+-- weather_expires_at.
+alter table public.servers
+  add column if not exists ingame_day integer check (ingame_day is null or ingame_day >= 0),
+  add column if not exists ingame_day_reported_at timestamptz,
+  add column if not exists weather text
+    check (weather is null or weather in ('clear', 'rain', 'thunder')),
+  add column if not exists weather_reported_at timestamptz,
+  add column if not exists weather_expires_at timestamptz;
+
+-- Like mark_server_restart, any signed-in player may report conditions
+-- without being allowed to edit the rest of the server row.
+create or replace function public.report_ingame_day(
+  p_server_id text,
+  p_day integer,
+  p_reported_at timestamptz default now()
+)
+returns setof public.servers
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null and coalesce(auth.role(), '') <> 'service_role' then
+    raise exception 'authentication required';
+  end if;
+
+  return query
+    update public.servers
+    set ingame_day = p_day,
+        ingame_day_reported_at = p_reported_at
+    where id = p_server_id
+    returning *;
+end;
+$$;
+
+create or replace function public.report_weather(
+  p_server_id text,
+  p_weather text,
+  p_expires_at timestamptz,
+  p_reported_at timestamptz default now()
+)
+returns setof public.servers
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null and coalesce(auth.role(), '') <> 'service_role' then
+    raise exception 'authentication required';
+  end if;
+
+  return query
+    update public.servers
+    set weather = p_weather,
+        weather_reported_at = p_reported_at,
+        weather_expires_at = p_expires_at
+    where id = p_server_id
+    returning *;
+end;
+$$;
+
+revoke all on function public.report_ingame_day(text, integer, timestamptz) from public, anon;
+grant execute on function public.report_ingame_day(text, integer, timestamptz) to authenticated, service_role;
+
+revoke all on function public.report_weather(text, text, timestamptz, timestamptz) from public, anon;
+grant execute on function public.report_weather(text, text, timestamptz, timestamptz) to authenticated, service_role;
@@ -0,0 +1,15 @@
+-- Web Push subscriptions now belong to the signed-in user who registered
+-- them: only they can replace or remove them, and each user keeps a bounded
+-- number (see app/api/push/subscriptions/route.ts). Anonymous rows cannot be
+-- attributed and are dropped; their browsers register again once signed in.
+alter table public.push_subscriptions
+  add column if not exists user_id uuid references auth.users (id)
+    on delete cascade;
+
+delete from public.push_subscriptions where user_id is null;
+
+alter table public.push_subscriptions
+  alter column user_id set not null;
+
+create index if not exists push_subscriptions_user_idx
+  on public.push_subscriptions (user_id, updated_at desc);
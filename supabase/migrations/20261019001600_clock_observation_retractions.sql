@@ -0,0 +1,54 @@
+-- Undoing or reverting an in-game time puts an earlier reading back. The
+-- reading it replaces was a mistake, so it is retracted and left out of the
+-- fitted clock (see fitClockModel) instead of being taken for a restart.
+alter table public.clock_observations
+  add column if not exists retracted_at timestamptz;
+
+create or replace function public.record_clock_observation()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.ingame_time is null or new.ingame_time_saved_at is null then
+    return new;
+  end if;
+
+  if tg_op = 'UPDATE'
+    and new.ingame_time is not distinct from old.ingame_time
+    and new.ingame_time_saved_at is not distinct from old.ingame_time_saved_at then
+    return new;
+  end if;
+
+  -- Readings are always saved with their observation time, so only an undo
+  -- or a revert moves the anchor back in time.
+  if tg_op = 'UPDATE' and new.ingame_time_saved_at < old.ingame_time_saved_at then
+    update public.clock_observations
+    set retracted_at = now()
+    where server_id = old.server_id
+      and timer_text = old.text
+      and ingame_time = old.ingame_time
+      and observed_at = old.ingame_time_saved_at
+      and retracted_at is null;
+
+    -- The restored reading is usually still there; bring it back if it had
+    -- been retracted in turn.
+    update public.clock_observations
+    set retracted_at = null
+    where server_id = new.server_id
+      and timer_text = new.text
+      and ingame_time = new.ingame_time
+      and observed_at = new.ingame_time_saved_at;
+
+    if found then
+      return new;
+    end if;
+  end if;
+
+  insert into public.clock_observations (server_id, timer_text, ingame_time, observed_at)
+  values (new.server_id, new.text, new.ingame_time, new.ingame_time_saved_at);
+
+  return new;
+end;
+$$;
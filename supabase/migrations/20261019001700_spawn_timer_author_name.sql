@@ -0,0 +1,68 @@
+-- Callers without a session (API routes, the Discord bot) name themselves
+-- through save_spawn_timer's p_updated_by_name. The author trigger used to
+-- tell a supplied name from a leftover one by comparing it with the old
+-- row, which blanked the name of every second save in a row by the same
+-- author. save_spawn_timer now hands the name over in a transaction-local
+-- setting, and any other write without a session is anonymous.
+create or replace function public.stamp_spawn_timer_author()
+returns trigger
+language plpgsql
+as $$
+declare
+  claims jsonb := coalesce(auth.jwt(), '{}'::jsonb);
+begin
+  new.updated_at := now();
+
+  if auth.uid() is not null then
+    new.updated_by := auth.uid();
+    new.updated_by_name := coalesce(
+      claims -> 'user_metadata' ->> 'full_name',
+      claims -> 'user_metadata' ->> 'name',
+      claims -> 'user_metadata' ->> 'user_name',
+      split_part(claims ->> 'email', '@', 1)
+    );
+  else
+    new.updated_by := null;
+    new.updated_by_name := nullif(current_setting('legs_info.author_name', true), '');
+  end if;
+
+  return new;
+end;
+$$;
+
+create or replace function public.save_spawn_timer(
+  p_server_id text,
+  p_text text,
+  p_next_spawn timestamptz default null,
+  p_ingame_time text default null,
+  p_ingame_time_saved_at timestamptz default null,
+  p_updated_by_name text default null,
+  p_check_conflict boolean default false,
+  p_expected_updated_at timestamptz default null
+)
+returns setof public.spawn_timers
+language plpgsql
+as $$
+begin
+  perform set_config('legs_info.author_name', coalesce(p_updated_by_name, ''), true);
+
+  return query
+  insert into public.spawn_timers as current (
+    server_id, text, next_spawn, ingame_time, ingame_time_saved_at
+  )
+  select p_server_id, p_text, p_next_spawn, p_ingame_time, p_ingame_time_saved_at
+  on conflict (server_id, text) do update set
+    next_spawn = coalesce(excluded.next_spawn, current.next_spawn),
+    ingame_time = coalesce(excluded.ingame_time, current.ingame_time),
+    ingame_time_saved_at = coalesce(
+      excluded.ingame_time_saved_at,
+      current.ingame_time_saved_at
+    )
+  where not p_check_conflict
+    or current.updated_at is not distinct from p_expected_updated_at
+  returning current.*;
+
+  -- Later writes in the same transaction must not inherit the name.
+  perform set_config('legs_info.author_name', '', true);
+end;
+$$;